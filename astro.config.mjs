@@ -15,6 +15,10 @@ export default defineConfig({
     }),
     vite: {
         plugins: [tailwindcss()],
+        define: {
+            // Stamps the service worker so each deploy ships an update
+            "import.meta.env.BUILD_ID": JSON.stringify(Date.now().toString(36)),
+        },
         ssr: {
             noExternal: ["lucide-react", "framer-motion"],
         },
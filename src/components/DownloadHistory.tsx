@@ -0,0 +1,192 @@
+import { History, RotateCcw, Search, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { isSupportedPlatform, PLATFORMS } from "@/constants/platforms";
+import { filterHistory, type HistoryEntry } from "@/lib/history";
+import { HTML_LANG } from "@/lib/i18n";
+import type { SupportedPlatform } from "@/types/download";
+import { useTranslation } from "./LocaleContext";
+import { PlatformIcon } from "./PlatformIcon";
+
+interface DownloadHistoryProps {
+	entries: HistoryEntry[];
+	enabled: boolean;
+	onEnabledChange: (enabled: boolean) => void;
+	onReextract: (entry: HistoryEntry) => void;
+	onDelete: (entry: HistoryEntry) => void;
+	onClear: () => void;
+	loading: boolean;
+}
+
+/**
+ * Past extractions on this device, with search, a platform filter and re-extract
+ */
+export function DownloadHistory({
+	entries,
+	enabled,
+	onEnabledChange,
+	onReextract,
+	onDelete,
+	onClear,
+	loading,
+}: DownloadHistoryProps) {
+	const { locale, t } = useTranslation();
+	const [open, setOpen] = useState(false);
+	const [query, setQuery] = useState("");
+	const [platform, setPlatform] = useState<SupportedPlatform | null>(null);
+
+	// Only offer platforms that actually appear in the history
+	const platforms = [...new Set(entries.map((entry) => entry.platform))];
+	const visible = filterHistory(entries, { query, platform });
+
+	return (
+		<div className="bg-white/5 border border-white/10 rounded-2xl text-left">
+			<button
+				type="button"
+				onClick={() => setOpen((value) => !value)}
+				aria-expanded={open}
+				className="w-full px-4 py-3 flex items-center justify-between text-sm text-gray-300 hover:text-white"
+			>
+				<span className="flex items-center gap-2">
+					<History className="w-4 h-4" />
+					{t("history.title")}
+					{entries.length > 0 && (
+						<span className="text-xs text-gray-500">({entries.length})</span>
+					)}
+				</span>
+				<span className="text-xs text-gray-500">
+					{open ? t("history.hide") : t("history.show")}
+				</span>
+			</button>
+
+			{open && (
+				<div className="px-4 pb-4 space-y-3">
+					{entries.length > 0 && (
+						<div className="flex flex-col sm:flex-row gap-2">
+							<label className="relative flex-1">
+								<span className="sr-only">{t("history.search")}</span>
+								<Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+								<input
+									type="search"
+									value={query}
+									onChange={(e) => setQuery(e.target.value)}
+									placeholder={t("history.searchPlaceholder")}
+									className="w-full pl-9 pr-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+								/>
+							</label>
+							<label className="inline-flex items-center gap-2 text-sm text-gray-400">
+								<span className="sr-only">{t("history.platform")}</span>
+								<select
+									value={platform ?? ""}
+									onChange={(e) =>
+										setPlatform(
+											isSupportedPlatform(e.target.value)
+												? e.target.value
+												: null,
+										)
+									}
+									className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+								>
+									<option value="">{t("history.allPlatforms")}</option>
+									{platforms.map((id) => (
+										<option key={id} value={id}>
+											{PLATFORMS[id].name}
+										</option>
+									))}
+								</select>
+							</label>
+						</div>
+					)}
+
+					{entries.length === 0 ? (
+						<p className="text-sm text-gray-500">
+							{enabled ? t("history.empty") : t("history.off")}
+						</p>
+					) : visible.length === 0 ? (
+						<p className="text-sm text-gray-500">{t("history.noMatches")}</p>
+					) : (
+						<ul className="space-y-2 max-h-80 overflow-y-auto">
+							{visible.map((entry) => (
+								<li
+									key={entry.url}
+									className="flex items-center gap-3 p-2 rounded-xl hover:bg-white/5"
+								>
+									{entry.thumbnail ? (
+										<img
+											src={entry.thumbnail}
+											alt=""
+											className="w-12 h-12 rounded-lg object-cover shrink-0"
+											loading="lazy"
+										/>
+									) : (
+										<div className="w-12 h-12 rounded-lg bg-white/10 flex items-center justify-center shrink-0">
+											<PlatformIcon
+												icon={PLATFORMS[entry.platform].icon}
+												className="w-5 h-5"
+											/>
+										</div>
+									)}
+									<div className="flex-1 min-w-0">
+										<p className="text-sm text-white truncate">
+											{entry.title || t("result.untitled")}
+										</p>
+										<p className="text-xs text-gray-500 truncate">
+											{PLATFORMS[entry.platform].name} ·{" "}
+											{new Date(entry.createdAt).toLocaleString(
+												HTML_LANG[locale],
+											)}{" "}
+											· {t("history.formats", { count: entry.formats.length })}
+										</p>
+									</div>
+									<button
+										type="button"
+										onClick={() => onReextract(entry)}
+										disabled={loading}
+										title={t("history.reextract")}
+										aria-label={t("history.reextractLabel", {
+											title: entry.title || entry.url,
+										})}
+										className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-50"
+									>
+										<RotateCcw className="w-4 h-4" />
+									</button>
+									<button
+										type="button"
+										onClick={() => onDelete(entry)}
+										title={t("history.remove")}
+										aria-label={t("history.removeLabel", {
+											title: entry.title || entry.url,
+										})}
+										className="p-2 rounded-lg text-gray-400 hover:text-red-300 hover:bg-white/10"
+									>
+										<Trash2 className="w-4 h-4" />
+									</button>
+								</li>
+							))}
+						</ul>
+					)}
+
+					<div className="flex flex-wrap items-center justify-between gap-2 pt-2 border-t border-white/5">
+						<label className="inline-flex items-center gap-2 text-xs text-gray-400">
+							<input
+								type="checkbox"
+								checked={enabled}
+								onChange={(e) => onEnabledChange(e.target.checked)}
+								className="accent-purple-500"
+							/>
+							{t("history.keep")}
+						</label>
+						{entries.length > 0 && (
+							<button
+								type="button"
+								onClick={onClear}
+								className="text-xs text-gray-400 hover:text-red-300"
+							>
+								{t("history.clear")}
+							</button>
+						)}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
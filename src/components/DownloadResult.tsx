@@ -1,13 +1,21 @@
-import { Download, ExternalLink, Image, Music, Video } from "lucide-react";
+import { Download, ExternalLink, Image, Video } from "lucide-react";
+import type { Locale } from "@/lib/i18n";
 import type { DownloadResult as DownloadResultType } from "@/types/download";
+import { LocaleProvider, useTranslation } from "./LocaleContext";
 
 interface DownloadResultProps {
 	result: DownloadResultType;
+	locale?: Locale; // For cards rendered outside DownloaderApp, e.g. on result pages
 }
 
-export function DownloadResult({ result }: DownloadResultProps) {
-	const TypeIcon =
-		result.type === "video" ? Video : result.type === "image" ? Image : Music;
+export function DownloadResult({ result, locale }: DownloadResultProps) {
+	const card = <ResultCard result={result} />;
+	return locale ? <LocaleProvider value={locale}>{card}</LocaleProvider> : card;
+}
+
+function ResultCard({ result }: { result: DownloadResultType }) {
+	const { t } = useTranslation();
+	const TypeIcon = result.type === "video" ? Video : Image;
 
 	const handleDownload = () => {
 		if (result.downloadUrl) {
@@ -35,7 +43,7 @@ export function DownloadResult({ result }: DownloadResultProps) {
 				<div className="absolute top-3 left-3">
 					<span className="px-2 py-1 text-xs font-medium rounded-lg bg-black/60 text-white capitalize flex items-center gap-1">
 						<TypeIcon className="w-3 h-3" />
-						{result.type}
+						{t(`media.${result.type}`)}
 					</span>
 				</div>
 				{/* Quality Badge */}
@@ -51,13 +59,21 @@ export function DownloadResult({ result }: DownloadResultProps) {
 			{/* Content */}
 			<div className="p-4 space-y-3">
 				<h3 className="font-medium text-white line-clamp-2 text-sm">
-					{result.title || "Untitled"}
+					{result.title || t("result.untitled")}
 				</h3>
 
 				{result.metadata?.author && (
 					<p className="text-xs text-gray-400">@{result.metadata.author}</p>
 				)}
 
+				{(result.ext || result.size) && (
+					<p className="text-xs text-gray-500">
+						{[result.ext?.toUpperCase(), result.size]
+							.filter(Boolean)
+							.join(" · ")}
+					</p>
+				)}
+
 				{/* Actions */}
 				<div className="flex gap-2 pt-2">
 					<button
@@ -66,12 +82,13 @@ export function DownloadResult({ result }: DownloadResultProps) {
 						className="flex-1 px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 text-white text-sm font-medium rounded-xl transition-all duration-300 flex items-center justify-center gap-2"
 					>
 						<Download className="w-4 h-4" />
-						Download
+						{t("result.download")}
 					</button>
 					<a
 						href={result.url}
 						target="_blank"
 						rel="noopener noreferrer"
+						aria-label={t("result.openOriginal")}
 						className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white text-sm font-medium rounded-xl transition-all duration-300 flex items-center justify-center"
 					>
 						<ExternalLink className="w-4 h-4" />
@@ -1,310 +1,774 @@
 import {
+	Archive,
 	CheckCircle,
-	Instagram,
 	Loader2,
-	Music,
-	Twitter,
+	RotateCcw,
 	XCircle,
 } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { PLATFORMS, SUPPORTED_PLATFORM_IDS } from "@/constants/platforms";
+import { isQualityPreference } from "@/constants/quality";
+import { api } from "@/lib/api-client";
+import type { ErrorDetails } from "@/lib/errors";
+import {
+	createHistoryEntry,
+	type HistoryEntry,
+	HistoryStore,
+	isHistoryEnabled,
+	saveHistoryEnabled,
+} from "@/lib/history";
+import {
+	DEFAULT_LOCALE,
+	describeLocalizedError,
+	formatList,
+	type Locale,
+	type MessageKey,
+	type Translate,
+	translator,
+} from "@/lib/i18n";
+import { permalinkFor } from "@/lib/permalink";
+import { registerServiceWorker } from "@/lib/service-worker";
 import { detectPlatform } from "@/lib/validation";
-import type { DownloadResult as DownloadResultType } from "@/types/download";
+import type {
+	BatchDownloadItem,
+	BundleFile,
+	DownloadResponse,
+	DownloadResult as DownloadResultType,
+	ExtractionStage,
+	MediaItem,
+	PlatformStatus,
+	QualityPreference,
+	ServiceCondition,
+	SupportedPlatform,
+} from "@/types/download";
 import { DownloaderInput } from "./DownloaderInput";
+import { DownloadHistory } from "./DownloadHistory";
 import { DownloadResult } from "./DownloadResult";
+import { ExtractionProgress } from "./ExtractionProgress";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { LocaleProvider } from "./LocaleContext";
+import { MediaCarousel } from "./MediaCarousel";
+import { PermalinkButton } from "./PermalinkButton";
+import { PlatformIcon } from "./PlatformIcon";
+import { PostDetails } from "./PostDetails";
+import { UpdatePrompt } from "./UpdatePrompt";
+
+// A failure to show; `retry` repeats the action that failed (default: extract again)
+type AppError = ErrorDetails & { retry?: () => void };
+
+// localStorage key for the user's default quality
+const QUALITY_STORAGE_KEY = "snatch:quality";
+
+// Platform card badges, by condition reported from /api/status
+const CONDITION_BADGES: Record<
+	ServiceCondition,
+	{ label: MessageKey; className: string }
+> = {
+	working: { label: "status.working", className: "text-green-400" },
+	degraded: { label: "status.degraded", className: "text-yellow-400" },
+	down: { label: "status.down", className: "text-red-400" },
+};
+
+// Cards below the platform grid
+const FEATURES: { key: "fast" | "quality" | "free"; icon: string }[] = [
+	{ key: "fast", icon: "⚡" },
+	{ key: "quality", icon: "💎" },
+	{ key: "free", icon: "🎁" },
+];
+
+/**
+ * Badge tooltip, e.g. "92% of recent extractions succeeded"
+ */
+function conditionTitle(
+	status: PlatformStatus,
+	t: Translate,
+): string | undefined {
+	if (status.successRate === undefined) {
+		return undefined;
+	}
+	return t("status.successRate", {
+		percent: Math.round(status.successRate * 100),
+	});
+}
+
+/**
+ * Files for "Download all": the first (best) format of every media item
+ */
+function bundleFiles(results: DownloadResultType[]): BundleFile[] {
+	const seen = new Set<string>();
+	const files: BundleFile[] = [];
+
+	for (const result of results) {
+		const key = `${result.url}#${result.itemIndex ?? 1}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
 
-export function DownloaderApp() {
-	const [url, setUrl] = useState("");
+		// The proxy URL already carries exactly the selectors the ZIP route needs
+		const params = new URL(result.downloadUrl, window.location.origin)
+			.searchParams;
+		files.push({
+			url: params.get("url") ?? result.url,
+			format: params.get("format") ?? undefined,
+			ext: params.get("ext") ?? undefined,
+			item: params.get("item") ?? undefined,
+			title: result.title,
+		});
+	}
+
+	return files;
+}
+
+interface DownloaderAppProps {
+	// Link shared into the app (Web Share Target or /?url=); extracted on load
+	sharedUrl?: string | null;
+	locale?: Locale;
+}
+
+export function DownloaderApp({
+	sharedUrl = null,
+	locale = DEFAULT_LOCALE,
+}: DownloaderAppProps) {
+	const t = translator(locale);
+	const describeError = (code: unknown, fallbackMessage?: string) =>
+		describeLocalizedError(locale, code, fallbackMessage);
+	const [url, setUrl] = useState(sharedUrl ?? "");
 	const [loading, setLoading] = useState(false);
 	const [results, setResults] = useState<DownloadResultType[]>([]);
-	const [error, setError] = useState<string | null>(null);
+	// Items of a carousel post; empty unless the last post had several
+	const [carousel, setCarousel] = useState<MediaItem[]>([]);
+	const [error, setError] = useState<AppError | null>(null);
+	// Result page of the last single extraction, for sharing
+	const [permalink, setPermalink] = useState<string | null>(null);
+	const [batchMode, setBatchMode] = useState(false);
+	const [batchErrors, setBatchErrors] = useState<BatchDownloadItem[]>([]);
+	const [stage, setStage] = useState<ExtractionStage | null>(null);
+	const [formatCount, setFormatCount] = useState<number | undefined>();
+	const [quality, setQuality] = useState<QualityPreference | null>(null);
+	const [platformStatus, setPlatformStatus] = useState<Record<
+		SupportedPlatform,
+		PlatformStatus
+	> | null>(null);
+	const [history, setHistory] = useState<HistoryEntry[]>([]);
+	const [historyEnabled, setHistoryEnabled] = useState(false);
+	const historyStore = useRef<HistoryStore | null>(null);
+	const [pendingShare, setPendingShare] = useState(sharedUrl);
+	const [qualityRestored, setQualityRestored] = useState(false);
+	// Switches to a newly installed build; set while the update prompt is shown
+	const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+	const fieldRef = useRef<(HTMLInputElement & HTMLTextAreaElement) | null>(
+		null,
+	);
+	const resultsHeadingRef = useRef<HTMLHeadingElement>(null);
+	// Set when an extraction starts; the disabled field loses focus while it runs
+	const restoreFocus = useRef(false);
+
+	// Restore the remembered default; storage can be unavailable (private mode)
+	useEffect(() => {
+		try {
+			const stored = localStorage.getItem(QUALITY_STORAGE_KEY);
+			if (isQualityPreference(stored)) {
+				setQuality(stored);
+			}
+		} catch {
+			// Fall back to "best available"
+		}
+		setQualityRestored(true);
+	}, []);
 
-	const handleDownload = async () => {
-		if (!url?.trim()) {
-			setError("Please enter a valid URL");
+	// Badges stay hidden until the status is known rather than guessing "Working"
+	useEffect(() => {
+		const loadStatus = async () => {
+			try {
+				const result = await api.status();
+				if (result.ok) {
+					setPlatformStatus(result.data.platforms);
+				}
+			} catch {
+				// Status is informational; the cards still render without badges
+			}
+		};
+		loadStatus();
+	}, []);
+
+	// IndexedDB only exists in the browser, and not in every private mode
+	const getHistoryStore = (): HistoryStore | null => {
+		if (!historyStore.current && typeof indexedDB !== "undefined") {
+			historyStore.current = new HistoryStore();
+		}
+		return historyStore.current;
+	};
+
+	const refreshHistory = async () => {
+		try {
+			setHistory((await getHistoryStore()?.list()) ?? []);
+		} catch {
+			// History is best-effort; extraction works without it
+		}
+	};
+
+	useEffect(() => {
+		const enabled = isHistoryEnabled();
+		setHistoryEnabled(enabled);
+		if (!enabled || typeof indexedDB === "undefined") return;
+
+		historyStore.current ??= new HistoryStore();
+		historyStore.current
+			.list()
+			.then(setHistory)
+			.catch(() => {
+				// History is best-effort; extraction works without it
+			});
+	}, []);
+
+	const recordHistory = async (requestUrl: string, data: DownloadResponse) => {
+		const entry = createHistoryEntry(requestUrl, data);
+		if (!historyEnabled || !entry) return;
+		try {
+			await getHistoryStore()?.put(entry);
+		} catch {
+			// History is best-effort; extraction works without it
+		}
+		await refreshHistory();
+	};
+
+	const handleHistoryEnabledChange = async (enabled: boolean) => {
+		setHistoryEnabled(enabled);
+		saveHistoryEnabled(enabled);
+		if (!enabled) {
+			await handleClearHistory();
+		}
+	};
+
+	const handleDeleteHistory = async (entry: HistoryEntry) => {
+		try {
+			await getHistoryStore()?.delete(entry.url);
+		} catch {
+			// History is best-effort; extraction works without it
+		}
+		await refreshHistory();
+	};
+
+	const handleClearHistory = async () => {
+		try {
+			await getHistoryStore()?.clear();
+		} catch {
+			// History is best-effort; extraction works without it
+		}
+		setHistory([]);
+	};
+
+	const handleReextract = (entry: HistoryEntry) => {
+		setBatchMode(false);
+		setUrl(entry.url);
+		extract(entry.url);
+	};
+
+	const handleQualityChange = (next: QualityPreference | null) => {
+		setQuality(next);
+		try {
+			if (next) {
+				localStorage.setItem(QUALITY_STORAGE_KEY, next);
+			} else {
+				localStorage.removeItem(QUALITY_STORAGE_KEY);
+			}
+		} catch {
+			// The choice still applies for this visit
+		}
+	};
+
+	const handleBatchDownload = async () => {
+		// One URL per line; blank lines and duplicates are ignored
+		const urls = [
+			...new Set(
+				url
+					.split(/\s+/)
+					.map((line) => line.trim())
+					.filter(Boolean),
+			),
+		];
+
+		if (urls.length === 0) {
+			setError({ message: t("error.enterUrls"), retryable: false });
 			return;
 		}
 
-		const platform = detectPlatform(url);
+		setLoading(true);
+		restoreFocus.current = true;
+		setError(null);
+		setResults([]);
+		setCarousel([]);
+		setBatchErrors([]);
+		setPermalink(null);
+
+		try {
+			const result = await api.batchDownload({
+				urls,
+				quality: quality ?? undefined,
+			});
+
+			if (!result.ok) {
+				setError(describeError(result.data.code, result.data.error));
+				return;
+			}
+
+			const items = result.data.items || [];
+			setResults(items.flatMap((item) => item.results || []));
+			setBatchErrors(items.filter((item) => !item.success));
+			for (const item of items) {
+				await recordHistory(item.url, item);
+			}
+		} catch (err) {
+			console.error("Batch download error:", err);
+			setError(describeError(undefined));
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleDownload = () =>
+		batchMode ? handleBatchDownload() : extract(url);
+
+	const showExtraction = async (targetUrl: string, data: DownloadResponse) => {
+		// Show the post the short link pointed to
+		if (data.resolvedUrl) {
+			setUrl(data.canonicalUrl ?? data.resolvedUrl);
+		}
+
+		setResults(data.results || []);
+		if (data.media && data.media.length > 1) {
+			setCarousel(data.media);
+		}
+		setPermalink(permalinkFor(data.canonicalUrl ?? targetUrl));
+		await recordHistory(targetUrl, data);
+	};
+
+	const extract = async (targetUrl: string) => {
+		if (!targetUrl?.trim()) {
+			setError({ message: t("error.enterUrl"), retryable: false });
+			return;
+		}
+
+		const platform = detectPlatform(targetUrl);
 		if (!platform) {
-			setError(
-				"Unsupported platform. Please enter Instagram, X (Twitter), or TikTok URL",
-			);
+			setError({
+				...describeError("UNSUPPORTED_PLATFORM"),
+				message: t("error.unsupportedPlatform", {
+					platforms: formatList(
+						locale,
+						SUPPORTED_PLATFORM_IDS.map((id) => PLATFORMS[id].name),
+						"disjunction",
+					),
+				}),
+			});
 			return;
 		}
 
 		setLoading(true);
+		restoreFocus.current = true;
 		setError(null);
 		setResults([]);
+		setCarousel([]);
+		setBatchErrors([]);
+		setPermalink(null);
+		setStage(null);
+		setFormatCount(undefined);
 
 		try {
-			const response = await fetch("/api/download", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
+			const result = await api.download(
+				{ url: targetUrl, quality: quality ?? undefined },
+				{
+					onProgress: (event) => {
+						setStage(event.stage);
+						if (event.formatCount !== undefined) {
+							setFormatCount(event.formatCount);
+						}
+					},
 				},
-				body: JSON.stringify({ url }),
-			});
-
-			const data = await response.json();
+			);
 
-			if (!response.ok) {
-				throw new Error(data.error || "Failed to download content");
+			if (!result.ok) {
+				setError(describeError(result.data.code, result.data.error));
+				return;
 			}
 
-			const downloadResults = data.success ? data.results || [] : [];
-			setResults(downloadResults);
+			await showExtraction(targetUrl, result.data);
 		} catch (err) {
 			console.error("Download error:", err);
-			setError(
-				err instanceof Error
-					? err.message
-					: "Failed to download content. Please try again.",
-			);
+			setError(describeError(undefined));
 		} finally {
 			setLoading(false);
 		}
 	};
 
-	const supportedPlatforms = [
-		{
-			name: "Instagram",
-			icon: <Instagram className="w-8 h-8" />,
-			description: "Download photos and videos from Instagram posts and reels",
-			status: "Working",
-			statusColor: "text-green-400",
-		},
-		{
-			name: "TikTok",
-			icon: <Music className="w-8 h-8" />,
-			description: "Download videos from TikTok posts",
-			status: "Working",
-			statusColor: "text-green-400",
-		},
-		{
-			name: "X (Twitter)",
-			icon: <Twitter className="w-8 h-8" />,
-			description: "Download videos and images from X (Twitter)",
-			status: "Working",
-			statusColor: "text-green-400",
-		},
-	];
+	// Latest extract for effects, which would otherwise see the first render's state
+	const extractRef = useRef(extract);
+	extractRef.current = extract;
 
-	return (
-		<div className="min-h-screen bg-black text-white selection:bg-purple-500/30">
-			{/* Background Effects */}
-			<div className="fixed inset-0 z-0 overflow-hidden pointer-events-none">
-				<div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] rounded-full bg-purple-600/20 blur-[120px]" />
-				<div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] rounded-full bg-blue-600/20 blur-[120px]" />
-				<div className="absolute top-[20%] right-[10%] w-[30%] h-[30%] rounded-full bg-pink-600/10 blur-[100px]" />
-			</div>
+	// Extract a shared link once, after the remembered quality has been restored,
+	// and drop the query so reloading doesn't extract it again
+	useEffect(() => {
+		if (!pendingShare || !qualityRestored) return;
+		setPendingShare(null);
+		window.history.replaceState(null, "", window.location.pathname);
+		extractRef.current(pendingShare);
+	}, [pendingShare, qualityRestored]);
 
-			{/* Main Content */}
-			<div className="relative z-10 container mx-auto px-4 py-20 md:py-32 space-y-24">
-				{/* Hero Section */}
-				<div className="text-center space-y-10 max-w-4xl mx-auto">
-					<div className="space-y-6">
-						<div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 border border-white/10 backdrop-blur-sm animate-in fade-in slide-in-from-bottom-4 duration-700">
-							<span className="relative flex h-2 w-2">
-								<span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
-								<span className="relative inline-flex rounded-full h-2 w-2 bg-green-500"></span>
-							</span>
-							<span className="text-sm font-medium text-gray-300">
-								v1.0 Now Available
-							</span>
-						</div>
+	// Once an extraction ends, move focus to its results, or back to the field
+	// so a failed link can be corrected
+	useEffect(() => {
+		if (loading || !restoreFocus.current) return;
+		restoreFocus.current = false;
+		(resultsHeadingRef.current ?? fieldRef.current)?.focus();
+	}, [loading]);
 
-						<h1 className="text-5xl md:text-7xl font-bold tracking-tight animate-in fade-in slide-in-from-bottom-8 duration-700 delay-100">
-							<span className="bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
-								Snatch
-							</span>
-						</h1>
+	// An extraction queued while offline finished; show it like a fresh one
+	const showQueuedResult = async (
+		targetUrl: string,
+		data: DownloadResponse,
+	) => {
+		if (!data.success) {
+			setError(describeError(data.code, data.error));
+			return;
+		}
+		setError(null);
+		setBatchMode(false);
+		setBatchErrors([]);
+		setCarousel([]);
+		setUrl(data.canonicalUrl ?? targetUrl);
+		await showExtraction(targetUrl, data);
+	};
 
-						<p className="text-xl text-gray-400 max-w-2xl mx-auto leading-relaxed animate-in fade-in slide-in-from-bottom-8 duration-700 delay-200">
-							Grab videos and images from Instagram, TikTok, and X (Twitter). No
-							watermarks, completely free.
-						</p>
-					</div>
+	const queuedResultRef = useRef(showQueuedResult);
+	queuedResultRef.current = showQueuedResult;
+
+	useEffect(
+		() =>
+			registerServiceWorker({
+				onUpdate: (apply) => setApplyUpdate(() => apply),
+				onQueuedResult: (targetUrl, data) =>
+					queuedResultRef.current(targetUrl, data),
+			}),
+		[],
+	);
+
+	// The browser downloads the archive itself; only failures come back here
+	const handleDownloadAll = () => {
+		setError(null);
+		api.saveBundle(
+			{ files: bundleFiles(results) },
+			t("input.archiveFrame"),
+			(data) =>
+				setError({
+					...describeError(data.code, data.error ?? t("error.archiveFailed")),
+					retry: handleDownloadAll,
+				}),
+		);
+	};
 
-					{/* Download Input */}
-					<div className="max-w-3xl mx-auto animate-in fade-in slide-in-from-bottom-8 duration-700 delay-300">
-						<DownloaderInput
-							url={url}
-							onUrlChange={setUrl}
-							onDownload={handleDownload}
-							loading={loading}
-						/>
+	const bundleSize = bundleFiles(results).length;
+	// Post details are the same on every format; shown once above them
+	const postMetadata = results.find((result) => result.metadata)?.metadata;
+
+	return (
+		<LocaleProvider value={locale}>
+			<div className="min-h-screen bg-black text-white selection:bg-purple-500/30">
+				{/* Background Effects */}
+				<div
+					className="fixed inset-0 z-0 overflow-hidden pointer-events-none"
+					aria-hidden="true"
+				>
+					<div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] rounded-full bg-purple-600/20 blur-[120px]" />
+					<div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] rounded-full bg-blue-600/20 blur-[120px]" />
+					<div className="absolute top-[20%] right-[10%] w-[30%] h-[30%] rounded-full bg-pink-600/10 blur-[100px]" />
+				</div>
+
+				{/* Main Content */}
+				<main className="relative z-10 container mx-auto px-4 py-20 md:py-32 space-y-24">
+					<div className="absolute top-4 right-4">
+						<LanguageSwitcher />
 					</div>
 
-					{error && (
-						<div className="max-w-2xl mx-auto animate-in fade-in zoom-in duration-300">
-							<div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400">
-								<XCircle className="w-5 h-5 shrink-0" />
-								<p className="text-sm font-medium">{error}</p>
+					{/* Hero Section */}
+					<div className="text-center space-y-10 max-w-4xl mx-auto">
+						<div className="space-y-6">
+							<div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 border border-white/10 backdrop-blur-sm animate-in fade-in slide-in-from-bottom-4 duration-700">
+								<span className="relative flex h-2 w-2" aria-hidden="true">
+									<span className="motion-safe:animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
+									<span className="relative inline-flex rounded-full h-2 w-2 bg-green-500"></span>
+								</span>
+								<span className="text-sm font-medium text-gray-300">
+									{t("hero.badge")}
+								</span>
 							</div>
+
+							<h1 className="text-5xl md:text-7xl font-bold tracking-tight animate-in fade-in slide-in-from-bottom-8 duration-700 delay-100">
+								<span className="bg-gradient-to-r from-blue-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
+									Snatch
+								</span>
+							</h1>
+
+							<p className="text-xl text-gray-400 max-w-2xl mx-auto leading-relaxed animate-in fade-in slide-in-from-bottom-8 duration-700 delay-200">
+								{t("hero.tagline", {
+									platforms: formatList(
+										locale,
+										SUPPORTED_PLATFORM_IDS.map((id) => PLATFORMS[id].name),
+									),
+								})}
+							</p>
 						</div>
-					)}
-				</div>
 
-				{/* Results Section */}
-				{results.length > 0 && (
-					<div className="space-y-10 animate-in fade-in slide-in-from-bottom-12 duration-700">
-						<div className="flex items-center justify-between border-b border-white/10 pb-6">
-							<h2 className="text-3xl font-bold text-white">
-								Download Results
-							</h2>
-							<span className="text-sm text-gray-400">
-								{results.length} items found
-							</span>
+						{/* Download Input */}
+						<div className="max-w-3xl mx-auto animate-in fade-in slide-in-from-bottom-8 duration-700 delay-300">
+							<DownloaderInput
+								url={url}
+								onUrlChange={setUrl}
+								onDownload={handleDownload}
+								loading={loading}
+								multiline={batchMode}
+								onMultilineChange={setBatchMode}
+								quality={quality}
+								onQualityChange={handleQualityChange}
+								fieldRef={fieldRef}
+							/>
+							<div className="mt-4">
+								<DownloadHistory
+									entries={history}
+									enabled={historyEnabled}
+									onEnabledChange={handleHistoryEnabledChange}
+									onReextract={handleReextract}
+									onDelete={handleDeleteHistory}
+									onClear={handleClearHistory}
+									loading={loading}
+								/>
+							</div>
 						</div>
-						<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-							{results.map((result, index) => (
+
+						{error && (
+							<div className="max-w-2xl mx-auto animate-in fade-in zoom-in duration-300">
 								<div
-									key={result.id || `result-${index}`}
-									className="animate-in slide-in-from-bottom-4 fade-in duration-500"
-									style={{ animationDelay: `${index * 100}ms` }}
+									role="alert"
+									className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400"
 								>
-									<DownloadResult result={result} />
+									<XCircle className="w-5 h-5 shrink-0" />
+									<p className="text-sm font-medium flex-1">{error.message}</p>
+									{error.retryable && (
+										<button
+											type="button"
+											onClick={error.retry ?? handleDownload}
+											disabled={loading}
+											className="px-3 py-1.5 text-xs font-medium rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-300 flex items-center gap-1.5 shrink-0"
+										>
+											<RotateCcw className="w-3 h-3" />
+											{t("error.tryAgain")}
+										</button>
+									)}
 								</div>
-							))}
-						</div>
+							</div>
+						)}
+
+						{batchErrors.length > 0 && (
+							<div className="max-w-2xl mx-auto animate-in fade-in zoom-in duration-300">
+								<div
+									role="alert"
+									className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl space-y-3 text-left"
+								>
+									<div className="flex items-center gap-3 text-red-400">
+										<XCircle className="w-5 h-5 shrink-0" />
+										<p className="text-sm font-medium">
+											{t("error.batchFailed", { count: batchErrors.length })}
+										</p>
+									</div>
+									<ul className="space-y-1 pl-8">
+										{batchErrors.map((item) => (
+											<li key={item.url} className="text-xs text-gray-400">
+												<span className="font-mono break-all text-gray-300">
+													{item.url}
+												</span>
+												{" — "}
+												{describeError(item.code, item.error).message}
+											</li>
+										))}
+									</ul>
+								</div>
+							</div>
+						)}
 					</div>
-				)}
 
-				{/* Loading State */}
-				{loading && (
-					<div className="flex flex-col items-center justify-center py-12 space-y-6 animate-in fade-in duration-300">
-						<div className="relative">
-							<div className="absolute inset-0 bg-purple-500/20 blur-xl rounded-full"></div>
-							<Loader2 className="w-12 h-12 animate-spin text-purple-400 relative z-10" />
+					{/* Results Section */}
+					{results.length > 0 && (
+						<div className="space-y-10 animate-in fade-in slide-in-from-bottom-12 duration-700">
+							<div className="flex items-center justify-between border-b border-white/10 pb-6">
+								<h2
+									ref={resultsHeadingRef}
+									tabIndex={-1}
+									className="text-3xl font-bold text-white focus:outline-none"
+								>
+									{t("results.title")}
+								</h2>
+								<div className="flex items-center gap-4">
+									<span className="text-sm text-gray-400">
+										{t("results.count", {
+											count:
+												carousel.length > 0 ? carousel.length : results.length,
+										})}
+									</span>
+									{permalink && <PermalinkButton path={permalink} />}
+									{bundleSize > 1 && (
+										<button
+											type="button"
+											onClick={handleDownloadAll}
+											className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-sm font-medium rounded-xl transition-all duration-300 flex items-center gap-2"
+										>
+											<Archive className="w-4 h-4" />
+											{t("results.downloadAll", { count: bundleSize })}
+										</button>
+									)}
+								</div>
+							</div>
+							{postMetadata && (
+								<div className="p-4 bg-white/5 border border-white/10 rounded-2xl">
+									<PostDetails metadata={postMetadata} />
+								</div>
+							)}
+							{carousel.length > 0 ? (
+								<MediaCarousel items={carousel} />
+							) : (
+								<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+									{results.map((result, index) => (
+										<div
+											key={result.id || `result-${index}`}
+											className="animate-in slide-in-from-bottom-4 fade-in duration-500"
+											style={{ animationDelay: `${index * 100}ms` }}
+										>
+											<DownloadResult result={result} />
+										</div>
+									))}
+								</div>
+							)}
+						</div>
+					)}
+
+					{/* Stays mounted, so screen readers announce an extraction starting */}
+					<p className="sr-only" aria-live="polite">
+						{loading && t("loading.title")}
+					</p>
+
+					{/* Loading State */}
+					{loading && (
+						<div className="flex flex-col items-center justify-center py-12 space-y-6 animate-in fade-in duration-300">
+							<div className="relative" aria-hidden="true">
+								<div className="absolute inset-0 bg-purple-500/20 blur-xl rounded-full"></div>
+								<Loader2 className="w-12 h-12 animate-spin text-purple-400 relative z-10" />
+							</div>
+							<div className="text-center space-y-2">
+								<h2 className="text-xl font-semibold text-white">
+									{t("loading.title")}
+								</h2>
+								<p className="text-gray-400">{t("loading.description")}</p>
+							</div>
+							{!batchMode && (
+								<ExtractionProgress stage={stage} formatCount={formatCount} />
+							)}
 						</div>
-						<div className="text-center space-y-2">
-							<h3 className="text-xl font-semibold text-white">
-								Extracting Content
-							</h3>
-							<p className="text-gray-400">
-								Please wait while we fetch the highest quality media...
+					)}
+
+					{/* Supported Platforms */}
+					<div className="space-y-12">
+						<div className="text-center space-y-4">
+							<h2 className="text-3xl md:text-4xl font-bold">
+								{t("platforms.title")}
+							</h2>
+							<p className="text-gray-400 max-w-2xl mx-auto">
+								{t("platforms.description")}
 							</p>
 						</div>
-					</div>
-				)}
 
-				{/* Supported Platforms */}
-				<div className="space-y-12">
-					<div className="text-center space-y-4">
-						<h2 className="text-3xl md:text-4xl font-bold">
-							Supported Platforms
-						</h2>
-						<p className="text-gray-400 max-w-2xl mx-auto">
-							We support the most popular social media platforms with
-							specialized extraction engines.
-						</p>
-					</div>
+						<div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-6xl mx-auto">
+							{SUPPORTED_PLATFORM_IDS.map((id) => {
+								const platform = PLATFORMS[id];
+								const status = platformStatus?.[id];
+								const badge = status && CONDITION_BADGES[status.condition];
+								return (
+									<div
+										key={id}
+										className="group relative p-8 rounded-3xl bg-white/5 border border-white/10 hover:border-white/20 transition-all duration-300 hover:-translate-y-1 overflow-hidden"
+									>
+										<div className="absolute inset-0 bg-gradient-to-br from-white/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
 
-					<div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-6xl mx-auto">
-						{supportedPlatforms.map((platform) => (
-							<div
-								key={platform.name}
-								className="group relative p-8 rounded-3xl bg-white/5 border border-white/10 hover:border-white/20 transition-all duration-300 hover:-translate-y-1 overflow-hidden"
-							>
-								<div className="absolute inset-0 bg-gradient-to-br from-white/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
-
-								<div className="relative z-10 space-y-6">
-									<div className="w-14 h-14 rounded-2xl bg-white/10 flex items-center justify-center group-hover:scale-110 transition-transform duration-300">
-										{platform.icon}
-									</div>
+										<div className="relative z-10 space-y-6">
+											<div className="w-14 h-14 rounded-2xl bg-white/10 flex items-center justify-center group-hover:scale-110 transition-transform duration-300">
+												<PlatformIcon
+													icon={platform.icon}
+													className="w-8 h-8"
+												/>
+											</div>
 
-									<div>
-										<div className="flex items-center justify-between mb-2">
-											<h3 className="text-xl font-bold text-white">
-												{platform.name}
-											</h3>
-											<span
-												className={`text-xs font-medium px-2 py-1 rounded-full bg-white/5 ${platform.statusColor}`}
-											>
-												{platform.status}
-											</span>
+											<div>
+												<div className="flex items-center justify-between mb-2">
+													<h3 className="text-xl font-bold text-white">
+														{platform.name}
+													</h3>
+													{status && badge && (
+														<span
+															className={`text-xs font-medium px-2 py-1 rounded-full bg-white/5 ${badge.className}`}
+															title={conditionTitle(status, t)}
+														>
+															{t(badge.label)}
+														</span>
+													)}
+												</div>
+												<p className="text-sm text-gray-400 leading-relaxed">
+													{t(`platforms.${id}`)}
+												</p>
+											</div>
+
+											<div className="pt-6 border-t border-white/5 space-y-2">
+												{platform.features.map((feature, index) => (
+													<div
+														key={feature}
+														className="flex items-center gap-2 text-xs text-gray-400"
+													>
+														<CheckCircle
+															className={`w-3 h-3 ${platform.featureColor}`}
+														/>
+														<span>
+															{t(`platforms.${id}.features.${index}`)}
+														</span>
+													</div>
+												))}
+											</div>
 										</div>
-										<p className="text-sm text-gray-400 leading-relaxed">
-											{platform.description}
-										</p>
 									</div>
+								);
+							})}
+						</div>
+					</div>
 
-									<div className="pt-6 border-t border-white/5 space-y-2">
-										{platform.name === "TikTok" && (
-											<>
-												<div className="flex items-center gap-2 text-xs text-gray-400">
-													<CheckCircle className="w-3 h-3 text-green-400" />
-													<span>No Watermark</span>
-												</div>
-												<div className="flex items-center gap-2 text-xs text-gray-400">
-													<CheckCircle className="w-3 h-3 text-green-400" />
-													<span>Full HD Quality</span>
-												</div>
-											</>
-										)}
-										{platform.name === "Instagram" && (
-											<>
-												<div className="flex items-center gap-2 text-xs text-gray-400">
-													<CheckCircle className="w-3 h-3 text-yellow-400" />
-													<span>Reels & Posts</span>
-												</div>
-												<div className="flex items-center gap-2 text-xs text-gray-400">
-													<CheckCircle className="w-3 h-3 text-yellow-400" />
-													<span>Stories (Coming Soon)</span>
-												</div>
-											</>
-										)}
-										{platform.name === "X (Twitter)" && (
-											<>
-												<div className="flex items-center gap-2 text-xs text-gray-400">
-													<CheckCircle className="w-3 h-3 text-blue-400" />
-													<span>Videos & GIFs</span>
-												</div>
-												<div className="flex items-center gap-2 text-xs text-gray-400">
-													<CheckCircle className="w-3 h-3 text-blue-400" />
-													<span>High Resolution</span>
-												</div>
-											</>
-										)}
-									</div>
+					{/* Features Grid */}
+					<div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-5xl mx-auto pt-12 border-t border-white/5">
+						{FEATURES.map((feature) => (
+							<div key={feature.key} className="text-center p-6 space-y-4">
+								<div className="text-4xl mb-4" aria-hidden="true">
+									{feature.icon}
 								</div>
+								<h3 className="text-lg font-bold text-white">
+									{t(`features.${feature.key}.title`)}
+								</h3>
+								<p className="text-sm text-gray-400 leading-relaxed">
+									{t(`features.${feature.key}.description`)}
+								</p>
 							</div>
 						))}
 					</div>
-				</div>
+				</main>
 
-				{/* Features Grid */}
-				<div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-5xl mx-auto pt-12 border-t border-white/5">
-					{[
-						{
-							title: "Lightning Fast",
-							description:
-								"Optimized extraction engine ensures downloads start in seconds.",
-							icon: "⚡",
-						},
-						{
-							title: "Highest Quality",
-							description:
-								"We always fetch the maximum resolution available from the source.",
-							icon: "💎",
-						},
-						{
-							title: "100% Free",
-							description:
-								"No hidden fees, no registration, just unlimited downloads.",
-							icon: "🎁",
-						},
-					].map((feature) => (
-						<div key={feature.title} className="text-center p-6 space-y-4">
-							<div className="text-4xl mb-4">{feature.icon}</div>
-							<h3 className="text-lg font-bold text-white">{feature.title}</h3>
-							<p className="text-sm text-gray-400 leading-relaxed">
-								{feature.description}
-							</p>
-						</div>
-					))}
-				</div>
+				{applyUpdate && (
+					<UpdatePrompt
+						onApply={applyUpdate}
+						onDismiss={() => setApplyUpdate(null)}
+					/>
+				)}
 			</div>
-		</div>
+		</LocaleProvider>
 	);
 }
@@ -1,10 +1,26 @@
 import { Download, Loader2 } from "lucide-react";
+import { type RefObject, useId } from "react";
+import { PLATFORMS, SUPPORTED_PLATFORM_IDS } from "@/constants/platforms";
+import { isQualityPreference, QUALITY_PREFERENCES } from "@/constants/quality";
+import type { QualityPreference } from "@/types/download";
+import { useTranslation } from "./LocaleContext";
+
+// Named in the placeholder, e.g. "Paste Instagram, TikTok, X (Twitter) or other..."
+const PLACEHOLDER_PLATFORMS = SUPPORTED_PLATFORM_IDS.slice(0, 3)
+	.map((id) => PLATFORMS[id].name)
+	.join(", ");
 
 interface DownloaderInputProps {
 	url: string;
 	onUrlChange: (url: string) => void;
 	onDownload: () => void;
 	loading: boolean;
+	multiline: boolean;
+	onMultilineChange: (multiline: boolean) => void;
+	quality: QualityPreference | null; // null: best available
+	onQualityChange: (quality: QualityPreference | null) => void;
+	// The URL input or batch textarea, whichever is showing
+	fieldRef?: RefObject<(HTMLInputElement & HTMLTextAreaElement) | null>;
 }
 
 export function DownloaderInput({
@@ -12,44 +28,135 @@ export function DownloaderInput({
 	onUrlChange,
 	onDownload,
 	loading,
+	multiline,
+	onMultilineChange,
+	quality,
+	onQualityChange,
+	fieldRef,
 }: DownloaderInputProps) {
+	const { t } = useTranslation();
+	const fieldId = useId();
+
 	const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
 		if (e.key === "Enter" && !loading) {
 			onDownload();
 		}
 	};
 
+	// Plain Enter adds a new line in batch mode; Ctrl/Cmd+Enter submits
+	const handleTextareaKeyDown = (
+		e: React.KeyboardEvent<HTMLTextAreaElement>,
+	) => {
+		if (e.key === "Enter" && (e.metaKey || e.ctrlKey) && !loading) {
+			e.preventDefault();
+			onDownload();
+		}
+	};
+
+	const modeButtonClass = (active: boolean) =>
+		`px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-300 ${
+			active ? "bg-white/10 text-white" : "text-gray-400 hover:text-white"
+		}`;
+
 	return (
-		<div className="flex flex-col sm:flex-row gap-4">
-			<div className="relative flex-1">
-				<input
-					type="url"
-					value={url}
-					onChange={(e) => onUrlChange(e.target.value)}
-					onKeyDown={handleKeyPress}
-					placeholder="Paste Instagram, TikTok, or X (Twitter) URL here..."
-					className="w-full px-6 py-4 bg-white/5 border border-white/10 rounded-2xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500/50 transition-all duration-300"
-					disabled={loading}
-				/>
+		<div className="space-y-4">
+			<div className="flex flex-wrap items-center justify-center gap-4">
+				<div className="inline-flex p-1 rounded-full bg-white/5 border border-white/10">
+					<button
+						type="button"
+						onClick={() => onMultilineChange(false)}
+						aria-pressed={!multiline}
+						className={modeButtonClass(!multiline)}
+						disabled={loading}
+					>
+						{t("input.single")}
+					</button>
+					<button
+						type="button"
+						onClick={() => onMultilineChange(true)}
+						aria-pressed={multiline}
+						className={modeButtonClass(multiline)}
+						disabled={loading}
+					>
+						{t("input.batch")}
+					</button>
+				</div>
+				<label className="inline-flex items-center gap-2 text-sm text-gray-400">
+					{t("input.quality")}
+					<select
+						value={quality ?? ""}
+						onChange={(e) =>
+							onQualityChange(
+								isQualityPreference(e.target.value) ? e.target.value : null,
+							)
+						}
+						className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-full text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+						disabled={loading}
+					>
+						<option value="">{t("input.bestAvailable")}</option>
+						{Object.keys(QUALITY_PREFERENCES).map((value) => (
+							<option key={value} value={value}>
+								{t(`quality.${value as QualityPreference}`)}
+							</option>
+						))}
+					</select>
+				</label>
+			</div>
+
+			<div className={`flex flex-col gap-4 ${multiline ? "" : "sm:flex-row"}`}>
+				<div className="relative flex-1">
+					<label htmlFor={fieldId} className="sr-only">
+						{multiline ? t("input.batchLabel") : t("input.urlLabel")}
+					</label>
+					{multiline ? (
+						<textarea
+							id={fieldId}
+							ref={fieldRef}
+							value={url}
+							onChange={(e) => onUrlChange(e.target.value)}
+							onKeyDown={handleTextareaKeyDown}
+							placeholder={t("input.batchPlaceholder")}
+							rows={6}
+							className="w-full px-6 py-4 bg-white/5 border border-white/10 rounded-2xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500/50 transition-all duration-300 resize-y font-mono text-sm"
+							disabled={loading}
+						/>
+					) : (
+						<input
+							id={fieldId}
+							ref={fieldRef}
+							type="url"
+							value={url}
+							onChange={(e) => onUrlChange(e.target.value)}
+							onKeyDown={handleKeyPress}
+							placeholder={t("input.placeholder", {
+								platforms: PLACEHOLDER_PLATFORMS,
+							})}
+							className="w-full px-6 py-4 bg-white/5 border border-white/10 rounded-2xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500/50 transition-all duration-300"
+							disabled={loading}
+						/>
+					)}
+				</div>
+				<button
+					type="button"
+					onClick={onDownload}
+					disabled={loading || !url.trim()}
+					className="px-8 py-4 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-2xl transition-all duration-300 flex items-center justify-center gap-2 min-w-[140px]"
+				>
+					{loading ? (
+						<>
+							<Loader2 className="w-5 h-5 animate-spin" />
+							<span>{t("input.processing")}</span>
+						</>
+					) : (
+						<>
+							<Download className="w-5 h-5" />
+							<span>
+								{multiline ? t("input.downloadAll") : t("input.download")}
+							</span>
+						</>
+					)}
+				</button>
 			</div>
-			<button
-				type="button"
-				onClick={onDownload}
-				disabled={loading || !url.trim()}
-				className="px-8 py-4 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-2xl transition-all duration-300 flex items-center justify-center gap-2 min-w-[140px]"
-			>
-				{loading ? (
-					<>
-						<Loader2 className="w-5 h-5 animate-spin" />
-						<span>Processing</span>
-					</>
-				) : (
-					<>
-						<Download className="w-5 h-5" />
-						<span>Download</span>
-					</>
-				)}
-			</button>
 		</div>
 	);
 }
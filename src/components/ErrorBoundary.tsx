@@ -1,9 +1,11 @@
 import { AlertCircle, RefreshCw } from "lucide-react";
 import { Component, type ReactNode } from "react";
+import { DEFAULT_LOCALE, type Locale, translate } from "@/lib/i18n";
 
 interface Props {
 	children: ReactNode;
 	fallback?: ReactNode;
+	locale?: Locale;
 }
 
 interface State {
@@ -53,8 +55,9 @@ export class ErrorBoundary extends Component<Props, State> {
 			}
 
 			// Default error UI
+			const locale = this.props.locale ?? DEFAULT_LOCALE;
 			return (
-				<div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
+				<main className="min-h-screen bg-black text-white flex items-center justify-center p-4">
 					<div className="max-w-md w-full space-y-6 text-center">
 						{/* Error Icon */}
 						<div className="flex justify-center">
@@ -66,11 +69,11 @@ export class ErrorBoundary extends Component<Props, State> {
 						{/* Error Message */}
 						<div className="space-y-2">
 							<h1 className="text-2xl font-bold text-white">
-								Something went wrong
+								{translate(locale, "boundary.title")}
 							</h1>
 							<p className="text-gray-400">
 								{this.state.error?.message ||
-									"An unexpected error occurred. Please try again."}
+									translate(locale, "boundary.description")}
 							</p>
 						</div>
 
@@ -78,7 +81,7 @@ export class ErrorBoundary extends Component<Props, State> {
 						{import.meta.env.DEV && this.state.error && (
 							<details className="text-left bg-white/5 rounded-lg p-4 border border-white/10">
 								<summary className="cursor-pointer text-sm text-gray-400 hover:text-white transition-colors">
-									Error Details
+									{translate(locale, "boundary.details")}
 								</summary>
 								<pre className="mt-3 text-xs text-red-400 overflow-auto max-h-40 whitespace-pre-wrap">
 									{this.state.error.toString()}
@@ -95,23 +98,23 @@ export class ErrorBoundary extends Component<Props, State> {
 								className="px-6 py-3 bg-white/10 hover:bg-white/20 border border-white/10 rounded-xl text-white font-medium transition-all duration-200 flex items-center justify-center gap-2"
 							>
 								<RefreshCw className="w-4 h-4" />
-								Try Again
+								{translate(locale, "boundary.tryAgain")}
 							</button>
 							<button
 								type="button"
 								onClick={this.handleReload}
 								className="px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 rounded-xl text-white font-medium transition-all duration-200"
 							>
-								Reload Page
+								{translate(locale, "boundary.reload")}
 							</button>
 						</div>
 
 						{/* Support Link */}
 						<p className="text-sm text-gray-500">
-							If this problem persists, please contact support.
+							{translate(locale, "boundary.support")}
 						</p>
 					</div>
-				</div>
+				</main>
 			);
 		}
 
@@ -0,0 +1,61 @@
+import { CheckCircle, Circle, Loader2 } from "lucide-react";
+import type { MessageKey } from "@/lib/i18n";
+import type { ExtractionStage } from "@/types/download";
+import { useTranslation } from "./LocaleContext";
+
+interface ExtractionProgressProps {
+	stage: ExtractionStage | null;
+	formatCount?: number;
+}
+
+// Ordered steps shown while an extraction streams; "done"/"error" end the list
+const STEPS: { stage: ExtractionStage; label: MessageKey }[] = [
+	{ stage: "validated", label: "progress.validated" },
+	{ stage: "backend", label: "progress.backend" },
+	{ stage: "formats", label: "progress.formats" },
+];
+
+export function ExtractionProgress({
+	stage,
+	formatCount,
+}: ExtractionProgressProps) {
+	const { t } = useTranslation();
+	const currentIndex = STEPS.findIndex((step) => step.stage === stage);
+
+	return (
+		<ol className="space-y-2 text-sm text-left inline-block">
+			{STEPS.map((step, index) => {
+				const completed = index <= currentIndex;
+				const active = index === currentIndex + 1;
+				const label =
+					step.stage === "formats" && completed && formatCount !== undefined
+						? `${t(step.label)} (${formatCount})`
+						: t(step.label);
+
+				return (
+					<li
+						key={step.stage}
+						aria-current={active ? "step" : undefined}
+						className={`flex items-center gap-2 ${
+							completed
+								? "text-green-400"
+								: active
+									? "text-white"
+									: "text-gray-500"
+						}`}
+					>
+						{completed ? (
+							<CheckCircle className="w-4 h-4" />
+						) : active ? (
+							<Loader2 className="w-4 h-4 animate-spin" />
+						) : (
+							<Circle className="w-4 h-4" />
+						)}
+						<span>{label}</span>
+						{completed && <span className="sr-only">{t("progress.done")}</span>}
+					</li>
+				);
+			})}
+		</ol>
+	);
+}
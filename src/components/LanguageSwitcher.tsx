@@ -0,0 +1,40 @@
+import { Globe } from "lucide-react";
+import {
+	isLocale,
+	LOCALE_NAMES,
+	LOCALE_PARAM,
+	LOCALES,
+	localePath,
+} from "@/lib/i18n";
+import { useTranslation } from "./LocaleContext";
+
+/**
+ * Switches to another locale's page and remembers the choice
+ */
+export function LanguageSwitcher() {
+	const { locale, t } = useTranslation();
+
+	const handleChange = (next: string) => {
+		if (!isLocale(next) || next === locale) return;
+		// The server remembers the choice in a cookie and drops the parameter
+		window.location.assign(`${localePath(next)}?${LOCALE_PARAM}=${next}`);
+	};
+
+	return (
+		<label className="inline-flex items-center gap-2 text-sm text-gray-400">
+			<Globe className="w-4 h-4" />
+			<span className="sr-only">{t("language.label")}</span>
+			<select
+				value={locale}
+				onChange={(e) => handleChange(e.target.value)}
+				className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-full text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+			>
+				{LOCALES.map((id) => (
+					<option key={id} value={id} lang={id}>
+						{LOCALE_NAMES[id]}
+					</option>
+				))}
+			</select>
+		</label>
+	);
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+import {
+	DEFAULT_LOCALE,
+	type Locale,
+	type Translate,
+	translator,
+} from "@/lib/i18n";
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+// Set by DownloaderApp for everything it renders, and by result page cards
+export const LocaleProvider = LocaleContext.Provider;
+
+/**
+ * The current locale and a message lookup bound to it
+ * Components rendered outside a provider get English.
+ */
+export function useTranslation(): { locale: Locale; t: Translate } {
+	const locale = useContext(LocaleContext);
+	return { locale, t: translator(locale) };
+}
@@ -0,0 +1,82 @@
+import { Download, Image, Video } from "lucide-react";
+import type { MediaItem } from "@/types/download";
+import { useTranslation } from "./LocaleContext";
+
+interface MediaCarouselProps {
+	items: MediaItem[];
+}
+
+/**
+ * A multi-item post (e.g. an Instagram carousel), one card per photo or video
+ * Each card lists that item's own formats as download buttons.
+ */
+export function MediaCarousel({ items }: MediaCarouselProps) {
+	const { t } = useTranslation();
+
+	return (
+		<div className="flex gap-6 overflow-x-auto snap-x snap-mandatory pb-4">
+			{items.map((item) => {
+				const TypeIcon = item.type === "image" ? Image : Video;
+
+				return (
+					<div
+						key={item.index}
+						className="snap-start shrink-0 w-72 bg-white/5 border border-white/10 rounded-2xl overflow-hidden"
+					>
+						<div className="relative aspect-square bg-gray-900">
+							{item.thumbnail ? (
+								<img
+									src={item.thumbnail}
+									alt={t("media.itemAlt", {
+										index: item.index,
+										count: items.length,
+									})}
+									className="w-full h-full object-cover"
+									loading="lazy"
+								/>
+							) : (
+								<div className="w-full h-full flex items-center justify-center">
+									<TypeIcon className="w-12 h-12 text-gray-600" />
+								</div>
+							)}
+							<div className="absolute top-3 left-3">
+								<span className="px-2 py-1 text-xs font-medium rounded-lg bg-black/60 text-white capitalize flex items-center gap-1">
+									<TypeIcon className="w-3 h-3" />
+									{t(`media.${item.type}`)}
+								</span>
+							</div>
+							<div className="absolute top-3 right-3">
+								<span className="px-2 py-1 text-xs font-medium rounded-lg bg-black/60 text-white">
+									{item.index} / {items.length}
+								</span>
+							</div>
+						</div>
+
+						<div className="p-4 space-y-2">
+							{item.formats.map((format) => (
+								<button
+									key={format.id}
+									type="button"
+									onClick={() => window.open(format.downloadUrl, "_blank")}
+									className="w-full px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-purple-500/30 text-white text-sm rounded-xl transition-all duration-300 flex items-center justify-between gap-2"
+								>
+									<span className="flex items-center gap-2">
+										<Download className="w-4 h-4" />
+										<span className="uppercase">
+											{format.quality ?? t("result.download")}
+										</span>
+									</span>
+									<span className="text-xs text-gray-400">
+										{[format.ext?.toUpperCase(), format.size]
+											.filter(Boolean)
+											.join(" · ")}
+									</span>
+								</button>
+							))}
+						</div>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
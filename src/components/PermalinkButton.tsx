@@ -0,0 +1,50 @@
+import { Check, Link } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useTranslation } from "./LocaleContext";
+
+interface PermalinkButtonProps {
+	path: string; // Result page path, e.g. "/r/tiktok/123"
+}
+
+/**
+ * Copies a link to the shareable result page
+ */
+export function PermalinkButton({ path }: PermalinkButtonProps) {
+	const { t } = useTranslation();
+	const [copied, setCopied] = useState(false);
+
+	// Clear the "Copied" confirmation after a moment
+	useEffect(() => {
+		if (!copied) return;
+		const timeoutId = setTimeout(() => setCopied(false), 2000);
+		return () => clearTimeout(timeoutId);
+	}, [copied]);
+
+	const href = new URL(path, window.location.origin).href;
+
+	const handleCopy = async () => {
+		try {
+			await navigator.clipboard.writeText(href);
+			setCopied(true);
+		} catch {
+			// Clipboard access denied; fall back to opening the page
+			window.open(href, "_blank");
+		}
+	};
+
+	return (
+		<button
+			type="button"
+			onClick={handleCopy}
+			title={href}
+			className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-sm font-medium rounded-xl transition-all duration-300 flex items-center gap-2"
+		>
+			{copied ? (
+				<Check className="w-4 h-4 text-green-400" />
+			) : (
+				<Link className="w-4 h-4" />
+			)}
+			{copied ? t("common.copied") : t("results.copyLink")}
+		</button>
+	);
+}
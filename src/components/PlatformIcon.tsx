@@ -0,0 +1,32 @@
+import {
+	AtSign,
+	Facebook,
+	Instagram,
+	type LucideIcon,
+	MessageCircle,
+	Music,
+	Twitter,
+	Youtube,
+} from "lucide-react";
+import type { PlatformIcon as PlatformIconKey } from "@/types/download";
+
+// Registry icon keys mapped to icon components
+const ICONS: Record<PlatformIconKey, LucideIcon> = {
+	instagram: Instagram,
+	tiktok: Music,
+	twitter: Twitter,
+	youtube: Youtube,
+	reddit: MessageCircle,
+	threads: AtSign,
+	facebook: Facebook,
+};
+
+interface PlatformIconProps {
+	icon: PlatformIconKey;
+	className?: string;
+}
+
+export function PlatformIcon({ icon, className }: PlatformIconProps) {
+	const Icon = ICONS[icon];
+	return <Icon className={className} />;
+}
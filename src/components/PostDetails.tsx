@@ -0,0 +1,177 @@
+import {
+	Calendar,
+	Check,
+	Clock,
+	Copy,
+	Eye,
+	Hash,
+	Heart,
+	MessageCircle,
+	Repeat2,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { HTML_LANG, type Locale } from "@/lib/i18n";
+import {
+	formatCount,
+	formatDuration,
+	formatPostDate,
+	postHashtags,
+} from "@/lib/post-metadata";
+import type { DownloadMetadata } from "@/types/download";
+import { LocaleProvider, useTranslation } from "./LocaleContext";
+
+interface PostDetailsProps {
+	metadata: DownloadMetadata;
+	locale?: Locale; // For details rendered outside DownloaderApp, e.g. on result pages
+}
+
+// Captions longer than this (or spanning several lines) start collapsed
+const CAPTION_PREVIEW_LENGTH = 140;
+
+/**
+ * Duration, counts, post date and caption of a post, with copy buttons
+ * Shown once per post, above its formats.
+ */
+export function PostDetails({ metadata, locale }: PostDetailsProps) {
+	const details = <DetailsPanel metadata={metadata} />;
+	return locale ? (
+		<LocaleProvider value={locale}>{details}</LocaleProvider>
+	) : (
+		details
+	);
+}
+
+function DetailsPanel({ metadata }: { metadata: DownloadMetadata }) {
+	const { locale, t } = useTranslation();
+	const lang = HTML_LANG[locale];
+	const [expanded, setExpanded] = useState(false);
+	const [copied, setCopied] = useState<"caption" | "hashtags" | null>(null);
+
+	// Clear the "Copied" confirmation after a moment
+	useEffect(() => {
+		if (!copied) return;
+		const timeoutId = setTimeout(() => setCopied(null), 2000);
+		return () => clearTimeout(timeoutId);
+	}, [copied]);
+
+	const hashtags = postHashtags(metadata);
+	const caption = metadata.description;
+	const collapsible =
+		caption !== undefined &&
+		(caption.length > CAPTION_PREVIEW_LENGTH || caption.includes("\n"));
+	const postDate =
+		metadata.createdAt && formatPostDate(metadata.createdAt, lang);
+
+	const stats = [
+		{ icon: Eye, label: t("post.views"), value: metadata.playCount },
+		{ icon: Heart, label: t("post.likes"), value: metadata.likeCount },
+		{
+			icon: MessageCircle,
+			label: t("post.comments"),
+			value: metadata.commentCount,
+		},
+		{ icon: Repeat2, label: t("post.shares"), value: metadata.shareCount },
+	].filter((stat) => stat.value !== undefined);
+
+	const copy = async (kind: "caption" | "hashtags", text: string) => {
+		try {
+			await navigator.clipboard.writeText(text);
+			setCopied(kind);
+		} catch {
+			// Clipboard access denied; the caption can still be selected by hand
+		}
+	};
+
+	return (
+		<div className="space-y-2">
+			{(metadata.duration !== undefined || postDate || stats.length > 0) && (
+				<div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-400">
+					{metadata.duration !== undefined && (
+						<span
+							className="flex items-center gap-1"
+							title={t("post.duration")}
+						>
+							<Clock className="w-3 h-3" />
+							{formatDuration(metadata.duration)}
+						</span>
+					)}
+					{stats.map(({ icon: Icon, label, value }) => (
+						<span
+							key={label}
+							className="flex items-center gap-1"
+							title={`${value?.toLocaleString(lang)} ${label.toLowerCase()}`}
+						>
+							<Icon className="w-3 h-3" />
+							{formatCount(value ?? 0, lang)}
+						</span>
+					))}
+					{postDate && (
+						<span className="flex items-center gap-1" title={t("post.posted")}>
+							<Calendar className="w-3 h-3" />
+							{postDate}
+						</span>
+					)}
+				</div>
+			)}
+
+			{caption && (
+				<div className="space-y-1">
+					<p
+						className={`text-xs text-gray-300 whitespace-pre-line break-words ${
+							collapsible && !expanded ? "line-clamp-3" : ""
+						}`}
+					>
+						{caption}
+					</p>
+					{collapsible && (
+						<button
+							type="button"
+							onClick={() => setExpanded((value) => !value)}
+							className="text-xs text-purple-400 hover:text-purple-300"
+						>
+							{expanded ? t("post.showLess") : t("post.showMore")}
+						</button>
+					)}
+				</div>
+			)}
+
+			{(caption || hashtags.length > 0) && (
+				<div className="flex gap-2">
+					{caption && (
+						<button
+							type="button"
+							onClick={() => copy("caption", caption)}
+							className="px-2 py-1 text-xs rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 flex items-center gap-1 transition-colors"
+						>
+							{copied === "caption" ? (
+								<Check className="w-3 h-3 text-green-400" />
+							) : (
+								<Copy className="w-3 h-3" />
+							)}
+							{copied === "caption"
+								? t("common.copied")
+								: t("post.copyCaption")}
+						</button>
+					)}
+					{hashtags.length > 0 && (
+						<button
+							type="button"
+							onClick={() => copy("hashtags", hashtags.join(" "))}
+							className="px-2 py-1 text-xs rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 flex items-center gap-1 transition-colors"
+							title={hashtags.join(" ")}
+						>
+							{copied === "hashtags" ? (
+								<Check className="w-3 h-3 text-green-400" />
+							) : (
+								<Hash className="w-3 h-3" />
+							)}
+							{copied === "hashtags"
+								? t("common.copied")
+								: t("post.copyHashtags", { count: hashtags.length })}
+						</button>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,38 @@
+import { RefreshCw } from "lucide-react";
+import { useTranslation } from "./LocaleContext";
+
+interface UpdatePromptProps {
+	onApply: () => void;
+	onDismiss: () => void;
+}
+
+/**
+ * Offers to switch to a newly installed build
+ */
+export function UpdatePrompt({ onApply, onDismiss }: UpdatePromptProps) {
+	const { t } = useTranslation();
+
+	return (
+		<div
+			aria-live="polite"
+			className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md p-4 bg-gray-900 border border-white/10 rounded-2xl shadow-xl flex items-center gap-3 text-sm animate-in fade-in slide-in-from-bottom-4 duration-300"
+		>
+			<RefreshCw className="w-4 h-4 text-purple-400 shrink-0" />
+			<p className="flex-1 text-gray-300">{t("update.ready")}</p>
+			<button
+				type="button"
+				onClick={onDismiss}
+				className="px-3 py-1.5 text-xs text-gray-400 hover:text-white"
+			>
+				{t("update.later")}
+			</button>
+			<button
+				type="button"
+				onClick={onApply}
+				className="px-3 py-1.5 text-xs font-medium rounded-lg bg-purple-600 hover:bg-purple-500 text-white"
+			>
+				{t("update.reload")}
+			</button>
+		</div>
+	);
+}
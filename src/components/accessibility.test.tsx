@@ -0,0 +1,244 @@
+import axe from "axe-core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { HistoryEntry } from "@/lib/history";
+import { cleanup, fireEvent, render, waitFor } from "@/test/dom";
+import type { DownloadResponse, DownloadResult } from "@/types/download";
+import { DownloaderApp } from "./DownloaderApp";
+import { DownloadHistory } from "./DownloadHistory";
+import { ErrorBoundary } from "./ErrorBoundary";
+import { ExtractionProgress } from "./ExtractionProgress";
+import { UpdatePrompt } from "./UpdatePrompt";
+
+const POST_URL = "https://www.instagram.com/p/abc123/";
+
+/**
+ * axe violations in a rendered tree, as "rule: help (selectors)" lines
+ * Contrast needs real layout and colours, which happy-dom doesn't compute.
+ */
+async function violations(container: Element): Promise<string[]> {
+	const results = await axe.run(container, {
+		rules: { "color-contrast": { enabled: false } },
+	});
+	return results.violations.map(
+		(violation) =>
+			`${violation.id}: ${violation.help} (${violation.nodes
+				.map((node) => node.target.join(" "))
+				.join(", ")})`,
+	);
+}
+
+function format(overrides: Partial<DownloadResult> = {}): DownloadResult {
+	return {
+		id: "f1",
+		type: "video",
+		url: POST_URL,
+		downloadUrl: "/api/file?url=x",
+		thumbnail: "https://example.com/thumb.jpg",
+		title: "Sunset reel",
+		platform: "instagram",
+		metadata: { author: "someone", likeCount: 1200, tags: ["sunset"] },
+		...overrides,
+	};
+}
+
+function json(body: unknown, status = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+const originalFetch = globalThis.fetch;
+
+// Status is informational; the app renders without it
+function stubDownload(respond: () => Promise<Response>) {
+	globalThis.fetch = (async (input: RequestInfo | URL) =>
+		String(input).endsWith("/api/download")
+			? respond()
+			: json({ success: false }, 503)) as typeof fetch;
+}
+
+beforeEach(() => {
+	stubDownload(() => new Promise<Response>(() => {}));
+});
+
+afterEach(() => {
+	cleanup();
+	globalThis.fetch = originalFetch;
+});
+
+async function startExtraction(container: HTMLElement) {
+	const field = container.querySelector("input[type=url]") as HTMLInputElement;
+	fireEvent.change(field, { target: { value: POST_URL } });
+	const button = [...container.querySelectorAll("button")].find(
+		(candidate) => candidate.textContent === "Download",
+	) as HTMLButtonElement;
+	fireEvent.click(button);
+	return field;
+}
+
+describe("DownloaderApp", () => {
+	it("should have no axe violations when idle", async () => {
+		const { container } = render(<DownloaderApp />);
+		expect(await violations(container)).toEqual([]);
+	});
+
+	it("should label the URL input and the batch textarea", () => {
+		const { getByLabelText, getByRole } = render(<DownloaderApp />);
+		expect(getByLabelText("Post URL").tagName).toBe("INPUT");
+
+		fireEvent.click(getByRole("button", { name: "Batch" }));
+		expect(getByLabelText("Post URLs, one per line").tagName).toBe("TEXTAREA");
+		expect(
+			getByRole("button", { name: "Batch" }).getAttribute("aria-pressed"),
+		).toBe("true");
+	});
+
+	it("should hide decorative backgrounds and emoji from assistive tech", () => {
+		const { container, getByText } = render(<DownloaderApp />);
+		expect(
+			container.querySelector(".blur-\\[120px\\]")?.closest("[aria-hidden]"),
+		).not.toBeNull();
+		expect(getByText("⚡").getAttribute("aria-hidden")).toBe("true");
+	});
+
+	it("should announce a running extraction in a live region", async () => {
+		const { container } = render(<DownloaderApp />);
+		const region = container.querySelector("[aria-live=polite]");
+		expect(region?.textContent).toBe("");
+
+		await startExtraction(container);
+
+		await waitFor(() => expect(region?.textContent).toBe("Extracting Content"));
+		expect(await violations(container)).toEqual([]);
+	});
+
+	it("should raise errors as alerts and return focus to the URL input", async () => {
+		stubDownload(async () =>
+			json(
+				{
+					success: false,
+					code: "CONTENT_NOT_FOUND",
+					error: "Content not found",
+				},
+				404,
+			),
+		);
+		const { container, findByRole } = render(<DownloaderApp />);
+		const field = await startExtraction(container);
+
+		const alert = await findByRole("alert");
+		expect(alert.textContent).toContain("doesn't exist");
+		await waitFor(() => expect(document.activeElement).toBe(field));
+		expect(await violations(container)).toEqual([]);
+	});
+
+	it("should move focus to the results once they arrive", async () => {
+		const response: DownloadResponse = {
+			success: true,
+			platform: "instagram",
+			results: [format(), format({ id: "f2", type: "image", title: "Cover" })],
+		};
+		stubDownload(async () => json(response));
+		const { container, findByRole } = render(<DownloaderApp />);
+		await startExtraction(container);
+
+		const heading = await findByRole("heading", { name: "Download Results" });
+		await waitFor(() => expect(document.activeElement).toBe(heading));
+		expect(await violations(container)).toEqual([]);
+	});
+
+	it("should have no axe violations for a carousel post", async () => {
+		const response: DownloadResponse = {
+			success: true,
+			platform: "instagram",
+			results: [format({ itemIndex: 1 }), format({ id: "f2", itemIndex: 2 })],
+			media: [1, 2].map((index) => ({
+				index,
+				type: "image" as const,
+				thumbnail: `https://example.com/${index}.jpg`,
+				formats: [format({ id: `f${index}`, itemIndex: index })],
+			})),
+		};
+		stubDownload(async () => json(response));
+		const { container, findByAltText } = render(<DownloaderApp />);
+		await startExtraction(container);
+
+		await findByAltText("Item 2 of 2");
+		expect(await violations(container)).toEqual([]);
+	});
+});
+
+describe("DownloadHistory", () => {
+	const entries: HistoryEntry[] = [
+		{
+			url: POST_URL,
+			platform: "instagram",
+			title: "Sunset reel",
+			thumbnail: "https://example.com/thumb.jpg",
+			formats: [format()],
+			createdAt: 0,
+		},
+	];
+
+	it("should have no axe violations when open", async () => {
+		const { container, getByRole } = render(
+			<main>
+				<DownloadHistory
+					entries={entries}
+					enabled={true}
+					onEnabledChange={() => {}}
+					onReextract={() => {}}
+					onDelete={() => {}}
+					onClear={() => {}}
+					loading={false}
+				/>
+			</main>,
+		);
+		fireEvent.click(getByRole("button", { expanded: false }));
+		expect(await violations(container)).toEqual([]);
+	});
+});
+
+describe("ExtractionProgress", () => {
+	it("should mark the step in progress and name finished ones", () => {
+		const { container } = render(<ExtractionProgress stage="validated" />);
+		const steps = container.querySelectorAll("li");
+		expect(steps[0].textContent).toBe("Link validateddone");
+		expect(steps[1].getAttribute("aria-current")).toBe("step");
+		expect(steps[2].hasAttribute("aria-current")).toBe(false);
+	});
+});
+
+describe("UpdatePrompt", () => {
+	it("should have no axe violations", async () => {
+		const { container } = render(
+			<main>
+				<UpdatePrompt onApply={() => {}} onDismiss={() => {}} />
+			</main>,
+		);
+		expect(await violations(container)).toEqual([]);
+	});
+});
+
+describe("ErrorBoundary", () => {
+	function Broken(): never {
+		throw new Error("Render failed");
+	}
+
+	it("should have no axe violations in its fallback", async () => {
+		const consoleError = console.error;
+		// React logs the caught error; keep the test output readable
+		console.error = () => {};
+		try {
+			const { container } = render(
+				<ErrorBoundary>
+					<Broken />
+				</ErrorBoundary>,
+			);
+			expect(await violations(container)).toEqual([]);
+		} finally {
+			console.error = consoleError;
+		}
+	});
+});
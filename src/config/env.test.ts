@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { parseRateLimitOverrides } from "./env";
+
+describe("parseRateLimitOverrides", () => {
+	it("should accept route and platform overrides", () => {
+		const overrides = {
+			routes: { batch: { limit: 50, algorithm: "token-bucket" } },
+			platforms: { instagram: { limit: 5, window: 30000 } },
+		};
+		expect(parseRateLimitOverrides(JSON.stringify(overrides))).toEqual(
+			overrides,
+		);
+		expect(parseRateLimitOverrides("")).toEqual({});
+	});
+
+	it("should fail on invalid JSON", () => {
+		expect(() => parseRateLimitOverrides("{routes:")).toThrow(
+			"Invalid RATE_LIMIT_POLICIES: not valid JSON",
+		);
+	});
+
+	it("should name the setting that's wrong", () => {
+		const cases: [unknown, string][] = [
+			[[], "expected a JSON object"],
+			[{ route: {} }, "route is not a known section"],
+			[{ routes: [] }, "routes must be an object"],
+			[{ routes: { batch: 50 } }, "routes.batch must be an object"],
+			[
+				{ routes: { downlod: { limit: 5 } } },
+				"routes.downlod is not a known route (download, batch, zip, file)",
+			],
+			[
+				{ platforms: { tiktk: { limit: 5 } } },
+				"platforms.tiktk is not a supported platform",
+			],
+			[
+				{ platforms: { tiktok: { limit: -1 } } },
+				"platforms.tiktok.limit must be a positive integer",
+			],
+			[
+				{ routes: { zip: { window: "60000" } } },
+				"routes.zip.window must be a positive integer",
+			],
+			[
+				{ routes: { zip: { windowMs: 60000 } } },
+				"routes.zip.windowMs is not a known setting",
+			],
+			[
+				{ routes: { file: { algorithm: "leaky-bucket" } } },
+				"routes.file.algorithm must be one of fixed-window, sliding-log, token-bucket",
+			],
+		];
+		for (const [policies, problem] of cases) {
+			expect(() => parseRateLimitOverrides(JSON.stringify(policies))).toThrow(
+				`Invalid RATE_LIMIT_POLICIES: ${problem}`,
+			);
+		}
+	});
+});
@@ -3,11 +3,55 @@
  * Centralizes all environment variables with type safety and validation
  */
 
+import { isSupportedPlatform } from "@/constants/platforms";
+import {
+	RATE_LIMIT_ALGORITHMS,
+	type RateLimitAlgorithm,
+} from "@/lib/rate-limit-algorithms";
+import type { SupportedPlatform } from "@/types/download";
+
+// API routes that can be given their own quota
+const RATE_LIMIT_ROUTES = ["download", "batch", "zip", "file"] as const;
+type RateLimitRoute = (typeof RATE_LIMIT_ROUTES)[number];
+
+/**
+ * Per-route and per-platform rate limit overrides (RATE_LIMIT_POLICIES)
+ * e.g. {"routes":{"batch":{"limit":50}},"platforms":{"instagram":{"limit":5}}}
+ */
+interface RateLimitOverride {
+	algorithm?: RateLimitAlgorithm;
+	limit?: number;
+	window?: number;
+}
+
+interface RateLimitOverrides {
+	routes?: Partial<Record<RateLimitRoute, RateLimitOverride>>;
+	platforms?: Partial<Record<SupportedPlatform, RateLimitOverride>>;
+}
+
 // Configuration schema definition
 interface EnvConfig {
+	// Backend
+	rustApiUrls: string[]; // Failover pool; requests prefer the healthiest
+	backendTimeout: number; // Per attempt
+	backendDeadline: number; // Across retries
+	backendRetries: number;
+	backendBreakerThreshold: number;
+	backendBreakerCooldown: number;
+
 	// Security
 	rateLimitMax: number;
 	rateLimitWindow: number;
+	rateLimitAlgorithm: RateLimitAlgorithm;
+	rateLimitOverrides: RateLimitOverrides;
+	rateLimitStore: "file" | "memory" | "sqlite";
+	rateLimitDbPath?: string;
+
+	// Result cache
+	resultCacheTtl: number;
+	resultCacheMaxEntries: number;
+	resultCacheStore: "memory" | "file";
+	resultCacheDir: string;
 
 	// Feature flags
 	enableDebugMode: boolean;
@@ -49,9 +93,38 @@ function parseEnv(): EnvConfig {
 	};
 
 	return {
+		// Backend - server-only, never exposed to the client
+		rustApiUrls: parseUrlList(
+			getOptional("RUST_API_URL", "http://localhost:3001"),
+		),
+		backendTimeout: getNumber("BACKEND_TIMEOUT", 35000),
+		backendDeadline: getNumber("BACKEND_DEADLINE", 45000),
+		backendRetries: getNumber("BACKEND_RETRIES", 2),
+		backendBreakerThreshold: getNumber("BACKEND_BREAKER_THRESHOLD", 5),
+		backendBreakerCooldown: getNumber("BACKEND_BREAKER_COOLDOWN", 30000),
+
 		// Security - use PUBLIC_ prefix for client-accessible vars
 		rateLimitMax: getNumber("PUBLIC_RATE_LIMIT_MAX", 10),
 		rateLimitWindow: getNumber("PUBLIC_RATE_LIMIT_WINDOW", 60000),
+		rateLimitAlgorithm: parseRateLimitAlgorithm(
+			getOptional("RATE_LIMIT_ALGORITHM", "fixed-window"),
+		),
+		rateLimitOverrides: parseRateLimitOverrides(
+			getOptional("RATE_LIMIT_POLICIES"),
+		),
+		rateLimitStore: parseRateLimitStore(
+			getOptional("RATE_LIMIT_STORE", "file"),
+		),
+		rateLimitDbPath: getOptional("RATE_LIMIT_DB_PATH") || undefined,
+
+		// Result cache - TTL of 0 disables caching
+		resultCacheTtl: getNumber("RESULT_CACHE_TTL", 15 * 60 * 1000),
+		resultCacheMaxEntries: getNumber("RESULT_CACHE_MAX_ENTRIES", 500),
+		resultCacheStore:
+			getOptional("RESULT_CACHE_STORE", "memory") === "file"
+				? "file"
+				: "memory",
+		resultCacheDir: getOptional("RESULT_CACHE_DIR", "./data/result-cache"),
 
 		// Feature flags
 		enableDebugMode: getBoolean("PUBLIC_ENABLE_DEBUG_MODE", true),
@@ -61,6 +134,104 @@ function parseEnv(): EnvConfig {
 	};
 }
 
+/**
+ * Split a comma-separated URL list (RUST_API_URL), dropping trailing slashes
+ */
+function parseUrlList(value: string): string[] {
+	return value
+		.split(",")
+		.map((url) => url.trim().replace(/\/+$/, ""))
+		.filter(Boolean);
+}
+
+/**
+ * Map RATE_LIMIT_ALGORITHM onto a known algorithm, defaulting to a fixed window
+ */
+function parseRateLimitAlgorithm(value: string): RateLimitAlgorithm {
+	return RATE_LIMIT_ALGORITHMS.find((name) => name === value) ?? "fixed-window";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check one route or platform override, naming the offending field
+ * Unknown fields are rejected too, so a typo doesn't silently leave the default.
+ */
+function checkRateLimitOverride(path: string, value: unknown): string | null {
+	if (!isObject(value)) return `${path} must be an object`;
+	for (const [field, setting] of Object.entries(value)) {
+		switch (field) {
+			case "algorithm":
+				if (!RATE_LIMIT_ALGORITHMS.some((name) => name === setting)) {
+					return `${path}.algorithm must be one of ${RATE_LIMIT_ALGORITHMS.join(", ")}`;
+				}
+				break;
+			case "limit":
+			case "window":
+				if (!Number.isInteger(setting) || (setting as number) <= 0) {
+					return `${path}.${field} must be a positive integer`;
+				}
+				break;
+			default:
+				return `${path}.${field} is not a known setting (algorithm, limit, window)`;
+		}
+	}
+	return null;
+}
+
+function checkRateLimitOverrides(value: unknown): string | null {
+	if (!isObject(value)) return "expected a JSON object";
+	for (const [group, overrides] of Object.entries(value)) {
+		if (group !== "routes" && group !== "platforms") {
+			return `${group} is not a known section (routes, platforms)`;
+		}
+		if (!isObject(overrides)) return `${group} must be an object`;
+		for (const [name, override] of Object.entries(overrides)) {
+			if (
+				group === "routes" &&
+				!RATE_LIMIT_ROUTES.some((route) => route === name)
+			) {
+				return `routes.${name} is not a known route (${RATE_LIMIT_ROUTES.join(", ")})`;
+			}
+			if (group === "platforms" && !isSupportedPlatform(name)) {
+				return `platforms.${name} is not a supported platform`;
+			}
+			const problem = checkRateLimitOverride(`${group}.${name}`, override);
+			if (problem) return problem;
+		}
+	}
+	return null;
+}
+
+/**
+ * Parse and validate RATE_LIMIT_POLICIES
+ * Throws on bad config, so a mistyped policy fails startup instead of being ignored.
+ */
+export function parseRateLimitOverrides(value: string): RateLimitOverrides {
+	if (!value) return {};
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		throw new Error("Invalid RATE_LIMIT_POLICIES: not valid JSON");
+	}
+
+	const problem = checkRateLimitOverrides(parsed);
+	if (problem) {
+		throw new Error(`Invalid RATE_LIMIT_POLICIES: ${problem}`);
+	}
+	return parsed as RateLimitOverrides;
+}
+
+/**
+ * Map RATE_LIMIT_STORE onto a known storage, defaulting to the JSON file
+ */
+function parseRateLimitStore(value: string): EnvConfig["rateLimitStore"] {
+	return value === "memory" || value === "sqlite" ? value : "file";
+}
+
 /**
  * Singleton configuration instance
  */
@@ -129,4 +300,9 @@ export const config = {
 	// - enablePerformanceMonitoring (not used)
 };
 
-export type { EnvConfig };
+export type {
+	EnvConfig,
+	RateLimitOverride,
+	RateLimitOverrides,
+	RateLimitRoute,
+};
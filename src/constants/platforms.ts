@@ -1,63 +1,205 @@
-import type { PlatformConfig, SupportedPlatform } from "@/types/download";
+import type { PlatformDefinition, SupportedPlatform } from "@/types/download";
 
 /**
- * Platform configurations and constants
+ * Platform registry - the single source of truth for supported platforms
+ * Validation, the API routes and the UI all derive from these entries, so
+ * adding a platform means adding one entry here (plus an icon in the UI map).
  */
-export const SUPPORTED_PLATFORMS = {
-	INSTAGRAM: "instagram",
-	TWITTER: "twitter",
-	TIKTOK: "tiktok",
-} as const;
-
-export const PLATFORM_CONFIGS: Record<SupportedPlatform, PlatformConfig> = {
-	[SUPPORTED_PLATFORMS.INSTAGRAM]: {
-		domain: "instagram.com",
+export const PLATFORMS = {
+	instagram: {
 		name: "Instagram",
+		domains: ["instagram.com"],
+		mirrorDomains: ["ddinstagram.com"],
+		canonicalHost: "www.instagram.com",
+		postPath: "/p/{id}/",
+		shortLinkDomains: ["instagr.am"],
+		patterns: [
+			/\/reel\/([A-Za-z0-9_-]+)/i,
+			/\/p\/([A-Za-z0-9_-]+)/i,
+			/\/tv\/([A-Za-z0-9_-]+)/i,
+		],
+		supportedMedia: ["video", "image"],
 		color: "text-pink-500",
 		bgColor: "bg-pink-500/10",
 		description: "Reels, Videos, Photos",
-		supportedMedia: ["video", "image"],
+		summary: "Download photos and videos from Instagram posts and reels",
+		icon: "instagram",
+		featureColor: "text-yellow-400",
+		features: ["Reels & Posts", "Stories (Coming Soon)"],
 	},
-	[SUPPORTED_PLATFORMS.TWITTER]: {
-		domain: "twitter.com",
+	tiktok: {
+		name: "TikTok",
+		domains: ["tiktok.com"],
+		mirrorDomains: [],
+		canonicalHost: "www.tiktok.com",
+		postPath: "/@/video/{id}",
+		shortLinkDomains: ["vm.tiktok.com", "vt.tiktok.com"],
+		patterns: [/\/video\/(\d+)/i, /\/@[^/]+\/video\/(\d+)/i],
+		supportedMedia: ["video"],
+		color: "text-black dark:text-white",
+		bgColor: "bg-gray-500/10",
+		description: "No Watermark Videos",
+		summary: "Download videos from TikTok posts",
+		icon: "tiktok",
+		featureColor: "text-green-400",
+		features: ["No Watermark", "Full HD Quality"],
+	},
+	twitter: {
 		name: "X (Twitter)",
+		domains: ["twitter.com", "x.com"],
+		mirrorDomains: ["fxtwitter.com", "vxtwitter.com"],
+		canonicalHost: "x.com",
+		postPath: "/i/status/{id}",
+		shortLinkDomains: ["t.co"],
+		patterns: [/\/status\/(\d+)/i],
+		supportedMedia: ["video"],
 		color: "text-blue-400",
 		bgColor: "bg-blue-400/10",
 		description: "Videos, GIFs",
+		summary: "Download videos and images from X (Twitter)",
+		icon: "twitter",
+		featureColor: "text-blue-400",
+		features: ["Videos & GIFs", "High Resolution"],
+	},
+	youtube: {
+		name: "YouTube Shorts",
+		domains: ["youtube.com"],
+		mirrorDomains: [],
+		canonicalHost: "www.youtube.com",
+		postPath: "/shorts/{id}",
+		shortLinkDomains: [],
+		patterns: [/\/shorts\/([A-Za-z0-9_-]{11})/],
 		supportedMedia: ["video"],
+		color: "text-red-500",
+		bgColor: "bg-red-500/10",
+		description: "Shorts",
+		summary: "Download YouTube Shorts in their original quality",
+		icon: "youtube",
+		featureColor: "text-red-400",
+		features: ["Shorts", "Audio Only"],
 	},
-	[SUPPORTED_PLATFORMS.TIKTOK]: {
-		domain: "tiktok.com",
-		name: "TikTok",
+	reddit: {
+		name: "Reddit",
+		domains: ["reddit.com"],
+		mirrorDomains: [],
+		canonicalHost: "www.reddit.com",
+		postPath: "/comments/{id}/",
+		shortLinkDomains: [],
+		patterns: [/\/comments\/([a-z0-9]+)/i],
+		supportedMedia: ["video", "image"],
+		color: "text-orange-500",
+		bgColor: "bg-orange-500/10",
+		description: "Videos, Images, GIFs",
+		summary: "Download videos and images from Reddit posts",
+		icon: "reddit",
+		featureColor: "text-orange-400",
+		features: ["Videos with Audio", "Images & GIFs"],
+	},
+	threads: {
+		name: "Threads",
+		domains: ["threads.net", "threads.com"],
+		mirrorDomains: [],
+		canonicalHost: "www.threads.com",
+		postPath: "/@_/post/{id}",
+		shortLinkDomains: [],
+		patterns: [/\/post\/([A-Za-z0-9_-]+)/],
+		supportedMedia: ["video", "image"],
 		color: "text-black dark:text-white",
 		bgColor: "bg-gray-500/10",
-		description: "No Watermark Videos",
+		description: "Videos, Photos",
+		summary: "Download videos and photos from Threads posts",
+		icon: "threads",
+		featureColor: "text-gray-300",
+		features: ["Videos & Photos", "Original Quality"],
+	},
+	facebook: {
+		name: "Facebook",
+		domains: ["facebook.com"],
+		mirrorDomains: [],
+		canonicalHost: "www.facebook.com",
+		postPath: "/reel/{id}",
+		shortLinkDomains: ["fb.watch"],
+		patterns: [/\/reel\/(\d+)/],
 		supportedMedia: ["video"],
+		color: "text-blue-500",
+		bgColor: "bg-blue-500/10",
+		description: "Reels",
+		summary: "Download Facebook reels",
+		icon: "facebook",
+		featureColor: "text-blue-400",
+		features: ["Reels", "HD Quality"],
 	},
-};
+} as const satisfies Record<string, PlatformDefinition>;
 
-export const PLATFORM_DOMAINS = Object.values(PLATFORM_CONFIGS).map(
-	(config) => config.domain,
-);
+/**
+ * Supported platform IDs in display order
+ */
+export const SUPPORTED_PLATFORM_IDS = Object.keys(
+	PLATFORMS,
+) as SupportedPlatform[];
 
 /**
- * URL patterns for platform detection and ID extraction
+ * Check whether a value names a registered platform
  */
-export const URL_PATTERNS = {
-	instagram: {
-		domain: /instagram\.com/i,
-		patterns: [
-			/\/reel\/([A-Za-z0-9_-]+)/i,
-			/\/p\/([A-Za-z0-9_-]+)/i,
-			/\/tv\/([A-Za-z0-9_-]+)/i,
-		],
-	},
-	twitter: {
-		domain: /(?:x\.com|twitter\.com)/i,
-		patterns: [/\/status\/(\d+)/i],
-	},
-	tiktok: {
-		domain: /tiktok\.com/i,
-		patterns: [/\/video\/(\d+)/i, /\/@[^/]+\/video\/(\d+)/i],
-	},
-} as const;
+export function isSupportedPlatform(
+	value: unknown,
+): value is SupportedPlatform {
+	return typeof value === "string" && Object.hasOwn(PLATFORMS, value);
+}
+
+/**
+ * Check whether a hostname is, or is a subdomain of, one of `domains`
+ */
+export function hostMatches(
+	hostname: string,
+	domains: readonly string[],
+): boolean {
+	const host = hostname.toLowerCase().replace(/\.$/, "");
+	return domains.some(
+		(domain) => host === domain || host.endsWith(`.${domain}`),
+	);
+}
+
+/**
+ * Find the platform serving this hostname, mirrors and mobile subdomains included
+ */
+export function getHostPlatform(hostname: string): SupportedPlatform | null {
+	return (
+		SUPPORTED_PLATFORM_IDS.find((id) =>
+			hostMatches(hostname, [
+				...PLATFORMS[id].domains,
+				...PLATFORMS[id].mirrorDomains,
+			]),
+		) ?? null
+	);
+}
+
+/**
+ * Find the platform whose share-sheet short links use this hostname
+ */
+export function getShortLinkPlatform(
+	hostname: string,
+): SupportedPlatform | null {
+	return (
+		SUPPORTED_PLATFORM_IDS.find((id) =>
+			hostMatches(hostname, PLATFORMS[id].shortLinkDomains),
+		) ?? null
+	);
+}
+
+/**
+ * Look up a platform's registry entry
+ */
+export function getPlatform(platform: SupportedPlatform): PlatformDefinition {
+	return PLATFORMS[platform];
+}
+
+/**
+ * Human-readable list of platform names, e.g. "Instagram, TikTok, or Reddit"
+ */
+export function formatPlatformList(conjunction: "or" | "and" = "or"): string {
+	const names = SUPPORTED_PLATFORM_IDS.map((id) => PLATFORMS[id].name);
+	return names.length > 1
+		? `${names.slice(0, -1).join(", ")}, ${conjunction} ${names[names.length - 1]}`
+		: names.join("");
+}
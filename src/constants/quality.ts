@@ -0,0 +1,19 @@
+import type { QualityPreference } from "@/types/download";
+
+/**
+ * Quality preferences a download request may ask for, with their UI labels
+ */
+export const QUALITY_PREFERENCES = {
+	hd: "HD",
+	sd: "SD",
+	audio: "Audio only",
+} as const satisfies Record<QualityPreference, string>;
+
+/**
+ * Check whether a value names a quality preference
+ */
+export function isQualityPreference(
+	value: unknown,
+): value is QualityPreference {
+	return typeof value === "string" && Object.hasOwn(QUALITY_PREFERENCES, value);
+}
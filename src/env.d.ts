@@ -0,0 +1,3 @@
+interface ImportMetaEnv {
+	readonly BUILD_ID?: string; // Defined per build in astro.config
+}
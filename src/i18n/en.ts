@@ -0,0 +1,159 @@
+import { PLATFORMS, SUPPORTED_PLATFORM_IDS } from "@/constants/platforms";
+import type { SupportedPlatform } from "@/types/download";
+
+/**
+ * English UI copy - the source catalog; every other locale translates these keys
+ * Placeholders such as {count} are filled in by translate().
+ */
+export const en = {
+	"meta.title": "Snatch - Social Media Downloader",
+	"meta.description": "Snatch videos and images from {platforms} in seconds",
+	"meta.ogDescription":
+		"Snatch high-quality videos and images from your favorite social platforms",
+
+	"language.label": "Language",
+
+	"hero.badge": "v1.0 Now Available",
+	"hero.tagline":
+		"Grab videos and images from {platforms}. No watermarks, completely free.",
+
+	"input.single": "Single",
+	"input.batch": "Batch",
+	"input.quality": "Quality",
+	"input.bestAvailable": "Best available",
+	"input.urlLabel": "Post URL",
+	"input.batchLabel": "Post URLs, one per line",
+	"input.placeholder": "Paste {platforms} or other supported URL here...",
+	"input.batchPlaceholder":
+		"Paste one URL per line (up to 50). Press Ctrl+Enter to start...",
+	"input.processing": "Processing",
+	"input.download": "Download",
+	"input.downloadAll": "Download All",
+	"input.archiveFrame": "Archive download",
+
+	"quality.hd": "HD",
+	"quality.sd": "SD",
+	"quality.audio": "Audio only",
+
+	"error.enterUrl": "Please enter a valid URL",
+	"error.enterUrls": "Please enter at least one URL",
+	"error.unsupportedPlatform":
+		"Unsupported platform. Please enter {platforms} URL",
+	"error.archiveFailed": "Failed to create archive.",
+	"error.generic": "Failed to download content. Please try again.",
+	"error.batchFailed": "{count} of the URLs could not be extracted",
+	"error.tryAgain": "Try again",
+
+	"results.title": "Download Results",
+	"results.count": "{count} items found",
+	"results.downloadAll": "Download all ({count})",
+	"results.copyLink": "Copy link",
+
+	"loading.title": "Extracting Content",
+	"loading.description":
+		"Please wait while we fetch the highest quality media...",
+
+	"progress.validated": "Link validated",
+	"progress.backend": "Contacting extraction service",
+	"progress.done": "done",
+	"progress.formats": "Formats received",
+
+	"platforms.title": "Supported Platforms",
+	"platforms.description":
+		"We support the most popular social media platforms with specialized extraction engines.",
+	// Card blurbs and feature lists come from the platform registry
+	...(Object.fromEntries(
+		SUPPORTED_PLATFORM_IDS.map((id) => [
+			`platforms.${id}`,
+			PLATFORMS[id].summary,
+		]),
+	) as Record<`platforms.${SupportedPlatform}`, string>),
+	...(Object.fromEntries(
+		SUPPORTED_PLATFORM_IDS.flatMap((id) =>
+			PLATFORMS[id].features.map((feature, index) => [
+				`platforms.${id}.features.${index}`,
+				feature,
+			]),
+		),
+	) as Record<`platforms.${SupportedPlatform}.features.${number}`, string>),
+
+	"status.working": "Working",
+	"status.degraded": "Degraded",
+	"status.down": "Down",
+	"status.successRate": "{percent}% of recent extractions succeeded",
+
+	"features.fast.title": "Lightning Fast",
+	"features.fast.description":
+		"Optimized extraction engine ensures downloads start in seconds.",
+	"features.quality.title": "Highest Quality",
+	"features.quality.description":
+		"We always fetch the maximum resolution available from the source.",
+	"features.free.title": "100% Free",
+	"features.free.description":
+		"No hidden fees, no registration, just unlimited downloads.",
+
+	"media.video": "Video",
+	"media.itemAlt": "Item {index} of {count}",
+	"media.image": "Image",
+
+	"result.untitled": "Untitled",
+	"result.download": "Download",
+	"result.openOriginal": "Open the original post",
+
+	"permalink.untitled": "{platform} post",
+	"permalink.thisPost": "this post",
+	"permalink.description":
+		"Download {title} from {platform}: {count} formats available.",
+	"permalink.descriptionByAuthor":
+		"Download {title} by @{author} from {platform}: {count} formats available.",
+	"permalink.notFound":
+		"This link doesn't point to a post Snatch can download.",
+	"permalink.viewOn": "View on {platform}",
+	"permalink.openInSnatch": "Open in Snatch",
+
+	"post.duration": "Duration",
+	"post.posted": "Posted",
+	"post.views": "Views",
+	"post.likes": "Likes",
+	"post.comments": "Comments",
+	"post.shares": "Shares",
+	"post.showMore": "Show more",
+	"post.showLess": "Show less",
+	"post.copyCaption": "Copy caption",
+	"post.copyHashtags": "Copy hashtags ({count})",
+	"common.copied": "Copied",
+
+	"history.title": "History",
+	"history.show": "Show",
+	"history.hide": "Hide",
+	"history.search": "Search history",
+	"history.searchPlaceholder": "Search by title, author or URL",
+	"history.platform": "Platform",
+	"history.allPlatforms": "All platforms",
+	"history.empty": "Posts you extract will show up here.",
+	"history.off": "History is off.",
+	"history.noMatches": "No matching downloads.",
+	"history.formats": "{count} formats",
+	"history.reextract": "Extract again",
+	"history.reextractLabel": "Extract {title} again",
+	"history.remove": "Remove from history",
+	"history.removeLabel": "Remove {title} from history",
+	"history.keep": "Keep history on this device (turning it off deletes it)",
+	"history.clear": "Clear all",
+
+	"update.ready": "A new version of Snatch is ready.",
+	"update.later": "Later",
+	"update.reload": "Reload",
+
+	"boundary.title": "Something went wrong",
+	"boundary.description": "An unexpected error occurred. Please try again.",
+	"boundary.details": "Error Details",
+	"boundary.tryAgain": "Try Again",
+	"boundary.reload": "Reload Page",
+	"boundary.support": "If this problem persists, please contact support.",
+} as const;
+
+// Spreading the feature lists loses their key pattern, so it's added back here
+export type MessageKey =
+	| keyof typeof en
+	| `platforms.${SupportedPlatform}.features.${number}`;
@@ -0,0 +1,178 @@
+import type { ErrorCode } from "@/types/download";
+import type { MessageKey } from "./en";
+
+/**
+ * Japanese UI copy
+ */
+export const ja: Record<MessageKey, string> = {
+	"meta.title": "Snatch - SNS ダウンローダー",
+	"meta.description": "{platforms} の動画や画像を数秒で保存",
+	"meta.ogDescription": "お気に入りの SNS から高画質の動画や画像を保存",
+
+	"language.label": "言語",
+
+	"hero.badge": "v1.0 公開中",
+	"hero.tagline":
+		"{platforms} の動画や画像を保存。ウォーターマークなし、完全無料。",
+
+	"input.single": "単体",
+	"input.batch": "一括",
+	"input.quality": "画質",
+	"input.bestAvailable": "最高画質",
+	"input.urlLabel": "投稿の URL",
+	"input.batchLabel": "投稿の URL（1 行に 1 つ）",
+	"input.placeholder": "{platforms} などの対応 URL をここに貼り付け…",
+	"input.batchPlaceholder":
+		"1 行に 1 つずつ URL を貼り付け（最大 50 件）。Ctrl+Enter で開始…",
+	"input.processing": "処理中",
+	"input.download": "ダウンロード",
+	"input.downloadAll": "すべてダウンロード",
+	"input.archiveFrame": "アーカイブのダウンロード",
+
+	"quality.hd": "HD",
+	"quality.sd": "SD",
+	"quality.audio": "音声のみ",
+
+	"error.enterUrl": "有効な URL を入力してください",
+	"error.enterUrls": "URL を 1 つ以上入力してください",
+	"error.unsupportedPlatform":
+		"対応していないプラットフォームです。{platforms} の URL を入力してください",
+	"error.archiveFailed": "アーカイブを作成できませんでした。",
+	"error.generic":
+		"コンテンツをダウンロードできませんでした。もう一度お試しください。",
+	"error.batchFailed": "{count} 件の URL を取得できませんでした",
+	"error.tryAgain": "再試行",
+
+	"results.title": "ダウンロード結果",
+	"results.count": "{count} 件見つかりました",
+	"results.downloadAll": "すべてダウンロード（{count}）",
+	"results.copyLink": "リンクをコピー",
+
+	"loading.title": "コンテンツを取得中",
+	"loading.description":
+		"最高画質のメディアを取得しています。しばらくお待ちください…",
+
+	"progress.validated": "リンクを確認しました",
+	"progress.backend": "抽出サービスに接続中",
+	"progress.done": "完了",
+	"progress.formats": "フォーマットを取得しました",
+
+	"platforms.title": "対応プラットフォーム",
+	"platforms.description":
+		"専用の抽出エンジンで主要な SNS プラットフォームに対応しています。",
+	"platforms.instagram": "Instagram の投稿やリールから写真と動画を保存",
+	"platforms.tiktok": "TikTok の動画を保存",
+	"platforms.twitter": "X（Twitter）の動画と画像を保存",
+	"platforms.youtube": "YouTube ショートをオリジナル画質で保存",
+	"platforms.reddit": "Reddit の投稿から動画と画像を保存",
+	"platforms.threads": "Threads の投稿から動画と写真を保存",
+	"platforms.facebook": "Facebook リールを保存",
+	"platforms.instagram.features.0": "リールと投稿",
+	"platforms.instagram.features.1": "ストーリーズ（近日対応）",
+	"platforms.tiktok.features.0": "ウォーターマークなし",
+	"platforms.tiktok.features.1": "フル HD 画質",
+	"platforms.twitter.features.0": "動画と GIF",
+	"platforms.twitter.features.1": "高解像度",
+	"platforms.youtube.features.0": "ショート",
+	"platforms.youtube.features.1": "音声のみ",
+	"platforms.reddit.features.0": "音声付き動画",
+	"platforms.reddit.features.1": "画像と GIF",
+	"platforms.threads.features.0": "動画と写真",
+	"platforms.threads.features.1": "オリジナル画質",
+	"platforms.facebook.features.0": "リール",
+	"platforms.facebook.features.1": "HD 画質",
+
+	"status.working": "稼働中",
+	"status.degraded": "不安定",
+	"status.down": "停止中",
+	"status.successRate": "直近の抽出の {percent}% が成功",
+
+	"features.fast.title": "高速",
+	"features.fast.description":
+		"最適化された抽出エンジンで、数秒でダウンロードを開始できます。",
+	"features.quality.title": "最高画質",
+	"features.quality.description": "常に配信元の最大解像度で取得します。",
+	"features.free.title": "完全無料",
+	"features.free.description":
+		"隠れた料金も登録も不要。何度でもダウンロードできます。",
+
+	"media.video": "動画",
+	"media.itemAlt": "{count} 件中 {index} 件目",
+	"media.image": "画像",
+
+	"result.untitled": "無題",
+	"result.download": "ダウンロード",
+	"result.openOriginal": "元の投稿を開く",
+
+	"permalink.untitled": "{platform} の投稿",
+	"permalink.thisPost": "この投稿",
+	"permalink.description":
+		"{platform} から {title} を保存：{count} 種類の形式があります。",
+	"permalink.descriptionByAuthor":
+		"{platform} から @{author} の {title} を保存：{count} 種類の形式があります。",
+	"permalink.notFound": "このリンクは Snatch で保存できる投稿ではありません。",
+	"permalink.viewOn": "{platform} で見る",
+	"permalink.openInSnatch": "Snatch で開く",
+
+	"post.duration": "再生時間",
+	"post.posted": "投稿日",
+	"post.views": "再生回数",
+	"post.likes": "いいね",
+	"post.comments": "コメント",
+	"post.shares": "シェア",
+	"post.showMore": "もっと見る",
+	"post.showLess": "閉じる",
+	"post.copyCaption": "キャプションをコピー",
+	"post.copyHashtags": "ハッシュタグをコピー（{count}）",
+	"common.copied": "コピーしました",
+
+	"history.title": "履歴",
+	"history.show": "表示",
+	"history.hide": "非表示",
+	"history.search": "履歴を検索",
+	"history.searchPlaceholder": "タイトル、投稿者、URL で検索",
+	"history.platform": "プラットフォーム",
+	"history.allPlatforms": "すべてのプラットフォーム",
+	"history.empty": "抽出した投稿がここに表示されます。",
+	"history.off": "履歴はオフです。",
+	"history.noMatches": "一致するダウンロードはありません。",
+	"history.formats": "{count} 種類のフォーマット",
+	"history.reextract": "もう一度抽出",
+	"history.reextractLabel": "{title} をもう一度抽出",
+	"history.remove": "履歴から削除",
+	"history.removeLabel": "{title} を履歴から削除",
+	"history.keep": "この端末に履歴を保存する（オフにすると削除されます）",
+	"history.clear": "すべて削除",
+
+	"update.ready": "Snatch の新しいバージョンを利用できます。",
+	"update.later": "後で",
+	"update.reload": "再読み込み",
+
+	"boundary.title": "問題が発生しました",
+	"boundary.description":
+		"予期しないエラーが発生しました。もう一度お試しください。",
+	"boundary.details": "エラーの詳細",
+	"boundary.tryAgain": "再試行",
+	"boundary.reload": "ページを再読み込み",
+	"boundary.support":
+		"問題が解決しない場合は、サポートまでお問い合わせください。",
+};
+
+export const jaErrors: Record<ErrorCode, string> = {
+	INVALID_REQUEST:
+		"リクエストの形式が正しくありません。ページを再読み込みしてもう一度お試しください。",
+	INVALID_URL: "投稿へのリンクではないようです。URL を確認してください。",
+	UNSUPPORTED_PLATFORM: "このサイトにはまだ対応していません。",
+	RATE_LIMITED:
+		"リクエストが多すぎます。しばらく待ってからもう一度お試しください。",
+	CONTENT_PRIVATE: "この投稿は非公開か、ログインが必要です。",
+	CONTENT_NOT_FOUND: "この投稿は存在しないか、削除されています。",
+	EXTRACTION_FAILED: "この投稿にはダウンロードできるメディアがありません。",
+	BACKEND_TIMEOUT: "ダウンロードサービスの応答がタイムアウトしました。",
+	BACKEND_UNAVAILABLE: "ダウンロードサービスは現在利用できません。",
+	BACKEND_PROTOCOL_ERROR:
+		"ダウンロードサービスから予期しない応答がありました。",
+	INTERNAL_ERROR: "サーバー側で問題が発生しました。",
+	OFFLINE:
+		"オフラインです。オンラインに戻ると、このリンクは自動的に抽出されます。",
+};
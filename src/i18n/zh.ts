@@ -0,0 +1,164 @@
+import type { ErrorCode } from "@/types/download";
+import type { MessageKey } from "./en";
+
+/**
+ * Simplified Chinese UI copy
+ */
+export const zh: Record<MessageKey, string> = {
+	"meta.title": "Snatch - 社交媒体下载器",
+	"meta.description": "几秒钟内从 {platforms} 下载视频和图片",
+	"meta.ogDescription": "从你喜爱的社交平台下载高清视频和图片",
+
+	"language.label": "语言",
+
+	"hero.badge": "v1.0 现已发布",
+	"hero.tagline": "从 {platforms} 获取视频和图片。无水印，完全免费。",
+
+	"input.single": "单个",
+	"input.batch": "批量",
+	"input.quality": "画质",
+	"input.bestAvailable": "最佳可用",
+	"input.urlLabel": "帖子链接",
+	"input.batchLabel": "帖子链接，每行一个",
+	"input.placeholder": "在此粘贴 {platforms} 或其他受支持平台的链接…",
+	"input.batchPlaceholder":
+		"每行粘贴一个链接（最多 50 个），按 Ctrl+Enter 开始…",
+	"input.processing": "处理中",
+	"input.download": "下载",
+	"input.downloadAll": "全部下载",
+	"input.archiveFrame": "压缩包下载",
+
+	"quality.hd": "高清",
+	"quality.sd": "标清",
+	"quality.audio": "仅音频",
+
+	"error.enterUrl": "请输入有效的链接",
+	"error.enterUrls": "请至少输入一个链接",
+	"error.unsupportedPlatform": "不支持的平台。请输入 {platforms} 的链接",
+	"error.archiveFailed": "创建压缩包失败。",
+	"error.generic": "下载内容失败，请重试。",
+	"error.batchFailed": "有 {count} 个链接未能解析",
+	"error.tryAgain": "重试",
+
+	"results.title": "下载结果",
+	"results.count": "找到 {count} 项",
+	"results.downloadAll": "全部下载（{count}）",
+	"results.copyLink": "复制链接",
+
+	"loading.title": "正在解析内容",
+	"loading.description": "请稍候，我们正在获取最高画质的媒体…",
+
+	"progress.validated": "链接已验证",
+	"progress.backend": "正在连接解析服务",
+	"progress.done": "已完成",
+	"progress.formats": "已获取格式",
+
+	"platforms.title": "支持的平台",
+	"platforms.description": "我们通过专门的解析引擎支持最流行的社交媒体平台。",
+	"platforms.instagram": "下载 Instagram 帖子和 Reels 中的图片与视频",
+	"platforms.tiktok": "下载 TikTok 视频",
+	"platforms.twitter": "下载 X（Twitter）中的视频和图片",
+	"platforms.youtube": "以原始画质下载 YouTube Shorts",
+	"platforms.reddit": "下载 Reddit 帖子中的视频和图片",
+	"platforms.threads": "下载 Threads 帖子中的视频和图片",
+	"platforms.facebook": "下载 Facebook Reels",
+	"platforms.instagram.features.0": "Reels 和帖子",
+	"platforms.instagram.features.1": "快拍（即将推出）",
+	"platforms.tiktok.features.0": "无水印",
+	"platforms.tiktok.features.1": "全高清画质",
+	"platforms.twitter.features.0": "视频和 GIF",
+	"platforms.twitter.features.1": "高分辨率",
+	"platforms.youtube.features.0": "Shorts 短视频",
+	"platforms.youtube.features.1": "仅音频",
+	"platforms.reddit.features.0": "带音频的视频",
+	"platforms.reddit.features.1": "图片和 GIF",
+	"platforms.threads.features.0": "视频和照片",
+	"platforms.threads.features.1": "原始画质",
+	"platforms.facebook.features.0": "Reels",
+	"platforms.facebook.features.1": "高清画质",
+
+	"status.working": "正常",
+	"status.degraded": "不稳定",
+	"status.down": "不可用",
+	"status.successRate": "最近 {percent}% 的解析成功",
+
+	"features.fast.title": "极速",
+	"features.fast.description": "经过优化的解析引擎，几秒内即可开始下载。",
+	"features.quality.title": "最高画质",
+	"features.quality.description": "始终获取来源提供的最高分辨率。",
+	"features.free.title": "完全免费",
+	"features.free.description": "无隐藏费用，无需注册，下载不限次数。",
+
+	"media.video": "视频",
+	"media.itemAlt": "第 {index} 项，共 {count} 项",
+	"media.image": "图片",
+
+	"result.untitled": "无标题",
+	"result.download": "下载",
+	"result.openOriginal": "打开原帖",
+
+	"permalink.untitled": "{platform} 帖子",
+	"permalink.thisPost": "此帖子",
+	"permalink.description": "从 {platform} 下载 {title}：共 {count} 种格式。",
+	"permalink.descriptionByAuthor":
+		"从 {platform} 下载 @{author} 的 {title}：共 {count} 种格式。",
+	"permalink.notFound": "此链接不是 Snatch 可以下载的帖子。",
+	"permalink.viewOn": "在 {platform} 上查看",
+	"permalink.openInSnatch": "在 Snatch 中打开",
+
+	"post.duration": "时长",
+	"post.posted": "发布时间",
+	"post.views": "播放",
+	"post.likes": "点赞",
+	"post.comments": "评论",
+	"post.shares": "分享",
+	"post.showMore": "展开",
+	"post.showLess": "收起",
+	"post.copyCaption": "复制文案",
+	"post.copyHashtags": "复制话题标签（{count}）",
+	"common.copied": "已复制",
+
+	"history.title": "历史记录",
+	"history.show": "显示",
+	"history.hide": "隐藏",
+	"history.search": "搜索历史记录",
+	"history.searchPlaceholder": "按标题、作者或链接搜索",
+	"history.platform": "平台",
+	"history.allPlatforms": "全部平台",
+	"history.empty": "你解析过的帖子会显示在这里。",
+	"history.off": "历史记录已关闭。",
+	"history.noMatches": "没有匹配的下载。",
+	"history.formats": "{count} 种格式",
+	"history.reextract": "重新解析",
+	"history.reextractLabel": "重新解析 {title}",
+	"history.remove": "从历史记录中删除",
+	"history.removeLabel": "从历史记录中删除 {title}",
+	"history.keep": "在此设备上保留历史记录（关闭后将删除）",
+	"history.clear": "全部清除",
+
+	"update.ready": "Snatch 有新版本可用。",
+	"update.later": "稍后",
+	"update.reload": "重新加载",
+
+	"boundary.title": "出错了",
+	"boundary.description": "发生了意外错误，请重试。",
+	"boundary.details": "错误详情",
+	"boundary.tryAgain": "重试",
+	"boundary.reload": "重新加载页面",
+	"boundary.support": "如果问题持续存在，请联系支持人员。",
+};
+
+export const zhErrors: Record<ErrorCode, string> = {
+	INVALID_REQUEST: "请求格式有误。请刷新页面后重试。",
+	INVALID_URL: "这看起来不是帖子的链接，请检查链接。",
+	UNSUPPORTED_PLATFORM: "暂不支持该网站。",
+	RATE_LIMITED: "请求过于频繁，请稍后再试。",
+	CONTENT_PRIVATE: "该帖子为私密内容或需要登录。",
+	CONTENT_NOT_FOUND: "该帖子不存在或已被删除。",
+	EXTRACTION_FAILED: "该帖子中没有找到可下载的媒体。",
+	BACKEND_TIMEOUT: "下载服务响应超时。",
+	BACKEND_UNAVAILABLE: "下载服务暂时不可用。",
+	BACKEND_PROTOCOL_ERROR: "下载服务返回了异常响应。",
+	INTERNAL_ERROR: "服务器出现了问题。",
+	OFFLINE: "你当前处于离线状态。恢复联网后将自动解析此链接。",
+};
@@ -0,0 +1,210 @@
+import { parseEventStream } from "@/lib/sse";
+import type {
+	BatchDownloadRequest,
+	BatchDownloadResponse,
+	BundleRequest,
+	DownloadRequest,
+	DownloadResponse,
+	ErrorResponse,
+	ExtractionProgressEvent,
+	HealthResponse,
+	StatusResponse,
+} from "@/types/download";
+
+/**
+ * Typed client for the public API described at /api/openapi.json
+ *
+ * Methods resolve with the parsed body and HTTP status, failures included, so
+ * callers branch on `ok` and the error `code`; only network failures throw.
+ */
+
+export type ApiResult<T> =
+	| { ok: true; status: number; data: T }
+	| { ok: false; status: number; data: Partial<ErrorResponse> };
+
+export interface ApiClientOptions {
+	baseUrl?: string; // Origin of the API; same origin when empty
+	fetch?: typeof fetch;
+}
+
+export interface DownloadOptions {
+	// Ask for server-sent progress; called with every event as it arrives
+	onProgress?: (event: ExtractionProgressEvent) => void;
+	signal?: AbortSignal;
+}
+
+// Hidden frame that archive downloads are posted into
+const BUNDLE_FRAME = "snatch-bundle";
+
+export class ApiClient {
+	private baseUrl: string;
+	private fetchImpl?: typeof fetch;
+
+	constructor(options: ApiClientOptions = {}) {
+		this.baseUrl = options.baseUrl?.replace(/\/+$/, "") ?? "";
+		this.fetchImpl = options.fetch;
+	}
+
+	/**
+	 * POST /api/download
+	 */
+	async download(
+		body: DownloadRequest,
+		options: DownloadOptions = {},
+	): Promise<ApiResult<DownloadResponse>> {
+		const response = await this.request("/api/download", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: options.onProgress
+					? "text/event-stream, application/json"
+					: "application/json",
+			},
+			body: JSON.stringify(body),
+			signal: options.signal,
+		});
+
+		// The server streams progress when asked; errors before validation are JSON
+		const isStream = response.headers
+			.get("content-type")
+			?.includes("text/event-stream");
+		if (!isStream || !response.body) {
+			return this.result(response, await readJson(response));
+		}
+
+		let data: DownloadResponse = { success: false };
+		for await (const message of parseEventStream(response.body)) {
+			const event: ExtractionProgressEvent = JSON.parse(message.data);
+			options.onProgress?.(event);
+			if (event.response) {
+				data = event.response;
+			}
+		}
+		return this.result(response, data);
+	}
+
+	/**
+	 * POST /api/download/batch
+	 */
+	async batchDownload(
+		body: BatchDownloadRequest,
+	): Promise<ApiResult<BatchDownloadResponse>> {
+		const response = await this.request("/api/download/batch", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		});
+		return this.result(response, await readJson(response));
+	}
+
+	/**
+	 * POST /api/download/zip as a form into a hidden frame (browser only)
+	 *
+	 * The browser saves the archive to disk as it streams, rather than the page
+	 * holding it in memory. A saved attachment never loads into the frame, so
+	 * anything that does is an error response, which is passed to `onError`.
+	 * `frameTitle` names the frame for assistive tech, in the page's language.
+	 */
+	saveBundle(
+		body: BundleRequest,
+		frameTitle: string,
+		onError: (data: Partial<ErrorResponse>) => void,
+	): void {
+		let frame = document.querySelector<HTMLIFrameElement>(
+			`iframe[name="${BUNDLE_FRAME}"]`,
+		);
+		if (!frame) {
+			frame = document.createElement("iframe");
+			frame.name = BUNDLE_FRAME;
+			frame.hidden = true;
+			document.body.append(frame);
+		}
+		frame.title = frameTitle;
+		frame.onload = (event) => {
+			const document = (event.target as HTMLIFrameElement).contentDocument;
+			if (document && document.location.href !== "about:blank") {
+				onError(parseJson(document.body?.textContent ?? ""));
+			}
+		};
+
+		const form = document.createElement("form");
+		form.method = "POST";
+		form.action = `${this.baseUrl}/api/download/zip`;
+		form.target = BUNDLE_FRAME;
+		form.hidden = true;
+		const files = document.createElement("input");
+		files.type = "hidden";
+		files.name = "files";
+		files.value = JSON.stringify(body.files);
+		form.append(files);
+		document.body.append(form);
+		form.submit();
+		form.remove();
+	}
+
+	/**
+	 * GET /api/status
+	 */
+	async status(): Promise<ApiResult<StatusResponse>> {
+		const response = await this.request("/api/status");
+		return this.result(response, await readJson(response));
+	}
+
+	/**
+	 * GET /api/health
+	 */
+	async health(): Promise<ApiResult<HealthResponse>> {
+		const response = await this.request("/api/health");
+		return this.result(response, await readJson(response));
+	}
+
+	private request(path: string, init?: RequestInit): Promise<Response> {
+		// Looked up per request so a stubbed global fetch is honoured
+		const fetchImpl = this.fetchImpl ?? globalThis.fetch;
+		return fetchImpl(`${this.baseUrl}${path}`, init);
+	}
+
+	/**
+	 * Successful only for a 2xx status whose body doesn't report `success: false`
+	 */
+	private result<T>(response: Response, data: unknown): ApiResult<T> {
+		const failed =
+			!response.ok ||
+			(typeof data === "object" &&
+				data !== null &&
+				"success" in data &&
+				data.success === false);
+		return failed
+			? {
+					ok: false,
+					status: response.status,
+					data: data as Partial<ErrorResponse>,
+				}
+			: { ok: true, status: response.status, data: data as T };
+	}
+}
+
+/**
+ * Parse a JSON body; a proxy's HTML error page yields an empty object
+ */
+async function readJson(response: Response): Promise<Record<string, unknown>> {
+	try {
+		return await response.json();
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Parse JSON text; anything else yields an empty object
+ */
+function parseJson(text: string): Record<string, unknown> {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return {};
+	}
+}
+
+// Same-origin client used by the UI
+export const api = new ApiClient();
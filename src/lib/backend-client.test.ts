@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import {
+	BackendClient,
+	type BackendClientOptions,
+	BackendUnavailableError,
+} from "./backend-client";
+
+type Handler = (
+	url: string,
+	init?: RequestInit,
+) => Response | Promise<Response>;
+
+// A client over `urls` whose fetch is answered by `handler`; every request URL is recorded
+function createClient(
+	handler: Handler,
+	options: Partial<BackendClientOptions> = {},
+): { client: BackendClient; calls: string[]; sleeps: number[] } {
+	const calls: string[] = [];
+	const sleeps: number[] = [];
+	const client = new BackendClient({
+		urls: ["http://a", "http://b"],
+		timeout: 1000,
+		deadline: 5000,
+		retries: 2,
+		breakerThreshold: 3,
+		breakerCooldown: 60000,
+		fetch: (async (input: string, init?: RequestInit) => {
+			calls.push(input);
+			return handler(input, init);
+		}) as unknown as typeof fetch,
+		random: () => 0,
+		sleep: async (ms: number) => {
+			sleeps.push(ms);
+		},
+		...options,
+	});
+	return { client, calls, sleeps };
+}
+
+const ok = () => new Response("ok", { status: 200 });
+const unavailable = () => new Response("down", { status: 503 });
+
+describe("BackendClient", () => {
+	it("should fail over to another backend after a gateway error", async () => {
+		const { client, calls, sleeps } = createClient((url) =>
+			url.startsWith("http://a") ? unavailable() : ok(),
+		);
+
+		const response = await client.request(
+			"/api/extract",
+			{},
+			{ idempotent: true },
+		);
+
+		expect(response.status).toBe(200);
+		expect(calls).toEqual(["http://a/api/extract", "http://b/api/extract"]);
+		expect(sleeps).toHaveLength(1);
+	});
+
+	it("should retry connection failures with capped, jittered backoff", async () => {
+		let failures = 2;
+		const { client, calls, sleeps } = createClient(
+			() => {
+				if (failures-- > 0) {
+					throw new TypeError("fetch failed");
+				}
+				return ok();
+			},
+			{ urls: ["http://a"], random: () => 0.5 },
+		);
+
+		const response = await client.request("/x", {}, { idempotent: true });
+
+		expect(response.status).toBe(200);
+		expect(calls).toHaveLength(3);
+		expect(sleeps).toEqual([200, 400]);
+	});
+
+	it("should stop retrying timeouts once the overall deadline has passed", async () => {
+		// Never answers; only the client's own timer ends each attempt
+		const { client, calls } = createClient(
+			(_url, init) =>
+				new Promise((_resolve, reject) => {
+					init?.signal?.addEventListener("abort", () =>
+						reject(init.signal?.reason),
+					);
+				}),
+			{ timeout: 40, deadline: 100, retries: 5 },
+		);
+
+		const startedAt = Date.now();
+		await expect(
+			client.request("/x", {}, { idempotent: true }),
+		).rejects.toThrow("timed out");
+
+		expect(calls.length).toBeLessThanOrEqual(3);
+		expect(Date.now() - startedAt).toBeLessThan(500);
+	});
+
+	it("should not retry requests that aren't idempotent", async () => {
+		const { client, calls } = createClient(() => {
+			throw new TypeError("fetch failed");
+		});
+
+		await expect(client.request("/x")).rejects.toThrow("fetch failed");
+		expect(calls).toHaveLength(1);
+	});
+
+	it("should return the last gateway error when every attempt fails", async () => {
+		const { client, calls } = createClient(unavailable);
+
+		const response = await client.request("/x", {}, { idempotent: true });
+
+		expect(response.status).toBe(503);
+		expect(calls).toHaveLength(3);
+	});
+
+	it("should treat a 500 as an answer from a healthy backend", async () => {
+		const { client, calls } = createClient(
+			() => new Response("yt-dlp error", { status: 500 }),
+		);
+
+		const response = await client.request("/x", {}, { idempotent: true });
+
+		expect(response.status).toBe(500);
+		expect(calls).toHaveLength(1);
+		expect(client.getStatus()[0]).toMatchObject({
+			state: "closed",
+			health: 1,
+			consecutiveFailures: 0,
+		});
+	});
+
+	it("should open the circuit and fail fast with a Retry-After hint", async () => {
+		const { client, calls } = createClient(unavailable, {
+			urls: ["http://a"],
+			retries: 0,
+			breakerThreshold: 2,
+		});
+
+		await client.request("/x");
+		await client.request("/x");
+		expect(client.getStatus()[0].state).toBe("open");
+
+		const error = await client.request("/x").catch((caught) => caught);
+		expect(error).toBeInstanceOf(BackendUnavailableError);
+		expect((error as BackendUnavailableError).retryAfter).toBe(60);
+		expect(calls).toHaveLength(2);
+	});
+
+	it("should let a trial request through once the cool-down has passed", async () => {
+		let healthy = false;
+		const { client } = createClient(() => (healthy ? ok() : unavailable()), {
+			urls: ["http://a"],
+			retries: 0,
+			breakerThreshold: 1,
+			breakerCooldown: 0,
+		});
+
+		await client.request("/x");
+		expect(client.getStatus()[0].state).toBe("half-open");
+
+		healthy = true;
+		const response = await client.request("/x");
+
+		expect(response.status).toBe(200);
+		expect(client.getStatus()[0]).toMatchObject({
+			state: "closed",
+			consecutiveFailures: 0,
+		});
+	});
+
+	it("should send less traffic to a backend with a poor track record", async () => {
+		let roll = 0;
+		const { client, calls } = createClient(
+			(url) => (url.startsWith("http://a") ? unavailable() : ok()),
+			{ retries: 0, breakerThreshold: 100, random: () => roll },
+		);
+
+		// Fail "a" a few times so its health drops well below "b"'s
+		for (let i = 0; i < 5; i++) {
+			await client.request("/x");
+		}
+		const [a, b] = client.getStatus();
+		expect(a.health).toBeLessThan(0.5);
+		expect(b.health).toBe(1);
+
+		// A roll just past a's share of the total weight now lands on "b"
+		roll = a.health / (a.health + b.health) + 0.01;
+		calls.length = 0;
+		await client.request("/x");
+		expect(calls).toEqual(["http://b/x"]);
+	});
+
+	it("should probe every backend without touching its circuit", async () => {
+		const { client } = createClient((url) => {
+			if (url.startsWith("http://b")) {
+				throw new TypeError("fetch failed");
+			}
+			return ok();
+		});
+
+		const [a, b] = await client.probe();
+
+		expect(a).toMatchObject({ url: "http://a", reachable: true });
+		expect(a.latency).toBeGreaterThanOrEqual(0);
+		expect(b).toEqual({ url: "http://b", reachable: false });
+		expect(client.getStatus()[1].consecutiveFailures).toBe(0);
+	});
+});
@@ -0,0 +1,390 @@
+import { getConfig } from "@/config/env";
+
+/**
+ * Client for the pool of Rust backends
+ *
+ * - Each request goes to a backend picked at random, weighted by its recent
+ *   success rate, so a struggling instance gets less traffic.
+ * - Idempotent requests are retried on another backend after connection
+ *   failures, timeouts and gateway errors, with jittered exponential backoff,
+ *   within an overall deadline so retries can't keep a caller waiting.
+ * - A backend that keeps failing has its circuit opened for a cool-down; when
+ *   every circuit is open, requests fail immediately with a Retry-After hint
+ *   instead of waiting for timeouts.
+ */
+
+// Statuses meaning the backend (or a proxy in front of it) is unhealthy;
+// other statuses, 500 included, are answers from a working backend
+export const UNHEALTHY_STATUSES = [502, 503, 504];
+
+// Backoff before retry n is random in [0, min(MAX_BACKOFF, BASE_BACKOFF * 2^n)]
+const BASE_BACKOFF = 200;
+const MAX_BACKOFF = 2000;
+
+// Weight of the latest outcome in the health score
+const HEALTH_DECAY = 0.2;
+// Even unhealthy closed backends keep a small share of traffic so they can recover
+const MIN_WEIGHT = 0.05;
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface BackendStatus {
+	url: string;
+	state: CircuitState;
+	health: number; // Moving average of outcomes, 0 (failing) to 1 (healthy)
+	latency?: number; // Moving average time to response headers, in ms
+	consecutiveFailures: number;
+	lastSuccessAt?: number;
+	lastFailureAt?: number;
+	lastError?: string;
+}
+
+export interface BackendClientOptions {
+	urls: string[];
+	timeout: number; // Per attempt, until response headers arrive
+	deadline: number; // Across all attempts and backoffs, until response headers arrive
+	retries: number;
+	breakerThreshold: number; // Consecutive failures that open a circuit
+	breakerCooldown: number; // How long a circuit stays open
+	fetch?: typeof fetch;
+	random?: () => number;
+	sleep?: (ms: number) => Promise<void>;
+}
+
+export interface BackendRequestOptions {
+	idempotent?: boolean; // Safe to send again after a failure
+	signal?: AbortSignal;
+}
+
+export interface BackendProbe {
+	url: string;
+	reachable: boolean;
+	latency?: number; // Round trip in ms, when reachable
+}
+
+/**
+ * Thrown when no backend can take a request right now
+ */
+export class BackendUnavailableError extends Error {
+	/** Seconds until a backend may accept requests again */
+	readonly retryAfter: number;
+
+	constructor(message: string, retryAfter: number) {
+		super(message);
+		this.name = "BackendUnavailableError";
+		this.retryAfter = retryAfter;
+	}
+}
+
+interface BackendState extends BackendStatus {
+	openedAt?: number;
+	trialInFlight: boolean; // Half-open circuits let a single request through
+}
+
+export class BackendClient {
+	private backends: BackendState[];
+	private options: BackendClientOptions;
+	private random: () => number;
+	private sleep: (ms: number) => Promise<void>;
+
+	constructor(options: BackendClientOptions) {
+		if (options.urls.length === 0) {
+			throw new Error("At least one backend URL is required");
+		}
+		this.options = options;
+		this.random = options.random ?? Math.random;
+		this.sleep =
+			options.sleep ??
+			((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+		this.backends = options.urls.map((url) => ({
+			url,
+			state: "closed",
+			health: 1,
+			consecutiveFailures: 0,
+			trialInFlight: false,
+		}));
+	}
+
+	/**
+	 * Send a request to `path` on one of the backends
+	 * Resolves with the first response from a healthy backend; the caller owns its body.
+	 */
+	async request(
+		path: string,
+		init: RequestInit = {},
+		options: BackendRequestOptions = {},
+	): Promise<Response> {
+		const attempts = options.idempotent ? this.options.retries + 1 : 1;
+		const deadline = Date.now() + this.options.deadline;
+		const tried = new Set<BackendState>();
+		let lastError: unknown;
+
+		for (let attempt = 0; attempt < attempts; attempt++) {
+			if (attempt > 0) {
+				const backoff = this.backoff(attempt);
+				// Not enough time left for another attempt to be worth it
+				if (Date.now() + backoff >= deadline) {
+					break;
+				}
+				await this.sleep(backoff);
+			}
+			options.signal?.throwIfAborted();
+
+			const backend = this.select(tried);
+			if (!backend) {
+				break;
+			}
+			tried.add(backend);
+
+			const startedAt = Date.now();
+			try {
+				const response = await this.attempt(
+					backend,
+					path,
+					init,
+					Math.min(this.options.timeout, deadline - Date.now()),
+					options.signal,
+				);
+				if (!UNHEALTHY_STATUSES.includes(response.status)) {
+					this.recordSuccess(backend, Date.now() - startedAt);
+					return response;
+				}
+
+				this.recordFailure(backend, `HTTP ${response.status}`);
+				// Out of attempts: hand the gateway error to the caller as-is
+				if (attempt === attempts - 1) {
+					return response;
+				}
+				await response.body?.cancel();
+				lastError = new Error(`Backend responded with ${response.status}`);
+			} catch (error) {
+				// The caller gave up; that says nothing about the backend's health
+				if (options.signal?.aborted) {
+					backend.trialInFlight = false;
+					throw error;
+				}
+				this.recordFailure(
+					backend,
+					error instanceof Error ? error.message : String(error),
+				);
+				lastError = error;
+			}
+		}
+
+		if (lastError) {
+			throw lastError;
+		}
+		throw new BackendUnavailableError(
+			"All backends are temporarily unavailable",
+			this.retryAfter(),
+		);
+	}
+
+	/**
+	 * Health and circuit state of every backend
+	 */
+	getStatus(): BackendStatus[] {
+		const now = Date.now();
+		return this.backends.map((backend) => ({
+			url: backend.url,
+			state: this.currentState(backend, now),
+			health: backend.health,
+			latency: backend.latency,
+			consecutiveFailures: backend.consecutiveFailures,
+			lastSuccessAt: backend.lastSuccessAt,
+			lastFailureAt: backend.lastFailureAt,
+			lastError: backend.lastError,
+		}));
+	}
+
+	/**
+	 * Check that every backend answers HTTP at all, without touching circuit state
+	 * Any response counts as reachable; only connection failures and timeouts don't.
+	 */
+	async probe(timeout = this.options.timeout): Promise<BackendProbe[]> {
+		const fetchImpl = this.options.fetch ?? globalThis.fetch;
+
+		return Promise.all(
+			this.backends.map(async ({ url }): Promise<BackendProbe> => {
+				const startedAt = Date.now();
+				try {
+					const response = await fetchImpl(`${url}/`, {
+						signal: AbortSignal.timeout(timeout),
+					});
+					await response.body?.cancel();
+					return { url, reachable: true, latency: Date.now() - startedAt };
+				} catch {
+					return { url, reachable: false };
+				}
+			}),
+		);
+	}
+
+	private async attempt(
+		backend: BackendState,
+		path: string,
+		init: RequestInit,
+		timeout: number,
+		signal?: AbortSignal,
+	): Promise<Response> {
+		const controller = new AbortController();
+		const timeoutId = setTimeout(
+			() =>
+				controller.abort(
+					new DOMException("Backend request timed out", "TimeoutError"),
+				),
+			timeout,
+		);
+		const onAbort = () => controller.abort(signal?.reason);
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		try {
+			// Looked up per request so a stubbed global fetch is honoured
+			const fetchImpl = this.options.fetch ?? globalThis.fetch;
+			return await fetchImpl(`${backend.url}${path}`, {
+				...init,
+				signal: controller.signal,
+			});
+		} finally {
+			// Only waiting for headers is timed; the body may stream for as long as it needs
+			clearTimeout(timeoutId);
+			signal?.removeEventListener("abort", onAbort);
+		}
+	}
+
+	private currentState(backend: BackendState, now: number): CircuitState {
+		if (
+			backend.state === "open" &&
+			now - (backend.openedAt ?? 0) >= this.options.breakerCooldown
+		) {
+			return "half-open";
+		}
+		return backend.state;
+	}
+
+	/**
+	 * Pick a backend, weighted by health; untried ones first so retries fail over
+	 */
+	private select(tried: Set<BackendState>): BackendState | null {
+		const now = Date.now();
+		const available = this.backends.filter((backend) => {
+			const state = this.currentState(backend, now);
+			return (
+				state === "closed" || (state === "half-open" && !backend.trialInFlight)
+			);
+		});
+		if (available.length === 0) {
+			return null;
+		}
+
+		const untried = available.filter((backend) => !tried.has(backend));
+		const candidates = untried.length > 0 ? untried : available;
+
+		const weights = candidates.map((backend) =>
+			Math.max(MIN_WEIGHT, backend.health),
+		);
+		let pick = this.random() * weights.reduce((sum, weight) => sum + weight, 0);
+		let chosen = candidates[candidates.length - 1];
+		for (const [index, candidate] of candidates.entries()) {
+			pick -= weights[index];
+			if (pick < 0) {
+				chosen = candidate;
+				break;
+			}
+		}
+
+		if (this.currentState(chosen, now) === "half-open") {
+			chosen.state = "half-open";
+			chosen.trialInFlight = true;
+		}
+		return chosen;
+	}
+
+	private backoff(attempt: number): number {
+		return Math.floor(
+			this.random() * Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** attempt),
+		);
+	}
+
+	/**
+	 * Seconds until the first open circuit admits a trial request
+	 */
+	private retryAfter(): number {
+		const now = Date.now();
+		const waits = this.backends.map((backend) =>
+			backend.state === "open"
+				? (backend.openedAt ?? now) + this.options.breakerCooldown - now
+				: this.options.breakerCooldown,
+		);
+		return Math.max(1, Math.ceil(Math.min(...waits) / 1000));
+	}
+
+	private recordSuccess(backend: BackendState, latency: number): void {
+		backend.health = backend.health * (1 - HEALTH_DECAY) + HEALTH_DECAY;
+		backend.latency =
+			backend.latency === undefined
+				? latency
+				: backend.latency * (1 - HEALTH_DECAY) + latency * HEALTH_DECAY;
+		backend.consecutiveFailures = 0;
+		backend.lastSuccessAt = Date.now();
+		backend.state = "closed";
+		backend.openedAt = undefined;
+		backend.trialInFlight = false;
+	}
+
+	private recordFailure(backend: BackendState, error: string): void {
+		backend.health *= 1 - HEALTH_DECAY;
+		backend.consecutiveFailures++;
+		backend.lastFailureAt = Date.now();
+		backend.lastError = error;
+
+		// A failed trial re-opens the circuit at once
+		if (
+			backend.state === "half-open" ||
+			backend.consecutiveFailures >= this.options.breakerThreshold
+		) {
+			backend.state = "open";
+			backend.openedAt = Date.now();
+
+			if (import.meta.env.DEV) {
+				console.warn(`[BackendClient] Circuit opened for ${backend.url}`);
+			}
+		}
+		backend.trialInFlight = false;
+	}
+}
+
+// Singleton instance
+let instance: BackendClient | null = null;
+
+/**
+ * Get the singleton backend client
+ */
+export function getBackendClient(): BackendClient {
+	if (!instance) {
+		const config = getConfig();
+		instance = new BackendClient({
+			urls: config.rustApiUrls,
+			timeout: config.backendTimeout,
+			deadline: config.backendDeadline,
+			retries: config.backendRetries,
+			breakerThreshold: config.backendBreakerThreshold,
+			breakerCooldown: config.backendBreakerCooldown,
+		});
+	}
+	return instance;
+}
+
+/**
+ * Use `client` as the singleton, e.g. one with its own backends and fetch (for testing)
+ */
+export function setBackendClient(client: BackendClient): void {
+	instance = client;
+}
+
+/**
+ * Reset the singleton instance (for testing)
+ */
+export function resetBackendClient(): void {
+	instance = null;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { parseExtractResponse } from "./backend-schema";
+
+const validResponse = {
+	success: true,
+	platform: "tiktok",
+	title: "Clip",
+	thumbnail: null,
+	formats: [
+		{
+			format_id: "hd",
+			quality: "720p",
+			url: "https://cdn/a",
+			ext: "mp4",
+			filesize: null,
+		},
+	],
+};
+
+describe("parseExtractResponse", () => {
+	it("should accept a valid response, treating null as absent", () => {
+		const result = parseExtractResponse(validResponse);
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.platform).toBe("tiktok");
+			expect(result.value.thumbnail).toBeUndefined();
+			expect(result.value.formats[0].filesize).toBeUndefined();
+		}
+	});
+
+	it("should reject platforms outside the registry", () => {
+		const result = parseExtractResponse({
+			...validResponse,
+			platform: "vimeo",
+		});
+
+		expect(result).toEqual({
+			ok: false,
+			issues: ['platform: expected a supported platform, got "vimeo"'],
+		});
+	});
+
+	it("should report the path of every malformed field", () => {
+		const result = parseExtractResponse({
+			...validResponse,
+			formats: [{ quality: "720p", ext: "mp4" }, "oops"],
+			entries: [{ formats: [{ quality: 1, url: "u", ext: "jpg" }] }],
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.issues).toEqual([
+				"formats[0].url: expected a non-empty string, got undefined",
+				'formats[1]: expected an object, got "oops"',
+				"entries[0].formats[0].quality: expected a string, got number",
+			]);
+		}
+	});
+
+	it("should reject bodies that aren't objects", () => {
+		expect(parseExtractResponse("<html>")).toEqual({
+			ok: false,
+			issues: ['body: expected an object, got "<html>"'],
+		});
+		expect(parseExtractResponse({ formats: [] }).ok).toBe(false);
+	});
+
+	it("should accept failures without a known platform", () => {
+		const result = parseExtractResponse({
+			success: false,
+			platform: "unknown",
+			error: "Unsupported URL",
+		});
+
+		expect(result).toEqual({
+			ok: true,
+			value: {
+				success: false,
+				platform: undefined,
+				title: "",
+				formats: [],
+				error: "Unsupported URL",
+			},
+		});
+	});
+
+	it("should accept post metadata and reject malformed fields", () => {
+		const result = parseExtractResponse({
+			...validResponse,
+			uploader: "someone",
+			duration: 12.5,
+			like_count: null,
+			tags: ["a", "b"],
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.uploader).toBe("someone");
+			expect(result.value.duration).toBe(12.5);
+			expect(result.value.like_count).toBeUndefined();
+			expect(result.value.tags).toEqual(["a", "b"]);
+		}
+
+		expect(
+			parseExtractResponse({
+				...validResponse,
+				view_count: -1,
+				tags: ["a", 2],
+			}),
+		).toEqual({
+			ok: false,
+			issues: [
+				"view_count: expected a non-negative number, got number",
+				"tags: expected an array of strings, got array",
+			],
+		});
+	});
+});
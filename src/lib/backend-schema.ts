@@ -0,0 +1,280 @@
+import { isSupportedPlatform } from "@/constants/platforms";
+import type { SupportedPlatform } from "@/types/download";
+
+/**
+ * Runtime schema for the Rust backend's /api/extract response
+ *
+ * The backend is a separate deploy, so its JSON is checked field by field
+ * before anything reaches the UI. A mismatch yields the list of offending
+ * paths ("formats[2].url: expected a non-empty string, got undefined") for
+ * the logs instead of malformed results.
+ */
+
+export interface RustFormat {
+	format_id?: string;
+	quality: string;
+	url: string;
+	ext: string;
+	filesize?: number;
+}
+
+// One item of a multi-item post (e.g. an Instagram carousel)
+export interface RustMediaEntry {
+	title?: string;
+	thumbnail?: string;
+	formats: RustFormat[];
+}
+
+// Post details, named as yt-dlp reports them; all optional
+export interface RustPostMetadata {
+	uploader?: string;
+	description?: string;
+	duration?: number; // Seconds
+	view_count?: number;
+	like_count?: number;
+	comment_count?: number;
+	repost_count?: number;
+	timestamp?: number; // Unix seconds
+	upload_date?: string; // YYYYMMDD, when no timestamp is known
+	tags?: string[];
+}
+
+export interface RustExtractResponse extends RustPostMetadata {
+	success: boolean;
+	platform?: SupportedPlatform; // Always set on success
+	title: string;
+	thumbnail?: string;
+	formats: RustFormat[];
+	entries?: RustMediaEntry[]; // Present for carousels; `formats` is then empty
+	error?: string;
+}
+
+export type SchemaResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; issues: string[] };
+
+function describeValue(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (typeof value === "string") {
+		return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+	}
+	return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects issues while reading fields; optional fields accept null (serde's None)
+ */
+class Reader {
+	issues: string[] = [];
+
+	constructor(
+		private record: Record<string, unknown>,
+		private path: string,
+	) {}
+
+	private at(key: string): string {
+		return this.path ? `${this.path}.${key}` : key;
+	}
+
+	private fail(key: string, expected: string): undefined {
+		this.issues.push(
+			`${this.at(key)}: expected ${expected}, got ${describeValue(this.record[key])}`,
+		);
+		return undefined;
+	}
+
+	string(
+		key: string,
+		options: { nonEmpty?: boolean } = {},
+	): string | undefined {
+		const value = this.record[key];
+		if (typeof value !== "string" || (options.nonEmpty && value === "")) {
+			return this.fail(
+				key,
+				options.nonEmpty ? "a non-empty string" : "a string",
+			);
+		}
+		return value;
+	}
+
+	optionalString(key: string): string | undefined {
+		const value = this.record[key];
+		if (value === undefined || value === null) return undefined;
+		return typeof value === "string" ? value : this.fail(key, "a string");
+	}
+
+	boolean(key: string): boolean | undefined {
+		const value = this.record[key];
+		return typeof value === "boolean" ? value : this.fail(key, "a boolean");
+	}
+
+	optionalSize(key: string): number | undefined {
+		const value = this.record[key];
+		if (value === undefined || value === null) return undefined;
+		return typeof value === "number" && Number.isFinite(value) && value >= 0
+			? value
+			: this.fail(key, "a non-negative number");
+	}
+
+	array(
+		key: string,
+		options: { optional?: boolean } = {},
+	): unknown[] | undefined {
+		const value = this.record[key];
+		if (options.optional && (value === undefined || value === null)) {
+			return undefined;
+		}
+		return Array.isArray(value) ? value : this.fail(key, "an array");
+	}
+
+	optionalStrings(key: string): string[] | undefined {
+		const value = this.record[key];
+		if (value === undefined || value === null) return undefined;
+		return Array.isArray(value) &&
+			value.every((item) => typeof item === "string")
+			? value
+			: this.fail(key, "an array of strings");
+	}
+
+	platform(key: string): SupportedPlatform | undefined {
+		const value = this.record[key];
+		return isSupportedPlatform(value)
+			? value
+			: this.fail(key, "a supported platform");
+	}
+}
+
+function parseFormats(
+	values: unknown[] | undefined,
+	path: string,
+	issues: string[],
+): RustFormat[] {
+	const formats: RustFormat[] = [];
+
+	for (const [index, value] of (values ?? []).entries()) {
+		const formatPath = `${path}[${index}]`;
+		if (!isRecord(value)) {
+			issues.push(
+				`${formatPath}: expected an object, got ${describeValue(value)}`,
+			);
+			continue;
+		}
+
+		const reader = new Reader(value, formatPath);
+		const format = {
+			format_id: reader.optionalString("format_id"),
+			quality: reader.string("quality"),
+			url: reader.string("url", { nonEmpty: true }),
+			ext: reader.string("ext"),
+			filesize: reader.optionalSize("filesize"),
+		};
+		issues.push(...reader.issues);
+
+		if (reader.issues.length === 0) {
+			formats.push(format as RustFormat);
+		}
+	}
+
+	return formats;
+}
+
+/**
+ * Check a parsed /api/extract body against the backend contract
+ * Successful responses must name a registered platform; failed ones only need
+ * `success: false`, and an unrecognised platform on them is dropped.
+ */
+export function parseExtractResponse(
+	body: unknown,
+): SchemaResult<RustExtractResponse> {
+	if (!isRecord(body)) {
+		return {
+			ok: false,
+			issues: [`body: expected an object, got ${describeValue(body)}`],
+		};
+	}
+
+	const reader = new Reader(body, "");
+	const success = reader.boolean("success");
+
+	if (success !== true) {
+		return reader.issues.length > 0
+			? { ok: false, issues: reader.issues }
+			: {
+					ok: true,
+					value: {
+						success: false,
+						platform: isSupportedPlatform(body.platform)
+							? body.platform
+							: undefined,
+						title: typeof body.title === "string" ? body.title : "",
+						formats: [],
+						error: reader.optionalString("error"),
+					},
+				};
+	}
+
+	const issues = reader.issues;
+	const platform = reader.platform("platform");
+	const title = reader.string("title");
+	const thumbnail = reader.optionalString("thumbnail");
+	const formats = parseFormats(reader.array("formats"), "formats", issues);
+
+	const metadata: RustPostMetadata = {
+		uploader: reader.optionalString("uploader"),
+		description: reader.optionalString("description"),
+		duration: reader.optionalSize("duration"),
+		view_count: reader.optionalSize("view_count"),
+		like_count: reader.optionalSize("like_count"),
+		comment_count: reader.optionalSize("comment_count"),
+		repost_count: reader.optionalSize("repost_count"),
+		timestamp: reader.optionalSize("timestamp"),
+		upload_date: reader.optionalString("upload_date"),
+		tags: reader.optionalStrings("tags"),
+	};
+
+	const entryValues = reader.array("entries", { optional: true });
+	const entries = entryValues?.map((value, index): RustMediaEntry => {
+		const entryPath = `entries[${index}]`;
+		if (!isRecord(value)) {
+			issues.push(
+				`${entryPath}: expected an object, got ${describeValue(value)}`,
+			);
+			return { formats: [] };
+		}
+
+		const entryReader = new Reader(value, entryPath);
+		const entry = {
+			title: entryReader.optionalString("title"),
+			thumbnail: entryReader.optionalString("thumbnail"),
+			formats: parseFormats(
+				entryReader.array("formats"),
+				`${entryPath}.formats`,
+				issues,
+			),
+		};
+		issues.push(...entryReader.issues);
+		return entry;
+	});
+
+	if (issues.length > 0) {
+		return { ok: false, issues };
+	}
+
+	return {
+		ok: true,
+		value: {
+			success: true,
+			platform,
+			title: title ?? "",
+			thumbnail,
+			formats,
+			entries,
+			...metadata,
+		},
+	};
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+	it("should preserve input order", async () => {
+		const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+			await delay(ms);
+			return ms;
+		});
+		expect(results).toEqual([30, 10, 20]);
+	});
+
+	it("should never exceed the concurrency limit", async () => {
+		let active = 0;
+		let peak = 0;
+
+		await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+			active++;
+			peak = Math.max(peak, active);
+			await delay(5);
+			active--;
+		});
+
+		expect(peak).toBe(3);
+	});
+
+	it("should handle empty input", async () => {
+		const results = await mapWithConcurrency([], 4, async () => 1);
+		expect(results).toEqual([]);
+	});
+});
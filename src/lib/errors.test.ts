@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { classifyBackendError, describeError, ERROR_DETAILS } from "./errors";
+
+describe("classifyBackendError", () => {
+	it("should classify common backend messages", () => {
+		expect(classifyBackendError("This account is private", 500)).toBe(
+			"CONTENT_PRIVATE",
+		);
+		expect(
+			classifyBackendError(
+				"Requested content is not available, login required",
+				500,
+			),
+		).toBe("CONTENT_PRIVATE");
+		expect(classifyBackendError("Video has been removed", 500)).toBe(
+			"CONTENT_NOT_FOUND",
+		);
+		expect(classifyBackendError("Read timed out", 500)).toBe("BACKEND_TIMEOUT");
+		expect(classifyBackendError("Unsupported URL: https://x", 500)).toBe(
+			"UNSUPPORTED_PLATFORM",
+		);
+	});
+
+	it("should fall back to the HTTP status", () => {
+		expect(classifyBackendError(undefined, 404)).toBe("CONTENT_NOT_FOUND");
+		expect(classifyBackendError(undefined, 403)).toBe("CONTENT_PRIVATE");
+		expect(classifyBackendError(undefined, 503)).toBe("BACKEND_UNAVAILABLE");
+		expect(classifyBackendError("Something odd", 200)).toBe(
+			"EXTRACTION_FAILED",
+		);
+	});
+});
+
+describe("describeError", () => {
+	it("should pick the message and retry behavior from the code", () => {
+		expect(describeError("RATE_LIMITED", "Rate limit exceeded")).toEqual(
+			ERROR_DETAILS.RATE_LIMITED,
+		);
+		expect(describeError("CONTENT_PRIVATE").retryable).toBe(false);
+	});
+
+	it("should fall back to the error text for unknown codes", () => {
+		expect(describeError("SOMETHING_NEW", "Custom text")).toEqual({
+			message: "Custom text",
+			retryable: true,
+		});
+	});
+});
@@ -0,0 +1,152 @@
+import type { ErrorCode } from "@/types/download";
+
+/**
+ * Error codes shared by the API routes and the UI
+ * The server maps every failure to a code; the UI picks its copy and retry
+ * behaviour from the code rather than from the error text.
+ */
+
+export interface ErrorDetails {
+	message: string; // Text shown to the user
+	retryable: boolean; // Whether trying the same URL again can succeed
+}
+
+export const ERROR_DETAILS: Record<ErrorCode, ErrorDetails> = {
+	INVALID_REQUEST: {
+		message: "The request was malformed. Please reload the page and try again.",
+		retryable: false,
+	},
+	INVALID_URL: {
+		message: "That doesn't look like a link to a post. Check the URL.",
+		retryable: false,
+	},
+	UNSUPPORTED_PLATFORM: {
+		message: "This site isn't supported yet.",
+		retryable: false,
+	},
+	RATE_LIMITED: {
+		message: "Too many requests. Please wait a moment and try again.",
+		retryable: true,
+	},
+	CONTENT_PRIVATE: {
+		message: "This post is private or requires a login.",
+		retryable: false,
+	},
+	CONTENT_NOT_FOUND: {
+		message: "This post doesn't exist or has been removed.",
+		retryable: false,
+	},
+	EXTRACTION_FAILED: {
+		message: "No downloadable media was found in this post.",
+		retryable: true,
+	},
+	BACKEND_TIMEOUT: {
+		message: "The download service took too long to respond.",
+		retryable: true,
+	},
+	BACKEND_UNAVAILABLE: {
+		message: "The download service is unavailable right now.",
+		retryable: true,
+	},
+	BACKEND_PROTOCOL_ERROR: {
+		message: "The download service sent an unexpected response.",
+		retryable: true,
+	},
+	INTERNAL_ERROR: {
+		message: "Something went wrong on our side.",
+		retryable: true,
+	},
+	OFFLINE: {
+		message:
+			"You're offline. This link will be extracted when you're back online.",
+		retryable: false,
+	},
+};
+
+/**
+ * Check whether a value is a known error code
+ */
+export function isErrorCode(value: unknown): value is ErrorCode {
+	return typeof value === "string" && Object.hasOwn(ERROR_DETAILS, value);
+}
+
+/**
+ * User-facing details for a failed response
+ * Responses without a known code (older servers, network failures) fall back
+ * to their own error text.
+ */
+export function describeError(
+	code: unknown,
+	fallbackMessage?: string,
+): ErrorDetails {
+	if (isErrorCode(code)) {
+		return ERROR_DETAILS[code];
+	}
+	return {
+		message: fallbackMessage || "Failed to download content. Please try again.",
+		retryable: true,
+	};
+}
+
+// HTTP status used when a failure is reported with a given code
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+	INVALID_REQUEST: 400,
+	INVALID_URL: 400,
+	UNSUPPORTED_PLATFORM: 400,
+	RATE_LIMITED: 429,
+	CONTENT_PRIVATE: 403,
+	CONTENT_NOT_FOUND: 404,
+	EXTRACTION_FAILED: 422,
+	BACKEND_TIMEOUT: 504,
+	BACKEND_UNAVAILABLE: 503,
+	BACKEND_PROTOCOL_ERROR: 502,
+	INTERNAL_ERROR: 500,
+	OFFLINE: 503,
+};
+
+// Backend (yt-dlp) error texts, checked in order
+const BACKEND_ERROR_PATTERNS: [RegExp, ErrorCode][] = [
+	[
+		/private|log ?in|sign ?in|authenticat|age[- ]restrict|cookies/i,
+		"CONTENT_PRIVATE",
+	],
+	[
+		/not found|404|removed|deleted|does not exist|no longer available/i,
+		"CONTENT_NOT_FOUND",
+	],
+	[/timed? ?out/i, "BACKEND_TIMEOUT"],
+	[/unsupported url|unsupported platform/i, "UNSUPPORTED_PLATFORM"],
+	[/rate[- ]limit|too many requests|429/i, "RATE_LIMITED"],
+];
+
+/**
+ * Map a failed backend extraction to an error code
+ */
+export function classifyBackendError(
+	message: string | undefined,
+	status: number,
+): ErrorCode {
+	for (const [pattern, code] of BACKEND_ERROR_PATTERNS) {
+		if (message && pattern.test(message)) {
+			return code;
+		}
+	}
+
+	switch (status) {
+		case 401:
+		case 403:
+			return "CONTENT_PRIVATE";
+		case 404:
+		case 410:
+			return "CONTENT_NOT_FOUND";
+		case 429:
+			return "RATE_LIMITED";
+		case 502:
+		case 503:
+			return "BACKEND_UNAVAILABLE";
+		case 504:
+			return "BACKEND_TIMEOUT";
+		default:
+			return "EXTRACTION_FAILED";
+	}
+}
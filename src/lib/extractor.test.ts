@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	BackendClient,
+	resetBackendClient,
+	setBackendClient,
+} from "./backend-client";
+import { extractMedia } from "./extractor";
+import { getPlatformStats, resetPlatformStats } from "./platform-stats";
+
+const originalFetch = globalThis.fetch;
+
+// Answer the backend's /api/extract call with `body` (strings are sent as-is)
+function mockBackend(body: unknown): void {
+	globalThis.fetch = (async () =>
+		new Response(typeof body === "string" ? body : JSON.stringify(body), {
+			status: 200,
+			headers: { "Content-Type": "application/json" },
+		})) as unknown as typeof fetch;
+}
+
+// Its own client, so these tests don't depend on how the config is set up or mocked
+beforeEach(() => {
+	setBackendClient(
+		new BackendClient({
+			urls: ["http://backend.test"],
+			timeout: 1000,
+			deadline: 1000,
+			retries: 0,
+			breakerThreshold: 100,
+			breakerCooldown: 1000,
+		}),
+	);
+});
+
+afterEach(() => {
+	globalThis.fetch = originalFetch;
+	resetBackendClient();
+});
+
+describe("extractMedia", () => {
+	it("should model a single-item post as one media item", async () => {
+		mockBackend({
+			success: true,
+			platform: "tiktok",
+			title: "Clip",
+			formats: [
+				{ format_id: "hd", quality: "720p", url: "u1", ext: "mp4" },
+				{ format_id: "audio", quality: "audio", url: "u2", ext: "m4a" },
+			],
+		});
+
+		const { status, response } = await extractMedia(
+			"https://www.tiktok.com/@user/video/123",
+		);
+
+		expect(status).toBe(200);
+		expect(response.media).toHaveLength(1);
+		expect(response.media?.[0].type).toBe("video");
+		expect(response.media?.[0].formats).toHaveLength(2);
+		expect(response.results).toHaveLength(2);
+		expect(response.results?.[0].downloadUrl).not.toContain("item=");
+	});
+
+	it("should map the post's metadata onto every format", async () => {
+		mockBackend({
+			success: true,
+			platform: "youtube",
+			title: "Clip",
+			formats: [{ format_id: "hd", quality: "720p", url: "u1", ext: "mp4" }],
+			uploader: "channel",
+			description: "Caption #tag",
+			duration: 61,
+			view_count: 1000,
+			repost_count: 3,
+			upload_date: "20250305",
+			tags: [],
+		});
+
+		const { response } = await extractMedia(
+			"https://www.youtube.com/shorts/abc123",
+		);
+
+		expect(response.results?.[0].metadata).toEqual({
+			author: "channel",
+			description: "Caption #tag",
+			duration: 61,
+			playCount: 1000,
+			shareCount: 3,
+			createdAt: "2025-03-05T00:00:00.000Z",
+		});
+	});
+
+	it("should keep carousel items in order with their own formats", async () => {
+		mockBackend({
+			success: true,
+			platform: "instagram",
+			title: "Trip",
+			formats: [],
+			entries: [
+				{
+					thumbnail: "t1",
+					formats: [{ format_id: "0", quality: "best", url: "a", ext: "jpg" }],
+				},
+				{
+					thumbnail: "t2",
+					formats: [
+						{ format_id: "1", quality: "720p", url: "b", ext: "mp4" },
+						{ format_id: "2", quality: "480p", url: "c", ext: "mp4" },
+					],
+				},
+			],
+		});
+
+		const { response } = await extractMedia(
+			"https://www.instagram.com/p/ABC123/",
+		);
+
+		expect(response.media?.map((item) => [item.index, item.type])).toEqual([
+			[1, "image"],
+			[2, "video"],
+		]);
+		expect(response.media?.[1].thumbnail).toBe("t2");
+		expect(response.media?.[1].formats[0].downloadUrl).toContain("item=2");
+		expect(response.results?.map((result) => result.itemIndex)).toEqual([
+			1, 2, 2,
+		]);
+	});
+
+	it("should put the preferred quality first and honour audio-only", async () => {
+		const backend = {
+			success: true,
+			platform: "youtube",
+			title: "Song",
+			formats: [
+				{ format_id: "18", quality: "360p", url: "a", ext: "mp4" },
+				{ format_id: "22", quality: "720p", url: "b", ext: "mp4" },
+				{ format_id: "140", quality: "audio", url: "c", ext: "m4a" },
+			],
+		};
+		const url = "https://www.youtube.com/shorts/dQw4w9WgXcQ";
+
+		mockBackend(backend);
+		const hd = await extractMedia(url, undefined, { quality: "hd" });
+		expect(hd.response.results?.map((result) => result.formatId)).toEqual([
+			"22",
+			"18",
+			"140",
+		]);
+
+		mockBackend(backend);
+		const audio = await extractMedia(url, undefined, { quality: "audio" });
+		expect(audio.response.results?.map((result) => result.formatId)).toEqual([
+			"140",
+		]);
+	});
+
+	it("should map backend errors to error codes", async () => {
+		mockBackend({
+			success: false,
+			platform: "instagram",
+			title: "",
+			formats: [],
+			error: "This content isn't available: login required",
+		});
+
+		const { status, response } = await extractMedia(
+			"https://www.instagram.com/p/ABC123/",
+		);
+
+		expect(status).toBe(403);
+		expect(response.code).toBe("CONTENT_PRIVATE");
+	});
+
+	it("should report protocol errors for responses breaking the schema", async () => {
+		const url = "https://www.tiktok.com/@user/video/123";
+
+		mockBackend("<html>Bad Gateway</html>");
+		const html = await extractMedia(url);
+		expect(html.status).toBe(502);
+		expect(html.response.code).toBe("BACKEND_PROTOCOL_ERROR");
+
+		mockBackend({
+			success: true,
+			platform: "myspace",
+			title: "Clip",
+			formats: [{ quality: "720p", url: "u", ext: "mp4" }],
+		});
+		const unknownPlatform = await extractMedia(url);
+		expect(unknownPlatform.response.code).toBe("BACKEND_PROTOCOL_ERROR");
+	});
+
+	it("should stop the backend request, without retries, once aborted", async () => {
+		setBackendClient(
+			new BackendClient({
+				urls: ["http://backend.test"],
+				timeout: 1000,
+				deadline: 1000,
+				retries: 2,
+				breakerThreshold: 100,
+				breakerCooldown: 1000,
+			}),
+		);
+		resetPlatformStats();
+		let calls = 0;
+		globalThis.fetch = ((_input: string, init?: RequestInit) => {
+			calls++;
+			return new Promise((_, reject) =>
+				init?.signal?.addEventListener("abort", () =>
+					reject(init.signal?.reason),
+				),
+			);
+		}) as unknown as typeof fetch;
+
+		const controller = new AbortController();
+		const extraction = extractMedia(
+			"https://www.tiktok.com/@user/video/123",
+			undefined,
+			{},
+			controller.signal,
+		);
+		controller.abort();
+
+		await expect(extraction).rejects.toThrow();
+		expect(calls).toBe(1);
+		// Abandoned, not failed: the platform's record is untouched
+		expect(getPlatformStats().status("tiktok").samples).toBe(0);
+	});
+
+	it("should fail when the backend returns no media", async () => {
+		mockBackend({
+			success: true,
+			platform: "instagram",
+			title: "",
+			formats: [],
+		});
+
+		const { status, response } = await extractMedia(
+			"https://www.instagram.com/p/ABC123/",
+		);
+
+		expect(status).toBe(422);
+		expect(response.success).toBe(false);
+		expect(response.code).toBe("EXTRACTION_FAILED");
+	});
+});
@@ -0,0 +1,438 @@
+import {
+	BackendUnavailableError,
+	getBackendClient,
+	UNHEALTHY_STATUSES,
+} from "@/lib/backend-client";
+import {
+	parseExtractResponse,
+	type RustExtractResponse,
+	type RustMediaEntry,
+	type RustPostMetadata,
+} from "@/lib/backend-schema";
+import { classifyBackendError, ERROR_STATUS } from "@/lib/errors";
+import { getPlatformStats } from "@/lib/platform-stats";
+import { detectPlatform } from "@/lib/validation";
+import type {
+	DownloadMetadata,
+	DownloadResponse,
+	DownloadResult,
+	ExtractionProgressEvent,
+	MediaItem,
+	QualityPreference,
+	SupportedPlatform,
+} from "@/types/download";
+
+/**
+ * Client for the Rust extraction backend
+ * Shared by every route that needs to turn a social media URL into results
+ */
+
+// Format extensions that are still images rather than video/audio
+const IMAGE_EXTENSIONS = ["jpg", "jpeg", "png", "webp", "gif", "heic"];
+
+/**
+ * Use the backend's platform when the registry knows it, else detect it from the URL
+ */
+function resolvePlatform(
+	backendPlatform: SupportedPlatform | undefined,
+	url: string,
+): SupportedPlatform {
+	return backendPlatform ?? (detectPlatform(url) as SupportedPlatform);
+}
+
+function isImageExt(ext?: string): boolean {
+	return ext !== undefined && IMAGE_EXTENSIONS.includes(ext);
+}
+
+/**
+ * The post's media entries in order; single-item posts carry their formats at the top level
+ */
+function mediaEntries(rustResponse: RustExtractResponse): RustMediaEntry[] {
+	if (rustResponse.entries?.length) {
+		return rustResponse.entries;
+	}
+	return rustResponse.formats?.length
+		? [{ thumbnail: rustResponse.thumbnail, formats: rustResponse.formats }]
+		: [];
+}
+
+/**
+ * Post creation time as ISO 8601, from the Unix timestamp or else the YYYYMMDD date
+ */
+function postCreatedAt(post: RustPostMetadata): string | undefined {
+	if (post.timestamp !== undefined) {
+		return new Date(post.timestamp * 1000).toISOString();
+	}
+	const date = post.upload_date?.match(/^(\d{4})(\d{2})(\d{2})$/);
+	if (date) {
+		const [, year, month, day] = date;
+		return new Date(
+			Date.UTC(Number(year), Number(month) - 1, Number(day)),
+		).toISOString();
+	}
+	return undefined;
+}
+
+/**
+ * Map the backend's post details; undefined when it sent none
+ */
+function transformMetadata(
+	post: RustPostMetadata,
+): DownloadMetadata | undefined {
+	const metadata: DownloadMetadata = {
+		author: post.uploader || undefined,
+		description: post.description || undefined,
+		duration: post.duration || undefined,
+		playCount: post.view_count,
+		likeCount: post.like_count,
+		commentCount: post.comment_count,
+		shareCount: post.repost_count,
+		createdAt: postCreatedAt(post),
+		tags: post.tags?.length ? post.tags : undefined,
+	};
+	return Object.values(metadata).some((value) => value !== undefined)
+		? metadata
+		: undefined;
+}
+
+/**
+ * Transform Rust API response to frontend media items
+ */
+function transformRustResponse(
+	rustResponse: RustExtractResponse,
+	originalUrl: string,
+): MediaItem[] {
+	const platform = resolvePlatform(rustResponse.platform, originalUrl);
+	const entries = mediaEntries(rustResponse);
+	const isCarousel = entries.length > 1;
+	const metadata = transformMetadata(rustResponse);
+
+	return entries.map((entry, entryIndex) => {
+		const index = entryIndex + 1;
+
+		const formats = entry.formats.map((format, formatIndex): DownloadResult => {
+			// Prefer the backend's own format id; older backends only send a quality label
+			const formatId = format.format_id || format.quality;
+			const ext = format.ext?.toLowerCase();
+
+			// Route downloads through our own proxy so the backend URL stays server-side;
+			// the proxy asks the yt-dlp download endpoint for exactly this format
+			const params = new URLSearchParams({
+				url: originalUrl,
+				format: formatId,
+			});
+			if (ext) {
+				params.set("ext", ext);
+			}
+			if (isCarousel) {
+				params.set("item", index.toString());
+			}
+			const downloadUrl = `/api/file?${params.toString()}`;
+
+			return {
+				id: `${platform}-${Date.now()}-${index}-${formatIndex}`,
+				type: isImageExt(ext) ? "image" : "video",
+				url: originalUrl,
+				thumbnail: entry.thumbnail ?? rustResponse.thumbnail,
+				downloadUrl,
+				formatId,
+				ext,
+				itemIndex: index,
+				title: entry.title || rustResponse.title,
+				size: format.filesize ? formatFileSize(format.filesize) : "Unknown",
+				platform,
+				quality: parseQuality(format.quality),
+				isMock: false,
+				metadata,
+			};
+		});
+
+		return {
+			index,
+			// An item is a photo only when none of its formats is video or audio
+			type: formats.every((format) => format.type === "image")
+				? "image"
+				: "video",
+			thumbnail: entry.thumbnail ?? rustResponse.thumbnail,
+			formats,
+		};
+	});
+}
+
+function formatFileSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function parseQuality(quality: string): QualityPreference {
+	const q = quality.toLowerCase();
+	if (q.includes("1080") || q.includes("720") || q === "best" || q === "hd") {
+		return "hd";
+	}
+	if (q.includes("audio")) {
+		return "audio";
+	}
+	return "sd";
+}
+
+/**
+ * Order each item's formats so the preferred quality comes first
+ * An audio preference drops the video formats of items that have an audio one.
+ */
+function applyQualityPreference(
+	media: MediaItem[],
+	quality?: QualityPreference,
+): MediaItem[] {
+	if (!quality) {
+		return media;
+	}
+
+	return media.map((item) => {
+		const preferred = item.formats.filter(
+			(format) => format.quality === quality,
+		);
+		if (quality === "audio" && preferred.length > 0) {
+			return { ...item, formats: preferred };
+		}
+		const others = item.formats.filter((format) => format.quality !== quality);
+		return { ...item, formats: [...preferred, ...others] };
+	});
+}
+
+/**
+ * Read and check the backend's response; null when it breaks the contract
+ * Mismatches are always logged: they mean the backend deploy and this app
+ * disagree, which only shows up in production logs.
+ */
+async function readExtractResponse(
+	rustResponse: Response,
+): Promise<RustExtractResponse | null> {
+	const text = await rustResponse.text();
+	const context = {
+		status: rustResponse.status,
+		contentType: rustResponse.headers.get("content-type"),
+		body: text.slice(0, 500),
+	};
+
+	let body: unknown;
+	try {
+		body = JSON.parse(text);
+	} catch {
+		console.error("Backend protocol error: response is not JSON", context);
+		return null;
+	}
+
+	const parsed = parseExtractResponse(body);
+	if (!parsed.ok) {
+		console.error("Backend protocol error: response does not match schema", {
+			...context,
+			issues: parsed.issues,
+		});
+		return null;
+	}
+
+	return parsed.value;
+}
+
+export interface ExtractPreferences {
+	quality?: QualityPreference;
+}
+
+export interface ExtractOutcome {
+	status: number;
+	response: DownloadResponse;
+	retryAfter?: number; // Seconds, sent as Retry-After when set
+}
+
+/**
+ * Extract download results for a validated URL
+ * Network failures are thrown; use isBackendConnectionError to classify them.
+ * `onProgress` is told when the backend is contacted and when formats arrive.
+ * The quality preference is forwarded to the backend and orders the results.
+ * Aborting `signal` stops the backend request and any retries.
+ * Every outcome is recorded in the platform stats behind /api/status, except
+ * abandoned requests, which say nothing about the platform.
+ */
+export async function extractMedia(
+	url: string,
+	onProgress?: (event: ExtractionProgressEvent) => void,
+	preferences: ExtractPreferences = {},
+	signal?: AbortSignal,
+): Promise<ExtractOutcome> {
+	const stats = getPlatformStats();
+	try {
+		const outcome = await requestExtraction(
+			url,
+			onProgress,
+			preferences,
+			signal,
+		);
+		const platform = outcome.response.platform ?? detectPlatform(url);
+		if (platform) {
+			stats.record(platform, outcome.response.success, outcome.response.code);
+		}
+		return outcome;
+	} catch (error) {
+		const platform = detectPlatform(url);
+		if (platform && !signal?.aborted) {
+			stats.record(
+				platform,
+				false,
+				extractionErrorOutcome(error).response.code,
+			);
+		}
+		throw error;
+	}
+}
+
+async function requestExtraction(
+	url: string,
+	onProgress: ((event: ExtractionProgressEvent) => void) | undefined,
+	preferences: ExtractPreferences,
+	signal: AbortSignal | undefined,
+): Promise<ExtractOutcome> {
+	// Extraction has no side effects, so the client may retry it on another backend
+	onProgress?.({ stage: "backend" });
+	const rustResponse = await getBackendClient().request(
+		"/api/extract",
+		{
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ url, quality: preferences.quality }),
+		},
+		{ idempotent: true, signal },
+	);
+
+	// Every backend attempt hit a gateway error; its body is the proxy's, not ours
+	if (UNHEALTHY_STATUSES.includes(rustResponse.status)) {
+		await rustResponse.body?.cancel();
+		const code = classifyBackendError(undefined, rustResponse.status);
+		return {
+			status: ERROR_STATUS[code],
+			response: {
+				success: false,
+				code,
+				error: `Download service responded with ${rustResponse.status}`,
+			},
+		};
+	}
+
+	const rustData = await readExtractResponse(rustResponse);
+	if (!rustData) {
+		return {
+			status: ERROR_STATUS.BACKEND_PROTOCOL_ERROR,
+			response: {
+				success: false,
+				code: "BACKEND_PROTOCOL_ERROR",
+				error: "The download service sent an invalid response.",
+			},
+		};
+	}
+
+	const entries = mediaEntries(rustData);
+	onProgress?.({
+		stage: "formats",
+		platform: resolvePlatform(rustData.platform, url),
+		formatCount: entries.reduce((sum, entry) => sum + entry.formats.length, 0),
+	});
+
+	if (!rustData.success || entries.length === 0) {
+		const code = classifyBackendError(rustData.error, rustResponse.status);
+		return {
+			status: ERROR_STATUS[code],
+			response: {
+				success: false,
+				code,
+				error: rustData.error || "Failed to extract download links",
+				platform: resolvePlatform(rustData.platform, url),
+			},
+		};
+	}
+
+	// Transform to frontend format
+	const media = applyQualityPreference(
+		transformRustResponse(rustData, url),
+		preferences.quality,
+	);
+	return {
+		status: 200,
+		response: {
+			success: true,
+			media,
+			results: media.flatMap((item) => item.formats),
+			platform: resolvePlatform(rustData.platform, url),
+		},
+	};
+}
+
+/**
+ * Check whether an extraction error means the Rust service is unreachable
+ */
+export function isBackendConnectionError(error: unknown): boolean {
+	return (
+		error instanceof Error &&
+		(error.message.includes("ECONNREFUSED") ||
+			error.message.includes("fetch failed"))
+	);
+}
+
+/**
+ * Check whether an extraction error is our own request timeout
+ */
+function isTimeoutError(error: unknown): boolean {
+	return (
+		error instanceof Error &&
+		(error.name === "AbortError" || error.name === "TimeoutError")
+	);
+}
+
+/**
+ * Map an error thrown by extractMedia to a client-safe failure outcome
+ */
+export function extractionErrorOutcome(error: unknown): ExtractOutcome {
+	if (error instanceof BackendUnavailableError) {
+		return {
+			status: ERROR_STATUS.BACKEND_UNAVAILABLE,
+			response: {
+				success: false,
+				code: "BACKEND_UNAVAILABLE",
+				error:
+					"Download service is temporarily unavailable. Please try again shortly.",
+			},
+			retryAfter: error.retryAfter,
+		};
+	}
+
+	if (isBackendConnectionError(error)) {
+		return {
+			status: ERROR_STATUS.BACKEND_UNAVAILABLE,
+			response: {
+				success: false,
+				code: "BACKEND_UNAVAILABLE",
+				error:
+					"Download service unavailable. Please ensure the backend is running.",
+			},
+		};
+	}
+
+	if (isTimeoutError(error)) {
+		return {
+			status: ERROR_STATUS.BACKEND_TIMEOUT,
+			response: {
+				success: false,
+				code: "BACKEND_TIMEOUT",
+				error: "Download service timed out. Please try again.",
+			},
+		};
+	}
+
+	return {
+		status: ERROR_STATUS.INTERNAL_ERROR,
+		response: {
+			success: false,
+			code: "INTERNAL_ERROR",
+			error: "An unexpected error occurred. Please try again later.",
+		},
+	};
+}
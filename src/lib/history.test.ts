@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { DownloadResult } from "@/types/download";
+import {
+	createHistoryEntry,
+	filterHistory,
+	type HistoryEntry,
+} from "./history";
+
+function format(overrides: Partial<DownloadResult> = {}): DownloadResult {
+	return {
+		id: "f1",
+		type: "video",
+		url: "https://www.tiktok.com/@user/video/1",
+		downloadUrl: "/api/file?url=x",
+		title: "Dance clip",
+		platform: "tiktok",
+		...overrides,
+	};
+}
+
+function entry(overrides: Partial<HistoryEntry>): HistoryEntry {
+	return {
+		url: "https://www.tiktok.com/@user/video/1",
+		platform: "tiktok",
+		title: "Dance clip",
+		formats: [format()],
+		createdAt: 0,
+		...overrides,
+	};
+}
+
+describe("createHistoryEntry", () => {
+	it("should key entries by the canonical URL", () => {
+		const created = createHistoryEntry(
+			"https://vm.tiktok.com/abc",
+			{
+				success: true,
+				platform: "tiktok",
+				canonicalUrl: "https://www.tiktok.com/@user/video/1",
+				results: [format(), format({ id: "f2", thumbnail: "thumb" })],
+			},
+			1000,
+		);
+
+		expect(created).toEqual({
+			url: "https://www.tiktok.com/@user/video/1",
+			platform: "tiktok",
+			title: "Dance clip",
+			thumbnail: "thumb",
+			formats: expect.any(Array),
+			createdAt: 1000,
+		});
+	});
+
+	it("should skip failed or empty extractions", () => {
+		expect(createHistoryEntry("u", { success: false })).toBeNull();
+		expect(createHistoryEntry("u", { success: true, results: [] })).toBeNull();
+	});
+});
+
+describe("filterHistory", () => {
+	const entries = [
+		entry({}),
+		entry({
+			url: "https://x.com/someone/status/2",
+			platform: "twitter",
+			title: "Launch video",
+			formats: [format({ metadata: { author: "SpaceFan" } })],
+		}),
+	];
+
+	it("should search titles, URLs and authors case-insensitively", () => {
+		expect(filterHistory(entries, { query: "DANCE" })).toHaveLength(1);
+		expect(filterHistory(entries, { query: "x.com" })[0].platform).toBe(
+			"twitter",
+		);
+		expect(filterHistory(entries, { query: "spacefan" })).toHaveLength(1);
+		expect(filterHistory(entries, { query: "  " })).toHaveLength(2);
+	});
+
+	it("should filter by platform", () => {
+		expect(filterHistory(entries, { platform: "twitter" })).toHaveLength(1);
+		expect(filterHistory(entries, { platform: null })).toHaveLength(2);
+		expect(
+			filterHistory(entries, { platform: "tiktok", query: "launch" }),
+		).toHaveLength(0);
+	});
+});
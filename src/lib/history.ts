@@ -0,0 +1,171 @@
+import type {
+	DownloadResponse,
+	DownloadResult,
+	SupportedPlatform,
+} from "@/types/download";
+
+/**
+ * Download history kept in the browser's IndexedDB
+ * One entry per post (keyed by its canonical URL), so extracting a post again
+ * moves it to the top instead of adding a duplicate.
+ */
+
+const DB_NAME = "snatch";
+const DB_VERSION = 1;
+const STORE_NAME = "history";
+
+// Oldest entries beyond this are dropped
+const MAX_ENTRIES = 200;
+
+// localStorage key for the opt-out; "off" disables history
+const HISTORY_SETTING_KEY = "snatch:history";
+
+export interface HistoryEntry {
+	url: string; // Canonical post URL; also the key
+	platform: SupportedPlatform;
+	title: string;
+	thumbnail?: string;
+	formats: DownloadResult[];
+	createdAt: number;
+}
+
+export interface HistoryFilter {
+	query?: string;
+	platform?: SupportedPlatform | null;
+}
+
+/**
+ * History entry for a successful extraction; null when there is nothing to keep
+ */
+export function createHistoryEntry(
+	url: string,
+	response: DownloadResponse,
+	now = Date.now(),
+): HistoryEntry | null {
+	const formats = response.results ?? [];
+	const first = formats[0];
+	if (!response.success || !first) {
+		return null;
+	}
+
+	return {
+		url: response.canonicalUrl ?? url,
+		platform: response.platform ?? first.platform,
+		title: first.title,
+		thumbnail: formats.find((format) => format.thumbnail)?.thumbnail,
+		formats,
+		createdAt: now,
+	};
+}
+
+/**
+ * Entries matching a platform and a case-insensitive search over title, URL and author
+ */
+export function filterHistory(
+	entries: HistoryEntry[],
+	filter: HistoryFilter,
+): HistoryEntry[] {
+	const query = filter.query?.trim().toLowerCase();
+
+	return entries.filter((entry) => {
+		if (filter.platform && entry.platform !== filter.platform) {
+			return false;
+		}
+		if (!query) {
+			return true;
+		}
+		return [entry.title, entry.url, entry.formats[0]?.metadata?.author]
+			.filter(Boolean)
+			.some((field) => field?.toLowerCase().includes(query));
+	});
+}
+
+/**
+ * Whether history is on; storage can be unavailable (private mode)
+ */
+export function isHistoryEnabled(): boolean {
+	try {
+		return localStorage.getItem(HISTORY_SETTING_KEY) !== "off";
+	} catch {
+		return false;
+	}
+}
+
+export function saveHistoryEnabled(enabled: boolean): void {
+	try {
+		if (enabled) {
+			localStorage.removeItem(HISTORY_SETTING_KEY);
+		} else {
+			localStorage.setItem(HISTORY_SETTING_KEY, "off");
+		}
+	} catch {
+		// The choice still applies for this visit
+	}
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+export class HistoryStore {
+	private db: Promise<IDBDatabase> | null = null;
+	private factory: IDBFactory;
+
+	constructor(factory: IDBFactory = indexedDB) {
+		this.factory = factory;
+	}
+
+	/**
+	 * All entries, newest first
+	 */
+	async list(): Promise<HistoryEntry[]> {
+		const store = await this.store("readonly");
+		const entries: HistoryEntry[] = await settle(store.getAll());
+		return entries.sort((a, b) => b.createdAt - a.createdAt);
+	}
+
+	/**
+	 * Add or refresh an entry, then drop the oldest beyond MAX_ENTRIES
+	 */
+	async put(entry: HistoryEntry): Promise<void> {
+		const store = await this.store("readwrite");
+		await settle(store.put(entry));
+
+		const entries = await this.list();
+		if (entries.length > MAX_ENTRIES) {
+			const stale = await this.store("readwrite");
+			await Promise.all(
+				entries.slice(MAX_ENTRIES).map((old) => settle(stale.delete(old.url))),
+			);
+		}
+	}
+
+	async delete(url: string): Promise<void> {
+		const store = await this.store("readwrite");
+		await settle(store.delete(url));
+	}
+
+	async clear(): Promise<void> {
+		const store = await this.store("readwrite");
+		await settle(store.clear());
+	}
+
+	private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+		const db = await this.open();
+		return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+	}
+
+	private open(): Promise<IDBDatabase> {
+		if (!this.db) {
+			const request = this.factory.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(STORE_NAME, { keyPath: "url" });
+			};
+			this.db = settle(request);
+		}
+		return this.db;
+	}
+}
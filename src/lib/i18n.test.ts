@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { PLATFORMS, SUPPORTED_PLATFORM_IDS } from "@/constants/platforms";
+import { en, type MessageKey } from "@/i18n/en";
+import { ja } from "@/i18n/ja";
+import { zh } from "@/i18n/zh";
+import {
+	describeLocalizedError,
+	localePath,
+	negotiateLocale,
+	requestLocale,
+	translate,
+} from "./i18n";
+
+function placeholders(message: string): string[] {
+	return (message.match(/\{\w+\}/g) ?? []).sort();
+}
+
+describe("catalogs", () => {
+	const english: Record<MessageKey, string> = en;
+
+	it("should cover every platform in the registry", () => {
+		for (const catalog of [english, zh, ja]) {
+			for (const id of SUPPORTED_PLATFORM_IDS) {
+				const keys = [
+					`platforms.${id}`,
+					...PLATFORMS[id].features.map(
+						(_, index) => `platforms.${id}.features.${index}`,
+					),
+				] as MessageKey[];
+				for (const key of keys) {
+					expect(typeof catalog[key], key).toBe("string");
+				}
+			}
+		}
+	});
+
+	it("should use the same placeholders as English", () => {
+		for (const catalog of [zh, ja]) {
+			for (const key of Object.keys(en) as MessageKey[]) {
+				expect(placeholders(catalog[key]), key).toEqual(
+					placeholders(english[key]),
+				);
+			}
+		}
+	});
+});
+
+describe("translate", () => {
+	it("should fill placeholders", () => {
+		expect(translate("en", "results.count", { count: 3 })).toBe(
+			"3 items found",
+		);
+		expect(translate("zh", "results.count", { count: 3 })).toBe("找到 3 项");
+	});
+
+	it("should leave placeholders without a value untouched", () => {
+		expect(translate("en", "results.count")).toBe("{count} items found");
+	});
+});
+
+describe("describeLocalizedError", () => {
+	it("should localize known codes and keep their retry behaviour", () => {
+		expect(describeLocalizedError("ja", "RATE_LIMITED")).toEqual({
+			message:
+				"リクエストが多すぎます。しばらく待ってからもう一度お試しください。",
+			retryable: true,
+		});
+	});
+
+	it("should fall back to the given text, then the generic message", () => {
+		expect(describeLocalizedError("zh", undefined, "Boom").message).toBe(
+			"Boom",
+		);
+		expect(describeLocalizedError("zh", "NOPE").message).toBe(
+			"下载内容失败，请重试。",
+		);
+	});
+});
+
+describe("negotiateLocale", () => {
+	it("should pick the highest-weighted supported language", () => {
+		expect(negotiateLocale("fr-FR,ja;q=0.8,zh-CN;q=0.9")).toBe("zh");
+		expect(negotiateLocale("ja-JP,ja;q=0.9,en;q=0.8")).toBe("ja");
+		expect(negotiateLocale("zh-TW")).toBe("zh");
+	});
+
+	it("should break ties by header order", () => {
+		expect(negotiateLocale("ja, zh")).toBe("ja");
+	});
+
+	it("should fall back to English", () => {
+		expect(negotiateLocale(null)).toBe("en");
+		expect(negotiateLocale("fr, de;q=0.5")).toBe("en");
+		expect(negotiateLocale("zh;q=0")).toBe("en");
+	});
+});
+
+describe("requestLocale", () => {
+	it("should prefer the remembered choice over Accept-Language", () => {
+		const request = new Request("http://localhost/", {
+			headers: {
+				"Accept-Language": "zh-CN",
+				Cookie: "theme=dark; snatch-locale=en",
+			},
+		});
+
+		expect(requestLocale(request)).toBe("en");
+	});
+
+	it("should ignore unknown remembered locales", () => {
+		const request = new Request("http://localhost/", {
+			headers: { "Accept-Language": "ja", Cookie: "snatch-locale=xx" },
+		});
+
+		expect(requestLocale(request)).toBe("ja");
+	});
+});
+
+describe("localePath", () => {
+	it("should keep English at the root", () => {
+		expect(localePath("en")).toBe("/");
+		expect(localePath("ja")).toBe("/ja/");
+	});
+});
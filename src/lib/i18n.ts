@@ -0,0 +1,172 @@
+import { en, type MessageKey } from "@/i18n/en";
+import { ja, jaErrors } from "@/i18n/ja";
+import { zh, zhErrors } from "@/i18n/zh";
+import { describeError, ERROR_DETAILS, type ErrorDetails } from "@/lib/errors";
+import type { ErrorCode } from "@/types/download";
+
+/**
+ * Locales, message lookup and locale negotiation
+ *
+ * English is served at the root ("/"); other locales under their prefix
+ * ("/zh/", "/ja/"). A manual choice is remembered in a cookie and wins over
+ * the browser's Accept-Language.
+ */
+
+export const LOCALES = ["en", "zh", "ja"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Cookie holding the locale picked in the language switcher
+export const LOCALE_COOKIE = "snatch-locale";
+
+// Query parameter the switcher sends the choice in; the server sets the cookie
+export const LOCALE_PARAM = "lang";
+
+// Names shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+	en: "English",
+	zh: "中文",
+	ja: "日本語",
+};
+
+// Values for <html lang>
+export const HTML_LANG: Record<Locale, string> = {
+	en: "en",
+	zh: "zh-Hans",
+	ja: "ja",
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, zh, ja };
+
+const ERROR_MESSAGES: Record<Locale, Record<ErrorCode, string>> = {
+	en: Object.fromEntries(
+		Object.entries(ERROR_DETAILS).map(([code, details]) => [
+			code,
+			details.message,
+		]),
+	) as Record<ErrorCode, string>,
+	zh: zhErrors,
+	ja: jaErrors,
+};
+
+export type { MessageKey };
+
+export type Translate = (
+	key: MessageKey,
+	params?: Record<string, string | number>,
+) => string;
+
+/**
+ * Check whether a value names a supported locale
+ */
+export function isLocale(value: unknown): value is Locale {
+	return typeof value === "string" && LOCALES.includes(value as Locale);
+}
+
+/**
+ * Message for `key`, with {placeholders} filled from `params`
+ */
+export function translate(
+	locale: Locale,
+	key: MessageKey,
+	params: Record<string, string | number> = {},
+): string {
+	return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+		name in params ? String(params[name]) : placeholder,
+	);
+}
+
+/**
+ * translate() bound to a locale
+ */
+export function translator(locale: Locale): Translate {
+	return (key, params) => translate(locale, key, params);
+}
+
+/**
+ * describeError() with the message in `locale`
+ * Unknown codes keep their fallback text, which is already whatever the server sent.
+ */
+export function describeLocalizedError(
+	locale: Locale,
+	code: unknown,
+	fallbackMessage?: string,
+): ErrorDetails {
+	const details = describeError(
+		code,
+		fallbackMessage || translate(locale, "error.generic"),
+	);
+	return code && Object.hasOwn(ERROR_MESSAGES[locale], code as string)
+		? { ...details, message: ERROR_MESSAGES[locale][code as ErrorCode] }
+		: details;
+}
+
+/**
+ * Error message for a code in `locale`
+ */
+export function errorMessage(locale: Locale, code: ErrorCode): string {
+	return ERROR_MESSAGES[locale][code];
+}
+
+/**
+ * "A, B and C" / "A、B 和 C" in the locale's own list style
+ */
+export function formatList(
+	locale: Locale,
+	items: string[],
+	type: "conjunction" | "disjunction" = "conjunction",
+): string {
+	return new Intl.ListFormat(HTML_LANG[locale], { type }).format(items);
+}
+
+/**
+ * Best supported locale for an Accept-Language header
+ * Matches on the primary subtag ("zh-TW" → zh) and honours q-values.
+ */
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+	if (!acceptLanguage) {
+		return DEFAULT_LOCALE;
+	}
+
+	const ranges = acceptLanguage
+		.split(",")
+		.map((part, index) => {
+			const [tag, ...params] = part.trim().split(";");
+			const q = params
+				.map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1])
+				.find(Boolean);
+			return {
+				language: tag.trim().toLowerCase().split("-")[0],
+				quality: q === undefined ? 1 : Number.parseFloat(q),
+				index,
+			};
+		})
+		.filter((range) => range.quality > 0)
+		// Stable for equal q-values, so header order breaks ties
+		.sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+	return ranges.map((range) => range.language).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Locale for a request: the remembered choice, then Accept-Language
+ */
+export function requestLocale(request: Request): Locale {
+	const cookie = request.headers
+		.get("cookie")
+		?.split(";")
+		.map((pair) => pair.trim().split("="))
+		.find(([name]) => name === LOCALE_COOKIE)?.[1];
+
+	return isLocale(cookie)
+		? cookie
+		: negotiateLocale(request.headers.get("accept-language"));
+}
+
+/**
+ * Home page path for a locale: "/" for English, "/zh/" otherwise
+ */
+export function localePath(locale: Locale): string {
+	return locale === DEFAULT_LOCALE ? "/" : `/${locale}/`;
+}
@@ -0,0 +1,75 @@
+import { getBackendClient } from "@/lib/backend-client";
+
+/**
+ * Access to media files on the Rust backend's yt-dlp download endpoint
+ * Shared by the single-file proxy and the ZIP bundler.
+ */
+
+// yt-dlp format ids/selectors, e.g. "hd", "137+140", "bestvideo[height<=720]"
+const FORMAT_PATTERN = /^[\w.+\-[\]<>=/]{1,100}$/;
+const EXT_PATTERN = /^[a-z0-9]{1,8}$/;
+// 1-based position of a carousel item
+const ITEM_PATTERN = /^[1-9]\d{0,2}$/;
+
+/**
+ * One media file: the post URL plus which format (and carousel item) to fetch
+ */
+export interface MediaFileRequest {
+	url: string;
+	format?: string;
+	ext?: string;
+	item?: string;
+}
+
+/**
+ * Check the format, extension and item selectors before they reach the backend
+ */
+export function isValidMediaSelector(file: MediaFileRequest): boolean {
+	return (
+		(!file.format || FORMAT_PATTERN.test(file.format)) &&
+		(!file.ext || EXT_PATTERN.test(file.ext)) &&
+		(!file.item || ITEM_PATTERN.test(file.item))
+	);
+}
+
+/**
+ * Request a media file from the backend; the caller owns the response body
+ * Throws BackendUnavailableError when every backend's circuit is open.
+ */
+export function fetchBackendMedia(
+	file: MediaFileRequest,
+	options: { range?: string | null; signal?: AbortSignal } = {},
+): Promise<Response> {
+	const params = new URLSearchParams({ url: file.url.trim() });
+	if (file.format) {
+		params.set("format", file.format);
+	}
+	if (file.item) {
+		params.set("item", file.item);
+	}
+
+	const headers: Record<string, string> = {};
+	if (options.range) {
+		headers.Range = options.range;
+	}
+
+	return getBackendClient().request(
+		`/api/download?${params.toString()}`,
+		{ headers },
+		{ idempotent: true, signal: options.signal },
+	);
+}
+
+/**
+ * Filesystem-safe filename from its parts, e.g. "instagram-2-hd.mp4"
+ */
+export function mediaFilename(
+	parts: (string | number | undefined)[],
+	ext?: string,
+): string {
+	const name = parts
+		.filter((part) => part !== undefined && part !== "")
+		.join("-")
+		.replace(/[^\w.-]+/g, "_");
+	return ext ? `${name}.${ext}` : name;
+}
@@ -0,0 +1,357 @@
+import type { APIContext } from "astro";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { POST as download } from "@/pages/api/download";
+import { POST as batchDownload } from "@/pages/api/download/batch";
+import { POST as bundle } from "@/pages/api/download/zip";
+import { GET as health } from "@/pages/api/health";
+import { GET as openapi } from "@/pages/api/openapi.json";
+import {
+	BackendClient,
+	resetBackendClient,
+	setBackendClient,
+} from "./backend-client";
+import { OPENAPI_DOCUMENT } from "./openapi";
+import { MemoryRateLimitStorage } from "./rate-limit-storage";
+import { RateLimiter, resetRateLimiter, setRateLimiter } from "./rate-limiter";
+
+type Schema = Record<string, unknown>;
+
+const originalFetch = globalThis.fetch;
+
+// Its own client and in-memory quotas, so these tests don't depend on how the
+// config is set up or mocked, nor on quota spent in earlier runs
+beforeEach(() => {
+	setRateLimiter(
+		new RateLimiter(new MemoryRateLimitStorage(), {
+			algorithm: "fixed-window",
+			limit: 10,
+			window: 60000,
+		}),
+	);
+	setBackendClient(
+		new BackendClient({
+			urls: ["http://backend.test"],
+			timeout: 1000,
+			deadline: 1000,
+			retries: 0,
+			breakerThreshold: 100,
+			breakerCooldown: 1000,
+		}),
+	);
+});
+
+afterEach(() => {
+	globalThis.fetch = originalFetch;
+	resetBackendClient();
+	resetRateLimiter();
+});
+
+// Answer the backend's calls with `body`
+function mockBackend(body: unknown, status = 200): void {
+	globalThis.fetch = (async () =>
+		new Response(JSON.stringify(body), {
+			status,
+			headers: { "Content-Type": "application/json" },
+		})) as unknown as typeof fetch;
+}
+
+let clientNumber = 0;
+
+// Call a route handler; each call comes from a fresh client IP so quotas don't interfere
+function call(
+	handler: (context: APIContext) => Response | Promise<Response>,
+	path: string,
+	body?: string,
+	headers: Record<string, string> = {},
+): Promise<Response> {
+	clientNumber++;
+	const request = new Request(`http://localhost${path}`, {
+		method: body === undefined ? "GET" : "POST",
+		headers: {
+			"Content-Type": "application/json",
+			"X-Forwarded-For": `203.0.113.${clientNumber}`,
+			...headers,
+		},
+		body,
+	});
+	return Promise.resolve(
+		handler({ request, url: new URL(request.url) } as unknown as APIContext),
+	);
+}
+
+function resolveRef(schema: Schema): Schema {
+	if (typeof schema.$ref !== "string") {
+		return schema;
+	}
+	const name = schema.$ref.replace("#/components/schemas/", "");
+	const schemas: Record<string, Schema> = OPENAPI_DOCUMENT.components.schemas;
+	if (!schemas[name]) {
+		throw new Error(`Unknown schema ${schema.$ref}`);
+	}
+	return schemas[name];
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (Number.isInteger(value)) return "integer";
+	return typeof value;
+}
+
+/**
+ * Check a value against the JSON Schema subset the document uses
+ */
+function validate(value: unknown, schema: Schema, path = "body"): string[] {
+	const resolved = resolveRef(schema);
+	const issues: string[] = [];
+
+	if ("const" in resolved && value !== resolved.const) {
+		issues.push(`${path}: expected ${JSON.stringify(resolved.const)}`);
+	}
+	if (Array.isArray(resolved.enum) && !resolved.enum.includes(value)) {
+		issues.push(`${path}: ${JSON.stringify(value)} is not in the enum`);
+	}
+
+	const actual = typeOf(value);
+	const expected = resolved.type;
+	if (
+		expected &&
+		expected !== actual &&
+		!(expected === "number" && actual === "integer")
+	) {
+		return [...issues, `${path}: expected ${expected}, got ${actual}`];
+	}
+
+	if (actual === "array" && resolved.items) {
+		for (const [index, item] of (value as unknown[]).entries()) {
+			issues.push(
+				...validate(item, resolved.items as Schema, `${path}[${index}]`),
+			);
+		}
+	}
+
+	if (actual === "object" && resolved.properties) {
+		const record = value as Record<string, unknown>;
+		const properties = resolved.properties as Record<string, Schema>;
+		for (const key of (resolved.required as string[]) ?? []) {
+			if (!(key in record)) {
+				issues.push(`${path}.${key}: required but missing`);
+			}
+		}
+		for (const [key, item] of Object.entries(record)) {
+			if (!properties[key]) {
+				if (resolved.additionalProperties === false) {
+					issues.push(`${path}.${key}: not described in the spec`);
+				}
+				continue;
+			}
+			issues.push(...validate(item, properties[key], `${path}.${key}`));
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Check that `response` is a documented outcome of the operation and matches its schema
+ */
+async function expectConformance(
+	response: Response,
+	path: keyof typeof OPENAPI_DOCUMENT.paths,
+	method: "get" | "post",
+): Promise<void> {
+	const operation = (
+		OPENAPI_DOCUMENT.paths[path] as Record<
+			string,
+			{ responses: Record<string, { content?: Record<string, Schema> }> }
+		>
+	)[method];
+	const documented = operation.responses[String(response.status)];
+	expect(documented, `${response.status} is not documented`).toBeDefined();
+
+	const contentType = response.headers.get("content-type") ?? "";
+	const mediaType = Object.keys(documented.content ?? {}).find((type) =>
+		contentType.startsWith(type),
+	);
+	expect(mediaType, `${contentType} is not documented`).toBeDefined();
+
+	if (mediaType === "application/json") {
+		const schema = documented.content?.[mediaType].schema as Schema;
+		expect(validate(await response.json(), schema)).toEqual([]);
+	}
+}
+
+const backendSuccess = {
+	success: true,
+	platform: "tiktok",
+	title: "Clip",
+	formats: [{ format_id: "hd", quality: "720p", url: "u1", ext: "mp4" }],
+	uploader: "someone",
+	like_count: 12,
+	tags: ["fun"],
+};
+
+describe("OpenAPI document", () => {
+	it("should be served as an OpenAPI 3.1 document", async () => {
+		const response = await call(openapi, "/api/openapi.json");
+		const document = await response.json();
+
+		expect(document.openapi).toBe("3.1.0");
+		expect(Object.keys(document.paths)).toContain("/api/download");
+	});
+
+	it("should only reference schemas it defines", () => {
+		const refs = JSON.stringify(OPENAPI_DOCUMENT).match(
+			/#\/components\/schemas\/\w+/g,
+		);
+		for (const target of new Set(refs)) {
+			expect(() => resolveRef({ $ref: target })).not.toThrow();
+		}
+	});
+});
+
+describe("/api/download conformance", () => {
+	it("should match the spec for a successful extraction", async () => {
+		mockBackend(backendSuccess);
+		const response = await call(
+			download,
+			"/api/download",
+			JSON.stringify({ url: "https://www.tiktok.com/@user/video/1001" }),
+		);
+
+		expect(response.status).toBe(200);
+		await expectConformance(response, "/api/download", "post");
+	});
+
+	it("should match the spec for request errors", async () => {
+		for (const body of [
+			"not json",
+			JSON.stringify({}),
+			JSON.stringify({ url: "https://example.com/video/1" }),
+			JSON.stringify({
+				url: "https://www.tiktok.com/@user/video/1002",
+				quality: "4k",
+			}),
+		]) {
+			const response = await call(download, "/api/download", body);
+			expect(response.status).toBe(400);
+			await expectConformance(response, "/api/download", "post");
+		}
+	});
+
+	it("should match the spec for backend failures", async () => {
+		mockBackend({ success: false, error: "This video is private" });
+		const privatePost = await call(
+			download,
+			"/api/download",
+			JSON.stringify({ url: "https://www.tiktok.com/@user/video/1003" }),
+		);
+		expect(privatePost.status).toBe(403);
+		await expectConformance(privatePost, "/api/download", "post");
+
+		mockBackend({ success: true, platform: "tiktok" });
+		const protocolError = await call(
+			download,
+			"/api/download",
+			JSON.stringify({ url: "https://www.tiktok.com/@user/video/1004" }),
+		);
+		expect(protocolError.status).toBe(502);
+		await expectConformance(protocolError, "/api/download", "post");
+	});
+});
+
+describe("/api/download/batch conformance", () => {
+	it("should match the spec for mixed outcomes", async () => {
+		mockBackend(backendSuccess);
+		const response = await call(
+			batchDownload,
+			"/api/download/batch",
+			JSON.stringify({
+				urls: [
+					"https://www.tiktok.com/@user/video/2001",
+					"https://example.com/nope",
+				],
+			}),
+		);
+
+		expect(response.status).toBe(200);
+		await expectConformance(response, "/api/download/batch", "post");
+	});
+
+	it("should match the spec for a malformed request", async () => {
+		const response = await call(
+			batchDownload,
+			"/api/download/batch",
+			JSON.stringify({ urls: "nope" }),
+		);
+
+		expect(response.status).toBe(400);
+		await expectConformance(response, "/api/download/batch", "post");
+	});
+});
+
+describe("/api/download/zip conformance", () => {
+	it("should match the spec for malformed files", async () => {
+		for (const file of [
+			{ url: "https://www.tiktok.com/@user/video/3001", ext: 4 },
+			{ url: "https://www.tiktok.com/@user/video/3001", title: {} },
+			"https://www.tiktok.com/@user/video/3001",
+		]) {
+			const response = await call(
+				bundle,
+				"/api/download/zip",
+				JSON.stringify({ files: [file] }),
+			);
+			expect(response.status).toBe(400);
+			await expectConformance(response, "/api/download/zip", "post");
+		}
+	});
+
+	it("should refuse forms posted from another site", async () => {
+		const files = JSON.stringify([
+			{ url: "https://www.tiktok.com/@user/video/3002" },
+		]);
+		const response = await call(
+			bundle,
+			"/api/download/zip",
+			new URLSearchParams({ files }).toString(),
+			{
+				"Content-Type": "application/x-www-form-urlencoded",
+				Origin: "https://elsewhere.example",
+			},
+		);
+
+		expect(response.status).toBe(403);
+		await expectConformance(response, "/api/download/zip", "post");
+	});
+
+	it("should archive a whole carousel within the quota", async () => {
+		mockBackend({ bytes: "media" });
+		const files = Array.from({ length: 12 }, (_, index) => ({
+			url: `https://www.tiktok.com/@user/video/${3100 + index}`,
+		}));
+		const response = await call(
+			bundle,
+			"/api/download/zip",
+			new URLSearchParams({ files: JSON.stringify(files) }).toString(),
+			{
+				"Content-Type": "application/x-www-form-urlencoded",
+				Origin: "http://localhost",
+			},
+		);
+
+		expect(response.status).toBe(200);
+		await expectConformance(response, "/api/download/zip", "post");
+		// Stored entries, so the manifest is readable in the archive bytes
+		const archive = await response.text();
+		expect(archive.match(/"file": /g)).toHaveLength(12);
+		expect(archive).not.toContain('"error"');
+	});
+});
+
+describe("/api/health conformance", () => {
+	it("should match the spec", async () => {
+		const response = await call(health, "/api/health");
+		await expectConformance(response, "/api/health", "get");
+	});
+});
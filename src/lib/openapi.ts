@@ -0,0 +1,488 @@
+import { SUPPORTED_PLATFORM_IDS } from "@/constants/platforms";
+import { QUALITY_PREFERENCES } from "@/constants/quality";
+import { ERROR_DETAILS, ERROR_STATUS } from "@/lib/errors";
+
+/**
+ * OpenAPI 3.1 description of the public API, served at /api/openapi.json
+ *
+ * Schemas mirror the interfaces in src/types/download.ts; enums are built from
+ * the same registries the routes use (platforms, quality presets, error
+ * codes), so adding one updates the document. openapi.test.ts runs the routes
+ * and fails when a response no longer matches what is described here.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+const ref = (name: string): JsonSchema => ({
+	$ref: `#/components/schemas/${name}`,
+});
+
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: "array", items });
+
+const object = (
+	properties: Record<string, JsonSchema>,
+	required: string[] = [],
+): JsonSchema => ({
+	type: "object",
+	properties,
+	required,
+	additionalProperties: false,
+});
+
+const jsonContent = (schema: JsonSchema) => ({
+	"application/json": { schema },
+});
+
+const RATE_LIMIT_HEADERS = {
+	"RateLimit-Limit": { $ref: "#/components/headers/RateLimit-Limit" },
+	"RateLimit-Remaining": { $ref: "#/components/headers/RateLimit-Remaining" },
+	"RateLimit-Reset": { $ref: "#/components/headers/RateLimit-Reset" },
+	"RateLimit-Policy": { $ref: "#/components/headers/RateLimit-Policy" },
+};
+
+const errorResponse = (description: string) => ({
+	description,
+	headers: RATE_LIMIT_HEADERS,
+	content: jsonContent(ref("ErrorResponse")),
+});
+
+// Every status a failed extraction can be reported with, plus the body size limit
+const EXTRACTION_ERROR_RESPONSES = Object.fromEntries(
+	[...new Set([...Object.values(ERROR_STATUS), 413])]
+		.sort((a, b) => a - b)
+		.map((status) => [
+			String(status),
+			errorResponse(
+				`Failure; codes: ${Object.entries(ERROR_STATUS)
+					.filter(([, codeStatus]) => codeStatus === status)
+					.map(([code]) => code)
+					.join(", ")}`,
+			),
+		]),
+);
+
+const downloadResponseProperties: Record<string, JsonSchema> = {
+	success: { type: "boolean" },
+	code: ref("ErrorCode"),
+	resolvedUrl: {
+		type: "string",
+		description: "Where a share-sheet short link led",
+	},
+	canonicalUrl: {
+		type: "string",
+		description: "The post URL, normalized and without tracking parameters",
+	},
+	media: arrayOf(ref("MediaItem")),
+	results: arrayOf(ref("DownloadResult")),
+	error: { type: "string" },
+	platform: ref("SupportedPlatform"),
+	processingTime: { type: "number" },
+};
+
+const serviceCondition = ref("ServiceCondition");
+
+export const OPENAPI_DOCUMENT = {
+	openapi: "3.1.0",
+	info: {
+		title: "Snatch API",
+		version: "1.0.0",
+		description:
+			"Extract download links for social media posts. Failed responses carry a stable `code` next to the human-readable `error`.",
+	},
+	paths: {
+		"/api/download": {
+			post: {
+				operationId: "download",
+				summary: "Extract the media of one post",
+				description:
+					"Send `Accept: text/event-stream` to receive `ExtractionProgressEvent`s as server-sent events; the last one carries the final response. Errors found before extraction starts are always JSON.",
+				requestBody: {
+					required: true,
+					content: jsonContent(ref("DownloadRequest")),
+				},
+				responses: {
+					"200": {
+						description: "Media found",
+						headers: {
+							...RATE_LIMIT_HEADERS,
+							"Cache-Status": {
+								description: "Whether the result came from the cache",
+								schema: { type: "string" },
+							},
+						},
+						content: {
+							...jsonContent(ref("DownloadResponse")),
+							"text/event-stream": {
+								schema: { type: "string" },
+								description:
+									"`data:` lines holding ExtractionProgressEvent JSON",
+							},
+						},
+					},
+					...EXTRACTION_ERROR_RESPONSES,
+				},
+			},
+		},
+		"/api/download/batch": {
+			post: {
+				operationId: "batchDownload",
+				summary: "Extract the media of up to 50 posts",
+				description:
+					"Per-URL failures are reported in `items`; the request as a whole only fails when it is malformed.",
+				requestBody: {
+					required: true,
+					content: jsonContent(ref("BatchDownloadRequest")),
+				},
+				responses: {
+					"200": {
+						description: "One item per URL, in request order",
+						headers: RATE_LIMIT_HEADERS,
+						content: jsonContent(ref("BatchDownloadResponse")),
+					},
+					"400": errorResponse("Malformed request (INVALID_REQUEST)"),
+					"413": errorResponse("Request body too large (INVALID_REQUEST)"),
+				},
+			},
+		},
+		"/api/download/zip": {
+			post: {
+				operationId: "bundle",
+				summary: "Stream a ZIP of several media files",
+				description:
+					"The archive costs one request of quota, and each file one request of the media (`/api/file`) quota. Files the backend can't deliver, or that exceed the media quota, are skipped and listed with an `error` in the archive's manifest.json. Browsers may post a form instead, with `files` as JSON, so the archive downloads straight to disk.",
+				requestBody: {
+					required: true,
+					content: {
+						...jsonContent(ref("BundleRequest")),
+						"application/x-www-form-urlencoded": {
+							schema: object(
+								{
+									files: {
+										type: "string",
+										description: "BundleRequest.files as JSON",
+									},
+								},
+								["files"],
+							),
+						},
+					},
+				},
+				responses: {
+					"200": {
+						description: "The archive, streamed as it is built",
+						headers: RATE_LIMIT_HEADERS,
+						content: {
+							"application/zip": {
+								schema: { type: "string", contentMediaType: "application/zip" },
+							},
+						},
+					},
+					"400": errorResponse(
+						"Malformed request or file (INVALID_REQUEST, INVALID_URL, UNSUPPORTED_PLATFORM)",
+					),
+					"403": errorResponse(
+						"Form posted from another site (INVALID_REQUEST)",
+					),
+					"413": errorResponse("Request body too large (INVALID_REQUEST)"),
+					"429": errorResponse("Rate limit exceeded (RATE_LIMITED)"),
+				},
+			},
+		},
+		"/api/file": {
+			get: {
+				operationId: "file",
+				summary: "Download one media file through the server",
+				parameters: [
+					{
+						name: "url",
+						in: "query",
+						required: true,
+						schema: { type: "string" },
+						description: "Post URL",
+					},
+					{
+						name: "format",
+						in: "query",
+						schema: { type: "string" },
+						description: "Backend format id",
+					},
+					{
+						name: "ext",
+						in: "query",
+						schema: { type: "string" },
+						description: "File extension for the download name",
+					},
+					{
+						name: "item",
+						in: "query",
+						schema: { type: "string", pattern: "^[1-9]\\d{0,2}$" },
+						description: "1-based carousel item",
+					},
+					{
+						name: "Range",
+						in: "header",
+						schema: { type: "string" },
+					},
+				],
+				responses: {
+					"200": {
+						description: "The file",
+						content: { "application/octet-stream": { schema: {} } },
+					},
+					"206": {
+						description: "The requested byte range",
+						content: { "application/octet-stream": { schema: {} } },
+					},
+					"400": {
+						description:
+							"Invalid URL or selectors (INVALID_URL, UNSUPPORTED_PLATFORM, INVALID_REQUEST)",
+						content: jsonContent(ref("ErrorResponse")),
+					},
+					"416": {
+						description: "Unsatisfiable range (INVALID_REQUEST)",
+						content: jsonContent(ref("ErrorResponse")),
+					},
+					"429": errorResponse("Rate limit exceeded (RATE_LIMITED)"),
+					"502": {
+						description: "The backend failed (BACKEND_UNAVAILABLE)",
+						content: jsonContent(ref("ErrorResponse")),
+					},
+					"503": {
+						description: "No backend reachable (BACKEND_UNAVAILABLE)",
+						content: jsonContent(ref("ErrorResponse")),
+					},
+				},
+			},
+		},
+		"/api/health": {
+			get: {
+				operationId: "health",
+				summary: "Liveness check",
+				responses: {
+					"200": {
+						description: "The server is up",
+						content: jsonContent(ref("HealthResponse")),
+					},
+				},
+			},
+		},
+		"/api/status": {
+			get: {
+				operationId: "status",
+				summary: "Backend reachability and per-platform success rates",
+				responses: {
+					"200": {
+						description: "Current status; reused for up to 15 seconds",
+						content: jsonContent(ref("StatusResponse")),
+					},
+					"500": errorResponse("Status unavailable (INTERNAL_ERROR)"),
+				},
+			},
+		},
+		"/api/openapi.json": {
+			get: {
+				operationId: "openapi",
+				summary: "This document",
+				responses: {
+					"200": {
+						description: "OpenAPI 3.1 document",
+						content: jsonContent({ type: "object" }),
+					},
+				},
+			},
+		},
+	},
+	components: {
+		headers: {
+			"RateLimit-Limit": {
+				description: "Requests allowed per window",
+				schema: { type: "string" },
+			},
+			"RateLimit-Remaining": {
+				description: "Requests left in the current window",
+				schema: { type: "string" },
+			},
+			"RateLimit-Reset": {
+				description: "Seconds until the window resets",
+				schema: { type: "string" },
+			},
+			"RateLimit-Policy": {
+				description: 'Limit and window, e.g. "10;w=60"',
+				schema: { type: "string" },
+			},
+		},
+		schemas: {
+			SupportedPlatform: { type: "string", enum: SUPPORTED_PLATFORM_IDS },
+			QualityPreference: {
+				type: "string",
+				enum: Object.keys(QUALITY_PREFERENCES),
+			},
+			ErrorCode: { type: "string", enum: Object.keys(ERROR_DETAILS) },
+			MediaKind: { type: "string", enum: ["video", "image"] },
+			ServiceCondition: {
+				type: "string",
+				enum: ["working", "degraded", "down"],
+			},
+			DownloadRequest: object(
+				{
+					url: { type: "string" },
+					platform: ref("SupportedPlatform"),
+					quality: ref("QualityPreference"),
+				},
+				["url"],
+			),
+			DownloadMetadata: object({
+				author: { type: "string" },
+				description: { type: "string" },
+				duration: { type: "number", description: "Seconds" },
+				playCount: { type: "number" },
+				likeCount: { type: "number" },
+				commentCount: { type: "number" },
+				shareCount: { type: "number" },
+				createdAt: { type: "string", format: "date-time" },
+				tags: arrayOf({ type: "string" }),
+			}),
+			DownloadResult: object(
+				{
+					id: { type: "string" },
+					type: ref("MediaKind"),
+					url: { type: "string" },
+					thumbnail: { type: "string" },
+					downloadUrl: {
+						type: "string",
+						description: "Relative /api/file URL for this format",
+					},
+					formatId: { type: "string" },
+					ext: { type: "string" },
+					itemIndex: { type: "integer", minimum: 1 },
+					title: { type: "string" },
+					size: { type: "string" },
+					platform: ref("SupportedPlatform"),
+					quality: ref("QualityPreference"),
+					isMock: { type: "boolean" },
+					isFallback: { type: "boolean" },
+					metadata: ref("DownloadMetadata"),
+				},
+				["id", "type", "url", "downloadUrl", "title", "platform"],
+			),
+			MediaItem: object(
+				{
+					index: { type: "integer", minimum: 1 },
+					type: ref("MediaKind"),
+					thumbnail: { type: "string" },
+					formats: arrayOf(ref("DownloadResult")),
+				},
+				["index", "type", "formats"],
+			),
+			DownloadResponse: object(downloadResponseProperties, ["success"]),
+			ExtractionProgressEvent: object(
+				{
+					stage: {
+						type: "string",
+						enum: ["validated", "backend", "formats", "done", "error"],
+					},
+					platform: ref("SupportedPlatform"),
+					formatCount: { type: "integer" },
+					response: ref("DownloadResponse"),
+				},
+				["stage"],
+			),
+			ErrorResponse: object(
+				{
+					success: { const: false },
+					code: ref("ErrorCode"),
+					error: { type: "string" },
+					platform: ref("SupportedPlatform"),
+					resolvedUrl: { type: "string" },
+					canonicalUrl: { type: "string" },
+					received: {
+						type: "string",
+						description: "Type of a `url` that wasn't a string",
+					},
+				},
+				["success", "code", "error"],
+			),
+			BatchDownloadRequest: object(
+				{
+					urls: { ...arrayOf({ type: "string" }), maxItems: 50 },
+					quality: ref("QualityPreference"),
+				},
+				["urls"],
+			),
+			BatchDownloadItem: object(
+				{ url: { type: "string" }, ...downloadResponseProperties },
+				["url", "success"],
+			),
+			BatchDownloadResponse: object(
+				{
+					success: { type: "boolean" },
+					code: ref("ErrorCode"),
+					items: arrayOf(ref("BatchDownloadItem")),
+					error: { type: "string" },
+				},
+				["success"],
+			),
+			BundleFile: object(
+				{
+					url: { type: "string" },
+					format: { type: "string" },
+					ext: { type: "string" },
+					item: { type: "string" },
+					title: { type: "string" },
+				},
+				["url"],
+			),
+			BundleRequest: object(
+				{ files: { ...arrayOf(ref("BundleFile")), maxItems: 100 } },
+				["files"],
+			),
+			HealthResponse: object(
+				{
+					status: { const: "ok" },
+					uptime: { type: "integer", description: "Seconds" },
+					timestamp: { type: "string", format: "date-time" },
+				},
+				["status", "uptime", "timestamp"],
+			),
+			PlatformStatus: object(
+				{
+					condition: serviceCondition,
+					samples: { type: "integer" },
+					successRate: { type: "number", minimum: 0, maximum: 1 },
+					lastSuccessAt: { type: "string", format: "date-time" },
+					lastFailureAt: { type: "string", format: "date-time" },
+				},
+				["condition", "samples"],
+			),
+			BackendInstanceStatus: object(
+				{
+					id: { type: "string" },
+					reachable: { type: "boolean" },
+					latency: { type: "number", description: "Milliseconds" },
+					circuit: { type: "string", enum: ["closed", "open", "half-open"] },
+				},
+				["id", "reachable", "circuit"],
+			),
+			StatusResponse: object(
+				{
+					condition: serviceCondition,
+					checkedAt: { type: "string", format: "date-time" },
+					backend: object(
+						{
+							condition: serviceCondition,
+							instances: arrayOf(ref("BackendInstanceStatus")),
+						},
+						["condition", "instances"],
+					),
+					platforms: object(
+						Object.fromEntries(
+							SUPPORTED_PLATFORM_IDS.map((id) => [id, ref("PlatformStatus")]),
+						),
+						[...SUPPORTED_PLATFORM_IDS],
+					),
+				},
+				["condition", "checkedAt", "backend", "platforms"],
+			),
+		},
+	},
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { SUPPORTED_PLATFORM_IDS } from "@/constants/platforms";
+import { permalinkFor, resolvePermalink } from "./permalink";
+
+const CONTENT_IDS = {
+	instagram: "ABC123",
+	tiktok: "7234567890123456789",
+	twitter: "1234567890",
+	youtube: "dQw4w9WgXcQ",
+	reddit: "abc123",
+	threads: "C8xYz_1",
+	facebook: "987654321",
+};
+
+describe("permalinkFor", () => {
+	it("should build the path from the validated content ID", () => {
+		expect(
+			permalinkFor(
+				"https://www.tiktok.com/@user/video/7234567890123456789?lang=en",
+			),
+		).toBe("/r/tiktok/7234567890123456789");
+		expect(permalinkFor("https://fxtwitter.com/user/status/1234567890")).toBe(
+			"/r/twitter/1234567890",
+		);
+	});
+
+	it("should return null for URLs that don't identify a post", () => {
+		expect(permalinkFor("https://www.tiktok.com/@user")).toBeNull();
+		expect(permalinkFor("https://example.com/video/1")).toBeNull();
+	});
+});
+
+describe("resolvePermalink", () => {
+	it("should round-trip every platform", () => {
+		for (const platform of SUPPORTED_PLATFORM_IDS) {
+			const target = resolvePermalink(platform, CONTENT_IDS[platform]);
+
+			expect(target?.contentId).toBe(CONTENT_IDS[platform]);
+			expect(permalinkFor(target?.sourceUrl ?? "")).toBe(
+				`/r/${platform}/${CONTENT_IDS[platform]}`,
+			);
+		}
+	});
+
+	it("should reject unknown platforms and malformed IDs", () => {
+		expect(resolvePermalink("myspace", "1")).toBeNull();
+		expect(resolvePermalink("tiktok", undefined)).toBeNull();
+		expect(resolvePermalink("tiktok", "not-a-number")).toBeNull();
+		expect(resolvePermalink("instagram", "ABC/../x")).toBeNull();
+	});
+});
@@ -0,0 +1,49 @@
+import { isSupportedPlatform, PLATFORMS } from "@/constants/platforms";
+import { validate } from "@/lib/validation";
+import type { SupportedPlatform } from "@/types/download";
+
+/**
+ * Shareable result pages at /r/<platform>/<contentId>
+ *
+ * The path carries only what validate() derives from a post URL, so the page
+ * can rebuild the post's URL and extract it again (usually from the cache).
+ */
+
+export interface PermalinkTarget {
+	platform: SupportedPlatform;
+	contentId: string;
+	sourceUrl: string; // Post URL rebuilt on the platform's canonical host
+}
+
+/**
+ * Permalink path for a post URL; null when the URL doesn't identify a post
+ */
+export function permalinkFor(url: string): string | null {
+	const validation = validate(url);
+	if (!validation.isValid || !validation.platform || !validation.contentId) {
+		return null;
+	}
+	return `/r/${validation.platform}/${encodeURIComponent(validation.contentId)}`;
+}
+
+/**
+ * Post URL for a permalink's route parameters; null for anything that wouldn't
+ * validate back to the same content ID
+ */
+export function resolvePermalink(
+	platform: string | undefined,
+	contentId: string | undefined,
+): PermalinkTarget | null {
+	if (!isSupportedPlatform(platform) || !contentId) {
+		return null;
+	}
+
+	const { canonicalHost, postPath } = PLATFORMS[platform];
+	const sourceUrl = `https://${canonicalHost}${postPath.replace("{id}", encodeURIComponent(contentId))}`;
+	const validation = validate(sourceUrl);
+	if (!validation.isValid || validation.contentId !== contentId) {
+		return null;
+	}
+
+	return { platform, contentId, sourceUrl };
+}
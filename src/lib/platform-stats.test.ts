@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { conditionForRate, PlatformStats } from "./platform-stats";
+
+describe("conditionForRate", () => {
+	it("should call a platform working until there are enough samples", () => {
+		expect(conditionForRate(0, 2)).toBe("working");
+		expect(conditionForRate(0.9, 10)).toBe("working");
+	});
+
+	it("should mark low success rates degraded or down", () => {
+		expect(conditionForRate(0.5, 10)).toBe("degraded");
+		expect(conditionForRate(0.1, 10)).toBe("down");
+	});
+});
+
+describe("PlatformStats", () => {
+	it("should report platforms without extractions as working", () => {
+		const stats = new PlatformStats();
+		expect(stats.status("tiktok")).toEqual({
+			condition: "working",
+			samples: 0,
+		});
+		expect(Object.keys(stats.snapshot())).toContain("instagram");
+	});
+
+	it("should compute the success rate of recent extractions", () => {
+		const stats = new PlatformStats();
+		const now = Date.now();
+		stats.record("tiktok", true, undefined, now - 2000);
+		stats.record("tiktok", false, "EXTRACTION_FAILED", now - 1000);
+		stats.record("tiktok", false, "BACKEND_TIMEOUT", now);
+
+		const status = stats.status("tiktok", now);
+		expect(status.samples).toBe(3);
+		expect(status.successRate).toBeCloseTo(1 / 3);
+		expect(status.condition).toBe("degraded");
+		expect(status.lastSuccessAt).toBe(new Date(now - 2000).toISOString());
+		expect(status.lastFailureAt).toBe(new Date(now).toISOString());
+	});
+
+	it("should ignore failures that aren't the platform's fault", () => {
+		const stats = new PlatformStats();
+		stats.record("instagram", false, "CONTENT_PRIVATE");
+		stats.record("instagram", false, "CONTENT_NOT_FOUND");
+		stats.record("instagram", false, "BACKEND_UNAVAILABLE");
+
+		expect(stats.status("instagram").samples).toBe(0);
+	});
+
+	it("should forget outcomes outside the window", () => {
+		const stats = new PlatformStats();
+		const now = Date.now();
+		for (let i = 0; i < 5; i++) {
+			stats.record("reddit", false, "EXTRACTION_FAILED", now - 60 * 60 * 1000);
+		}
+		stats.record("reddit", true, undefined, now);
+
+		expect(stats.status("reddit", now)).toMatchObject({
+			condition: "working",
+			samples: 1,
+			successRate: 1,
+		});
+	});
+});
@@ -0,0 +1,131 @@
+import { SUPPORTED_PLATFORM_IDS } from "@/constants/platforms";
+import type {
+	ErrorCode,
+	PlatformStatus,
+	ServiceCondition,
+	SupportedPlatform,
+} from "@/types/download";
+
+/**
+ * Rolling record of extraction outcomes per platform
+ *
+ * Only outcomes that say something about the platform count: a private or
+ * deleted post is down to the user's link, and an unreachable backend is
+ * reported on its own. Each server process keeps its own window.
+ */
+
+// Failures suggesting the platform changed or is blocking us
+const PLATFORM_FAILURE_CODES: ErrorCode[] = [
+	"EXTRACTION_FAILED",
+	"BACKEND_TIMEOUT",
+	"BACKEND_PROTOCOL_ERROR",
+	"RATE_LIMITED",
+];
+
+// Outcomes older than this no longer count
+const WINDOW_MS = 30 * 60 * 1000;
+// Most recent outcomes kept per platform
+const MAX_SAMPLES = 50;
+// Below this many samples a few unlucky links don't make a platform degraded
+const MIN_SAMPLES = 3;
+// Success rates under these thresholds mark a platform degraded / down
+const DEGRADED_BELOW = 0.8;
+const DOWN_BELOW = 0.2;
+
+interface Sample {
+	at: number;
+	ok: boolean;
+}
+
+/**
+ * Condition for a success rate over `samples` extractions
+ */
+export function conditionForRate(
+	successRate: number,
+	samples: number,
+): ServiceCondition {
+	if (samples < MIN_SAMPLES || successRate >= DEGRADED_BELOW) {
+		return "working";
+	}
+	return successRate < DOWN_BELOW ? "down" : "degraded";
+}
+
+export class PlatformStats {
+	private samples = new Map<SupportedPlatform, Sample[]>();
+
+	/**
+	 * Record one extraction; failures whose code isn't the platform's fault are ignored
+	 */
+	record(
+		platform: SupportedPlatform,
+		success: boolean,
+		code?: ErrorCode,
+		now = Date.now(),
+	): void {
+		if (!success && code && !PLATFORM_FAILURE_CODES.includes(code)) {
+			return;
+		}
+
+		const samples = this.samples.get(platform) ?? [];
+		samples.push({ at: now, ok: success });
+		if (samples.length > MAX_SAMPLES) {
+			samples.splice(0, samples.length - MAX_SAMPLES);
+		}
+		this.samples.set(platform, samples);
+	}
+
+	/**
+	 * Success rate and condition of one platform over the window
+	 */
+	status(platform: SupportedPlatform, now = Date.now()): PlatformStatus {
+		const recent = (this.samples.get(platform) ?? []).filter(
+			(sample) => now - sample.at <= WINDOW_MS,
+		);
+		if (recent.length === 0) {
+			return { condition: "working", samples: 0 };
+		}
+
+		const successes = recent.filter((sample) => sample.ok);
+		const failures = recent.filter((sample) => !sample.ok);
+		const successRate = successes.length / recent.length;
+		const lastSuccess = successes.at(-1);
+		const lastFailure = failures.at(-1);
+
+		return {
+			condition: conditionForRate(successRate, recent.length),
+			samples: recent.length,
+			successRate,
+			lastSuccessAt: lastSuccess && new Date(lastSuccess.at).toISOString(),
+			lastFailureAt: lastFailure && new Date(lastFailure.at).toISOString(),
+		};
+	}
+
+	/**
+	 * Status of every supported platform
+	 */
+	snapshot(now = Date.now()): Record<SupportedPlatform, PlatformStatus> {
+		return Object.fromEntries(
+			SUPPORTED_PLATFORM_IDS.map((id) => [id, this.status(id, now)]),
+		) as Record<SupportedPlatform, PlatformStatus>;
+	}
+}
+
+// Singleton instance
+let instance: PlatformStats | null = null;
+
+/**
+ * Get the singleton platform stats instance
+ */
+export function getPlatformStats(): PlatformStats {
+	if (!instance) {
+		instance = new PlatformStats();
+	}
+	return instance;
+}
+
+/**
+ * Reset the singleton instance (for testing)
+ */
+export function resetPlatformStats(): void {
+	instance = null;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatCount,
+	formatDuration,
+	formatPostDate,
+	postHashtags,
+} from "./post-metadata";
+
+describe("formatDuration", () => {
+	it("should format seconds as a clock", () => {
+		expect(formatDuration(42)).toBe("0:42");
+		expect(formatDuration(185.4)).toBe("3:05");
+		expect(formatDuration(3723)).toBe("1:02:03");
+	});
+});
+
+describe("formatCount", () => {
+	it("should abbreviate large counts", () => {
+		expect(formatCount(950)).toBe("950");
+		expect(formatCount(1234)).toBe("1.2K");
+		expect(formatCount(3_400_000)).toBe("3.4M");
+	});
+});
+
+describe("formatPostDate", () => {
+	it("should format valid dates and reject invalid ones", () => {
+		expect(formatPostDate("2025-03-05T12:00:00.000Z", "en-US")).toBe(
+			"Mar 5, 2025",
+		);
+		expect(formatPostDate("not a date")).toBeNull();
+	});
+});
+
+describe("postHashtags", () => {
+	it("should merge tags with caption hashtags without duplicates", () => {
+		expect(
+			postHashtags({
+				description: "Sunset run #Travel #beach\n#日本",
+				tags: ["travel", "golden hour"],
+			}),
+		).toEqual(["#travel", "#goldenhour", "#beach", "#日本"]);
+	});
+
+	it("should return nothing without tags or caption", () => {
+		expect(postHashtags({})).toEqual([]);
+	});
+});
@@ -0,0 +1,69 @@
+import type { DownloadMetadata } from "@/types/download";
+
+/**
+ * Display helpers for post details (duration, counts, date, hashtags)
+ */
+
+// Hashtags inside a caption; letters, digits and underscores in any script
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+
+/**
+ * Clock-style duration: "0:42", "3:05", "1:02:03"
+ */
+export function formatDuration(seconds: number): string {
+	const total = Math.round(seconds);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = String(total % 60).padStart(2, "0");
+	return hours > 0
+		? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+		: `${minutes}:${secs}`;
+}
+
+/**
+ * Compact count: 950, "1.2K", "3.4M" ("1.2万" in Chinese)
+ */
+export function formatCount(count: number, locale = "en"): string {
+	return new Intl.NumberFormat(locale, {
+		notation: "compact",
+		maximumFractionDigits: 1,
+	}).format(count);
+}
+
+/**
+ * Post date in the reader's locale, e.g. "Mar 5, 2025"; null for unparseable dates
+ */
+export function formatPostDate(iso: string, locale?: string): string | null {
+	const date = new Date(iso);
+	if (Number.isNaN(date.getTime())) {
+		return null;
+	}
+	return date.toLocaleDateString(locale, {
+		year: "numeric",
+		month: "short",
+		day: "numeric",
+	});
+}
+
+/**
+ * The post's hashtags: its tags plus any in the caption, "#"-prefixed and
+ * without case-insensitive duplicates
+ */
+export function postHashtags(metadata: DownloadMetadata): string[] {
+	const seen = new Set<string>();
+	const hashtags: string[] = [];
+	const captionTags = [
+		...(metadata.description ?? "").matchAll(HASHTAG_PATTERN),
+	].map((match) => match[1]);
+
+	for (const tag of [...(metadata.tags ?? []), ...captionTags]) {
+		// Multi-word tags (common on YouTube) become one word, as hashtags must be
+		const name = tag.replace(/^#/, "").replace(/\s+/g, "");
+		const key = name.toLowerCase();
+		if (!name || seen.has(key)) continue;
+		seen.add(key);
+		hashtags.push(`#${name}`);
+	}
+
+	return hashtags;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+	applyRateLimit,
+	type RateLimitAlgorithm,
+	type RateLimitPolicy,
+} from "./rate-limit-algorithms";
+import type { RateLimitData } from "./rate-limit-storage";
+
+const policy = (algorithm: RateLimitAlgorithm): RateLimitPolicy => ({
+	algorithm,
+	limit: 3,
+	window: 60000,
+});
+
+/**
+ * Run requests at the given times, threading the stored entry through
+ */
+function run(p: RateLimitPolicy, times: number[]) {
+	let entry: RateLimitData | null = null;
+	return times.map((now) => {
+		const outcome = applyRateLimit(p, entry, now);
+		entry = outcome.entry;
+		return outcome.decision;
+	});
+}
+
+describe("fixed-window", () => {
+	it("should allow a burst at the window boundary", () => {
+		// 3 requests at the end of one window and 3 at the start of the next
+		const decisions = run(
+			policy("fixed-window"),
+			[0, 59000, 59500, 59900, 60000, 60100, 60200],
+		);
+		expect(decisions.map((d) => d.allowed)).toEqual([
+			true,
+			true,
+			true,
+			false,
+			true,
+			true,
+			true,
+		]);
+	});
+
+	it("should count down remaining requests", () => {
+		const decisions = run(policy("fixed-window"), [0, 1, 2]);
+		expect(decisions.map((d) => d.remaining)).toEqual([2, 1, 0]);
+		expect(decisions[0].resetTime).toBe(60000);
+	});
+});
+
+describe("sliding-log", () => {
+	it("should not allow a burst at the window boundary", () => {
+		const decisions = run(
+			policy("sliding-log"),
+			[0, 59000, 59500, 60000, 60100, 119000],
+		);
+		expect(decisions.map((d) => d.allowed)).toEqual([
+			true,
+			true,
+			true,
+			true, // The request at 0 has left the window
+			false,
+			true, // The request at 59000 has left the window
+		]);
+	});
+
+	it("should reset when the oldest request leaves the window", () => {
+		const [, , third] = run(policy("sliding-log"), [0, 1000, 2000]);
+		expect(third.remaining).toBe(0);
+		expect(third.resetTime).toBe(60000);
+	});
+});
+
+describe("token-bucket", () => {
+	it("should refill tokens over the window", () => {
+		// Capacity 3 refilled over 60s: one token every 20s
+		const decisions = run(policy("token-bucket"), [0, 0, 0, 0, 20000, 20000]);
+		expect(decisions.map((d) => d.allowed)).toEqual([
+			true,
+			true,
+			true,
+			false,
+			true,
+			false,
+		]);
+	});
+
+	it("should report when the next token is available", () => {
+		const decisions = run(policy("token-bucket"), [0, 0, 0, 0]);
+		expect(decisions[3].remaining).toBe(0);
+		expect(decisions[3].resetTime).toBe(20000);
+	});
+});
+
+describe("peek", () => {
+	it.each([
+		"fixed-window",
+		"sliding-log",
+		"token-bucket",
+	] as RateLimitAlgorithm[])(
+		"should not consume quota (%s)",
+		(algorithm: RateLimitAlgorithm) => {
+			const p = policy(algorithm);
+			const { entry } = applyRateLimit(p, null, 0);
+			const peeked = applyRateLimit(p, entry, 0, false);
+
+			expect(peeked.decision.remaining).toBe(2);
+			expect(peeked.entry).toEqual(entry);
+		},
+	);
+});
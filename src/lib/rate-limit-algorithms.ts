@@ -0,0 +1,163 @@
+import type { RateLimitData } from "@/lib/rate-limit-storage";
+
+/**
+ * Rate limiting algorithms
+ * Pure functions over a stored entry, so every storage backend supports all of them.
+ */
+
+export const RATE_LIMIT_ALGORITHMS = [
+	"fixed-window",
+	"sliding-log",
+	"token-bucket",
+] as const;
+
+export type RateLimitAlgorithm = (typeof RATE_LIMIT_ALGORITHMS)[number];
+
+export interface RateLimitPolicy {
+	algorithm: RateLimitAlgorithm;
+	limit: number;
+	window: number; // Milliseconds
+}
+
+export interface RateLimitDecision {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	/** When the quota is restored (allowed) or the next request may succeed (blocked) */
+	resetTime: number;
+	window: number;
+}
+
+export interface RateLimitOutcome {
+	entry: RateLimitData | null; // Next stored state; null when nothing needs keeping
+	decision: RateLimitDecision;
+}
+
+/**
+ * Fixed window: a counter that resets at the end of each window
+ * Cheap, but allows up to 2x the limit across a window boundary.
+ */
+function fixedWindow(
+	policy: RateLimitPolicy,
+	entry: RateLimitData | null,
+	now: number,
+	consume: boolean,
+): RateLimitOutcome {
+	const current =
+		entry && now < entry.resetTime
+			? entry
+			: { count: 0, resetTime: now + policy.window };
+	const allowed = current.count < policy.limit;
+	const count = allowed && consume ? current.count + 1 : current.count;
+
+	return {
+		entry: count > 0 ? { count, resetTime: current.resetTime } : null,
+		decision: {
+			allowed,
+			limit: policy.limit,
+			remaining: Math.max(0, policy.limit - count),
+			resetTime: current.resetTime,
+			window: policy.window,
+		},
+	};
+}
+
+/**
+ * Sliding log: remembers each request time and counts those within the last window
+ * Exact, at the cost of storing up to `limit` timestamps per client.
+ */
+function slidingLog(
+	policy: RateLimitPolicy,
+	entry: RateLimitData | null,
+	now: number,
+	consume: boolean,
+): RateLimitOutcome {
+	const log = (entry?.log ?? []).filter((time) => time > now - policy.window);
+	const allowed = log.length < policy.limit;
+	if (allowed && consume) {
+		log.push(now);
+	}
+
+	return {
+		entry:
+			log.length > 0
+				? {
+						count: log.length,
+						log,
+						resetTime: log[log.length - 1] + policy.window,
+					}
+				: null,
+		decision: {
+			allowed,
+			limit: policy.limit,
+			remaining: Math.max(0, policy.limit - log.length),
+			// The oldest request leaving the window frees the next slot
+			resetTime: log.length > 0 ? log[0] + policy.window : now,
+			window: policy.window,
+		},
+	};
+}
+
+/**
+ * Token bucket: `limit` tokens refilled continuously over one window
+ * Allows short bursts up to the limit while enforcing the average rate.
+ */
+function tokenBucket(
+	policy: RateLimitPolicy,
+	entry: RateLimitData | null,
+	now: number,
+	consume: boolean,
+): RateLimitOutcome {
+	const refillRate = policy.limit / policy.window; // Tokens per millisecond
+	const elapsed = entry?.refilledAt !== undefined ? now - entry.refilledAt : 0;
+	let tokens = Math.min(
+		policy.limit,
+		(entry?.tokens ?? policy.limit) + elapsed * refillRate,
+	);
+
+	const allowed = tokens >= 1;
+	if (allowed && consume) {
+		tokens -= 1;
+	}
+
+	const fullAt = now + Math.ceil((policy.limit - tokens) / refillRate);
+
+	return {
+		entry:
+			tokens < policy.limit
+				? {
+						count: Math.ceil(policy.limit - tokens),
+						tokens,
+						refilledAt: now,
+						resetTime: fullAt,
+					}
+				: null,
+		decision: {
+			allowed,
+			limit: policy.limit,
+			remaining: Math.floor(tokens),
+			resetTime: allowed ? fullAt : now + Math.ceil((1 - tokens) / refillRate),
+			window: policy.window,
+		},
+	};
+}
+
+/**
+ * Evaluate a request against a policy
+ * With `consume` false the decision describes the current state without spending quota.
+ */
+export function applyRateLimit(
+	policy: RateLimitPolicy,
+	entry: RateLimitData | null,
+	now: number,
+	consume = true,
+): RateLimitOutcome {
+	switch (policy.algorithm) {
+		case "sliding-log":
+			return slidingLog(policy, entry, now, consume);
+		case "token-bucket":
+			return tokenBucket(policy, entry, now, consume);
+		default:
+			return fixedWindow(policy, entry, now, consume);
+	}
+}
@@ -0,0 +1,299 @@
+import { mkdirSync } from "node:fs";
+import {
+	type FileHandle,
+	open,
+	readFile,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname } from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import { setTimeout as sleep } from "node:timers/promises";
+
+export interface RateLimitData {
+	count: number;
+	resetTime: number; // Also when the entry can be discarded
+	log?: number[]; // Sliding log: request timestamps within the window
+	tokens?: number; // Token bucket: tokens left after the last refill
+	refilledAt?: number; // Token bucket: time of the last refill
+}
+
+/**
+ * Storage backend for rate limit state
+ *
+ * `update` is an atomic read-modify-write, so several processes sharing one
+ * file or database see consistent quotas.
+ */
+export interface RateLimitStorage {
+	/**
+	 * Atomically replace a client's entry with `fn(current)`; `null` removes it
+	 */
+	update(
+		clientId: string,
+		fn: (entry: RateLimitData | null) => RateLimitData | null,
+	): Promise<RateLimitData | null>;
+	get(clientId: string): Promise<RateLimitData | null>;
+	/**
+	 * Remove entries whose window ended before `now`
+	 */
+	cleanup(now: number): Promise<void>;
+	close(): void;
+}
+
+export type RateLimitStorageKind = "file" | "memory" | "sqlite";
+
+/**
+ * In-process storage; quotas are per process and lost on restart
+ */
+export class MemoryRateLimitStorage implements RateLimitStorage {
+	private entries = new Map<string, RateLimitData>();
+
+	async update(
+		clientId: string,
+		fn: (entry: RateLimitData | null) => RateLimitData | null,
+	): Promise<RateLimitData | null> {
+		const next = fn(this.entries.get(clientId) ?? null);
+		if (next) {
+			this.entries.set(clientId, next);
+		} else {
+			this.entries.delete(clientId);
+		}
+		return next;
+	}
+
+	async get(clientId: string): Promise<RateLimitData | null> {
+		return this.entries.get(clientId) ?? null;
+	}
+
+	async cleanup(now: number): Promise<void> {
+		for (const [clientId, data] of this.entries) {
+			if (now >= data.resetTime) {
+				this.entries.delete(clientId);
+			}
+		}
+	}
+
+	close(): void {}
+}
+
+// How long to wait for another process to release the file lock
+const LOCK_TIMEOUT = 2000;
+// Pause between attempts to take the lock
+const LOCK_RETRY_DELAY = 5;
+// Locks older than this were left behind by a crashed process
+const STALE_LOCK_AGE = 10000;
+
+/**
+ * JSON file storage
+ * Writes go through a lock file and an atomic rename, so readers never see a
+ * partially written file and concurrent writers don't lose updates.
+ */
+export class FileRateLimitStorage implements RateLimitStorage {
+	private path: string;
+	private lockPath: string;
+
+	constructor(path: string) {
+		this.path = path;
+		this.lockPath = `${path}.lock`;
+		mkdirSync(dirname(path), { recursive: true });
+	}
+
+	private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+		const deadline = Date.now() + LOCK_TIMEOUT;
+		let lock: FileHandle | undefined;
+
+		while (lock === undefined) {
+			try {
+				lock = await open(this.lockPath, "wx");
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+					throw error;
+				}
+				if (await this.isLockStale()) {
+					await rm(this.lockPath, { force: true });
+					continue;
+				}
+				if (Date.now() > deadline) {
+					throw new Error("Timed out waiting for rate limit lock");
+				}
+				// Brief back-off before retrying
+				await sleep(LOCK_RETRY_DELAY);
+			}
+		}
+
+		try {
+			return await fn();
+		} finally {
+			await lock.close();
+			await rm(this.lockPath, { force: true });
+		}
+	}
+
+	private async isLockStale(): Promise<boolean> {
+		try {
+			return Date.now() - (await stat(this.lockPath)).mtimeMs > STALE_LOCK_AGE;
+		} catch {
+			return false;
+		}
+	}
+
+	private async read(): Promise<Record<string, RateLimitData>> {
+		try {
+			return JSON.parse(await readFile(this.path, "utf-8"));
+		} catch (error) {
+			// A missing file just means no state yet
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				if (import.meta.env.DEV) {
+					console.error("Failed to load rate limit data:", error);
+				}
+			}
+			return {};
+		}
+	}
+
+	private async write(store: Record<string, RateLimitData>): Promise<void> {
+		const tempPath = `${this.path}.${process.pid}.tmp`;
+		await writeFile(tempPath, JSON.stringify(store), "utf-8");
+		await rename(tempPath, this.path);
+	}
+
+	update(
+		clientId: string,
+		fn: (entry: RateLimitData | null) => RateLimitData | null,
+	): Promise<RateLimitData | null> {
+		return this.withLock(async () => {
+			const store = await this.read();
+			const next = fn(store[clientId] ?? null);
+			if (next) {
+				store[clientId] = next;
+			} else {
+				delete store[clientId];
+			}
+			await this.write(store);
+			return next;
+		});
+	}
+
+	async get(clientId: string): Promise<RateLimitData | null> {
+		return (await this.read())[clientId] ?? null;
+	}
+
+	cleanup(now: number): Promise<void> {
+		return this.withLock(async () => {
+			const store = await this.read();
+			let modified = false;
+
+			for (const [clientId, data] of Object.entries(store)) {
+				if (now >= data.resetTime) {
+					delete store[clientId];
+					modified = true;
+				}
+			}
+
+			if (modified) {
+				await this.write(store);
+			}
+		});
+	}
+
+	close(): void {}
+}
+
+/**
+ * SQLite storage (requires Node.js 22.5+ for `node:sqlite`)
+ * Each update runs in an immediate transaction; WAL mode lets readers proceed
+ * while another process writes. `node:sqlite` is synchronous, so a write that
+ * waits on another process's lock blocks this one for up to LOCK_TIMEOUT.
+ */
+export class SqliteRateLimitStorage implements RateLimitStorage {
+	private db: DatabaseSync;
+
+	constructor(path: string) {
+		// Loaded lazily so older runtimes can still use the other storages
+		const require = createRequire(import.meta.url);
+		const { DatabaseSync } =
+			require("node:sqlite") as typeof import("node:sqlite");
+
+		if (path !== ":memory:") {
+			mkdirSync(dirname(path), { recursive: true });
+		}
+		this.db = new DatabaseSync(path);
+		this.db.exec(`
+			PRAGMA journal_mode = WAL;
+			PRAGMA busy_timeout = ${LOCK_TIMEOUT};
+			CREATE TABLE IF NOT EXISTS rate_limit_entries (
+				client_id TEXT PRIMARY KEY,
+				data TEXT NOT NULL,
+				reset_time INTEGER NOT NULL
+			);
+		`);
+	}
+
+	async update(
+		clientId: string,
+		fn: (entry: RateLimitData | null) => RateLimitData | null,
+	): Promise<RateLimitData | null> {
+		this.db.exec("BEGIN IMMEDIATE");
+		try {
+			const next = fn(this.read(clientId));
+			if (next) {
+				this.db
+					.prepare(
+						`INSERT INTO rate_limit_entries (client_id, data, reset_time) VALUES (?, ?, ?)
+						ON CONFLICT(client_id) DO UPDATE SET data = excluded.data, reset_time = excluded.reset_time`,
+					)
+					.run(clientId, JSON.stringify(next), next.resetTime);
+			} else {
+				this.db
+					.prepare("DELETE FROM rate_limit_entries WHERE client_id = ?")
+					.run(clientId);
+			}
+			this.db.exec("COMMIT");
+			return next;
+		} catch (error) {
+			this.db.exec("ROLLBACK");
+			throw error;
+		}
+	}
+
+	async get(clientId: string): Promise<RateLimitData | null> {
+		return this.read(clientId);
+	}
+
+	private read(clientId: string): RateLimitData | null {
+		const row = this.db
+			.prepare("SELECT data FROM rate_limit_entries WHERE client_id = ?")
+			.get(clientId) as { data: string } | undefined;
+		return row ? (JSON.parse(row.data) as RateLimitData) : null;
+	}
+
+	async cleanup(now: number): Promise<void> {
+		this.db
+			.prepare("DELETE FROM rate_limit_entries WHERE reset_time <= ?")
+			.run(now);
+	}
+
+	close(): void {
+		this.db.close();
+	}
+}
+
+/**
+ * Create the storage selected by configuration
+ */
+export function createRateLimitStorage(
+	kind: RateLimitStorageKind,
+	path: string,
+): RateLimitStorage {
+	switch (kind) {
+		case "memory":
+			return new MemoryRateLimitStorage();
+		case "sqlite":
+			return new SqliteRateLimitStorage(path);
+		default:
+			return new FileRateLimitStorage(path);
+	}
+}
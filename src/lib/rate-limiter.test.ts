@@ -0,0 +1,147 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { RateLimitPolicy } from "./rate-limit-algorithms";
+import {
+	FileRateLimitStorage,
+	MemoryRateLimitStorage,
+	type RateLimitData,
+	type RateLimitStorage,
+	SqliteRateLimitStorage,
+} from "./rate-limit-storage";
+import { RateLimiter } from "./rate-limiter";
+
+const policy = (limit: number): RateLimitPolicy => ({
+	algorithm: "fixed-window",
+	limit,
+	window: 60000,
+});
+
+const tempDirs: string[] = [];
+
+function tempPath(name: string): string {
+	const dir = mkdtempSync(join(tmpdir(), "snatch-rate-limit-"));
+	tempDirs.push(dir);
+	return join(dir, name);
+}
+
+afterEach(() => {
+	for (const dir of tempDirs.splice(0)) {
+		rmSync(dir, { recursive: true, force: true });
+	}
+});
+
+type StoragePair = () => [RateLimitStorage, RateLimitStorage];
+
+const storages: [string, StoragePair][] = [
+	[
+		"file",
+		() => {
+			const path = tempPath("rate-limits.json");
+			return [new FileRateLimitStorage(path), new FileRateLimitStorage(path)];
+		},
+	],
+	[
+		"sqlite",
+		() => {
+			const path = tempPath("rate-limits.db");
+			return [
+				new SqliteRateLimitStorage(path),
+				new SqliteRateLimitStorage(path),
+			];
+		},
+	],
+];
+
+describe("RateLimiter", () => {
+	it("should block requests exceeding the limit", async () => {
+		const limiter = new RateLimiter(new MemoryRateLimitStorage(), policy(2));
+
+		expect((await limiter.check("client")).allowed).toBe(true);
+		expect((await limiter.check("client")).allowed).toBe(true);
+
+		const blocked = await limiter.check("client");
+		expect(blocked.allowed).toBe(false);
+		expect(blocked.remaining).toBe(0);
+		expect(blocked.resetTime).toBeGreaterThan(Date.now());
+		limiter.close();
+	});
+
+	it("should report quota without spending it on peek", async () => {
+		const limiter = new RateLimiter(new MemoryRateLimitStorage(), policy(3));
+		await limiter.check("client");
+
+		expect((await limiter.peek("client")).remaining).toBe(2);
+		expect((await limiter.peek("client")).remaining).toBe(2);
+		expect((await limiter.peek("other")).remaining).toBe(3);
+		limiter.close();
+	});
+
+	it("should start a new window after reset", async () => {
+		const limiter = new RateLimiter(new MemoryRateLimitStorage(), policy(1));
+		await limiter.check("client");
+		await limiter.reset("client");
+
+		expect((await limiter.check("client")).allowed).toBe(true);
+		expect((await limiter.getStatus("client"))?.count).toBe(1);
+		limiter.close();
+	});
+});
+
+describe.each(storages)("%s storage", (_name: string, create: StoragePair) => {
+	it("should persist state across instances", async () => {
+		const [first, second] = create();
+		await first.update("client", () => ({
+			count: 3,
+			resetTime: Date.now() + 1000,
+		}));
+
+		expect((await second.get("client"))?.count).toBe(3);
+		first.close();
+		second.close();
+	});
+
+	it("should share quotas between limiters on the same store", async () => {
+		const [first, second] = create();
+		const a = new RateLimiter(first, policy(3));
+		const b = new RateLimiter(second, policy(3));
+
+		expect((await a.check("client")).allowed).toBe(true);
+		expect((await b.check("client")).allowed).toBe(true);
+		expect((await a.check("client")).allowed).toBe(true);
+		expect((await b.check("client")).allowed).toBe(false);
+		a.close();
+		b.close();
+	});
+
+	it("should not lose concurrent updates", async () => {
+		const [first, second] = create();
+		const increment = (entry: RateLimitData | null) => ({
+			count: (entry?.count ?? 0) + 1,
+			resetTime: Date.now() + 1000,
+		});
+		await Promise.all(
+			Array.from({ length: 10 }, (_, index) =>
+				(index % 2 ? first : second).update("client", increment),
+			),
+		);
+
+		expect((await first.get("client"))?.count).toBe(10);
+		first.close();
+		second.close();
+	});
+
+	it("should remove expired entries on cleanup", async () => {
+		const [storage, other] = create();
+		const now = Date.now();
+		await storage.update("old", () => ({ count: 1, resetTime: now - 1 }));
+		await storage.update("new", () => ({ count: 1, resetTime: now + 1000 }));
+		await storage.cleanup(now);
+
+		expect(await storage.get("old")).toBeNull();
+		expect(await storage.get("new")).not.toBeNull();
+		storage.close();
+		other.close();
+	});
+});
@@ -1,168 +1,101 @@
-import { existsSync } from "node:fs";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
-import { join } from "node:path";
 import { getConfig } from "@/config/env";
-
-interface RateLimitData {
-	count: number;
-	resetTime: number;
-}
-
-interface RateLimitStore {
-	[clientId: string]: RateLimitData;
-}
+import {
+	applyRateLimit,
+	type RateLimitDecision,
+	type RateLimitPolicy,
+} from "@/lib/rate-limit-algorithms";
+import {
+	createRateLimitStorage,
+	type RateLimitStorage,
+} from "@/lib/rate-limit-storage";
 
 /**
- * Persistent rate limiter using file-based storage
+ * Persistent rate limiter backed by a pluggable storage
  * Survives server restarts and works in containerized environments
  */
 export class RateLimiter {
-	private dbPath: string;
-	private window: number;
-	private max: number;
-	private store: RateLimitStore = {};
-	private lastSave: number = 0;
-	private saveDebounce: number = 5000; // Save at most every 5 seconds
-
-	constructor(dbPath: string, window: number, max: number) {
-		this.dbPath = dbPath;
-		this.window = window;
-		this.max = max;
-		this.load();
-		this.startPeriodicSave();
-		this.startPeriodicCleanup();
+	private storage: RateLimitStorage;
+	private policy: RateLimitPolicy;
+	private cleanupTimer: ReturnType<typeof setInterval>;
+
+	constructor(storage: RateLimitStorage, policy: RateLimitPolicy) {
+		this.storage = storage;
+		this.policy = policy;
+		this.cleanupTimer = this.startPeriodicCleanup();
 	}
 
 	/**
-	 * Load rate limit data from disk
+	 * Periodically clean up expired entries
 	 */
-	private load(): void {
-		try {
-			if (existsSync(this.dbPath)) {
-				const data = readFile(this.dbPath, "utf-8");
-				this.store = JSON.parse(data.toString());
-			}
-		} catch (error) {
-			// Only log error in development
-			if (import.meta.env.DEV) {
-				console.error("Failed to load rate limit data:", error);
-			}
-			this.store = {};
-		}
+	private startPeriodicCleanup(): ReturnType<typeof setInterval> {
+		const timer = setInterval(() => {
+			this.cleanup();
+		}, 60000); // Every minute
+
+		// Don't keep the process alive just for cleanup
+		timer.unref?.();
+		return timer;
 	}
 
 	/**
-	 * Save rate limit data to disk (debounced)
+	 * Remove expired entries from storage
 	 */
-	private async save(): Promise<void> {
-		const now = Date.now();
-		if (now - this.lastSave < this.saveDebounce) {
-			return;
-		}
-		this.lastSave = now;
-
+	private async cleanup(): Promise<void> {
 		try {
-			const dir = join(this.dbPath, "..");
-			if (!existsSync(dir)) {
-				await mkdir(dir, { recursive: true });
-			}
-			await writeFile(this.dbPath, JSON.stringify(this.store), "utf-8");
+			await this.storage.cleanup(Date.now());
 		} catch (error) {
 			// Only log error in development
 			if (import.meta.env.DEV) {
-				console.error("Failed to save rate limit data:", error);
+				console.error("Failed to clean up rate limit data:", error);
 			}
 		}
 	}
 
 	/**
-	 * Periodically save data to disk
-	 */
-	private startPeriodicSave(): void {
-		setInterval(() => {
-			this.save();
-		}, this.saveDebounce);
-	}
-
-	/**
-	 * Periodically clean up expired entries
-	 */
-	private startPeriodicCleanup(): void {
-		setInterval(() => {
-			this.cleanup();
-		}, 60000); // Every minute
-	}
-
-	/**
-	 * Remove expired entries from memory
+	 * Check if a client is rate limited, spending one request of quota if allowed
+	 * `policy` overrides the default (e.g. for a route or platform with its own limits)
 	 */
-	private cleanup(): void {
+	async check(
+		clientId: string,
+		policy = this.policy,
+	): Promise<RateLimitDecision> {
 		const now = Date.now();
-		let modified = false;
+		let decision: RateLimitDecision | undefined;
 
-		for (const [clientId, data] of Object.entries(this.store)) {
-			if (now >= data.resetTime) {
-				delete this.store[clientId];
-				modified = true;
-			}
-		}
+		await this.storage.update(clientId, (existing) => {
+			const outcome = applyRateLimit(policy, existing, now);
+			decision = outcome.decision;
+			return outcome.entry;
+		});
 
-		if (modified) {
-			this.save();
-		}
+		return decision as RateLimitDecision;
 	}
 
 	/**
-	 * Check if a client is rate limited
+	 * Describe a client's current quota without spending any of it
 	 */
-	check(clientId: string): { allowed: boolean; resetTime?: number } {
-		const now = Date.now();
-
-		// Clean up expired entry for this client
-		const existing = this.store[clientId];
-		if (existing && now >= existing.resetTime) {
-			delete this.store[clientId];
-		}
-
-		const entry = this.store[clientId];
-
-		// No entry or expired - initialize
-		if (!entry) {
-			this.store[clientId] = {
-				count: 1,
-				resetTime: now + this.window,
-			};
-			this.save();
-			return { allowed: true };
-		}
-
-		// Rate limit exceeded
-		if (entry.count >= this.max) {
-			return {
-				allowed: false,
-				resetTime: entry.resetTime,
-			};
-		}
-
-		// Increment count
-		entry.count++;
-		this.save();
-		return { allowed: true };
+	async peek(
+		clientId: string,
+		policy = this.policy,
+	): Promise<RateLimitDecision> {
+		const entry = await this.storage.get(clientId);
+		return applyRateLimit(policy, entry, Date.now(), false).decision;
 	}
 
 	/**
 	 * Reset rate limit for a specific client (for testing/admin)
 	 */
-	reset(clientId: string): void {
-		delete this.store[clientId];
-		this.save();
+	async reset(clientId: string): Promise<void> {
+		await this.storage.update(clientId, () => null);
 	}
 
 	/**
 	 * Get current rate limit status for a client
 	 */
-	getStatus(clientId: string): { count: number; resetTime: number } | null {
-		const entry = this.store[clientId];
+	async getStatus(
+		clientId: string,
+	): Promise<{ count: number; resetTime: number } | null> {
+		const entry = await this.storage.get(clientId);
 		if (!entry) {
 			return null;
 		}
@@ -173,10 +106,11 @@ export class RateLimiter {
 	}
 
 	/**
-	 * Close the rate limiter and save final state
+	 * Stop background work and release the storage
 	 */
-	async close(): Promise<void> {
-		await this.save();
+	close(): void {
+		clearInterval(this.cleanupTimer);
+		this.storage.close();
 	}
 }
 
@@ -189,22 +123,38 @@ let instance: RateLimiter | null = null;
 export function getRateLimiter(): RateLimiter {
 	if (!instance) {
 		const config = getConfig();
-		const dbPath = process.env.RATE_LIMIT_DB_PATH || "./data/rate-limits.json";
-		const window = config.rateLimitWindow;
-		const max = config.rateLimitMax;
+		const store = config.rateLimitStore ?? "file";
+		const dbPath =
+			config.rateLimitDbPath ||
+			(store === "sqlite"
+				? "./data/rate-limits.db"
+				: "./data/rate-limits.json");
+		const policy: RateLimitPolicy = {
+			algorithm: config.rateLimitAlgorithm ?? "fixed-window",
+			limit: config.rateLimitMax,
+			window: config.rateLimitWindow,
+		};
 
-		instance = new RateLimiter(dbPath, window, max);
+		instance = new RateLimiter(createRateLimitStorage(store, dbPath), policy);
 
 		// Only log initialization in development
 		if (import.meta.env.DEV) {
 			console.log(
-				`[RateLimiter] Initialized with window=${window}ms, max=${max}, db=${dbPath}`,
+				`[RateLimiter] Initialized with algorithm=${policy.algorithm}, window=${policy.window}ms, max=${policy.limit}, store=${store}, db=${dbPath}`,
 			);
 		}
 	}
 	return instance;
 }
 
+/**
+ * Use `limiter` as the singleton, e.g. one with in-memory storage (for testing)
+ */
+export function setRateLimiter(limiter: RateLimiter): void {
+	resetRateLimiter();
+	instance = limiter;
+}
+
 /**
  * Reset the singleton instance (for testing)
  */
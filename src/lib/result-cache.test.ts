@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { DownloadResponse } from "@/types/download";
+import {
+	type CacheEntry,
+	cacheStatusHeader,
+	MemoryLRUStore,
+	ResultCache,
+	resultCacheKey,
+} from "./result-cache";
+
+const okResponse: DownloadResponse = {
+	success: true,
+	results: [],
+	platform: "tiktok",
+};
+
+const entry = (expiresAt = Date.now() + 60000): CacheEntry => ({
+	response: okResponse,
+	storedAt: Date.now(),
+	expiresAt,
+});
+
+describe("MemoryLRUStore", () => {
+	it("should evict the least recently used entry", async () => {
+		const store = new MemoryLRUStore(2);
+		await store.set("a", entry());
+		await store.set("b", entry());
+		await store.get("a"); // "b" is now least recent
+		await store.set("c", entry());
+
+		expect(await store.get("a")).not.toBeNull();
+		expect(await store.get("b")).toBeNull();
+		expect(await store.get("c")).not.toBeNull();
+		expect(store.size).toBe(2);
+	});
+});
+
+describe("ResultCache", () => {
+	it("should return stored responses with age and ttl", async () => {
+		const cache = new ResultCache([new MemoryLRUStore(10)], 60000);
+		await cache.set("tiktok:1", okResponse);
+
+		const hit = await cache.get("tiktok:1");
+		expect(hit?.response).toEqual(okResponse);
+		expect(hit?.age).toBe(0);
+		expect(hit?.ttl).toBe(60);
+	});
+
+	it("should not store failed responses", async () => {
+		const cache = new ResultCache([new MemoryLRUStore(10)], 60000);
+		await cache.set("tiktok:1", { success: false, error: "nope" });
+		expect(await cache.get("tiktok:1")).toBeNull();
+	});
+
+	it("should drop expired entries", async () => {
+		const store = new MemoryLRUStore(10);
+		await store.set("tiktok:1", entry(Date.now() - 1));
+		const cache = new ResultCache([store], 60000);
+
+		expect(await cache.get("tiktok:1")).toBeNull();
+		expect(store.size).toBe(0);
+	});
+
+	it("should promote hits from slower tiers", async () => {
+		const fast = new MemoryLRUStore(10);
+		const slow = new MemoryLRUStore(10);
+		await slow.set("tiktok:1", entry());
+		const cache = new ResultCache([fast, slow], 60000);
+
+		expect(await cache.get("tiktok:1")).not.toBeNull();
+		expect(await fast.get("tiktok:1")).not.toBeNull();
+	});
+});
+
+describe("cache helpers", () => {
+	it("should build keys from platform and content ID", () => {
+		expect(resultCacheKey("instagram", "ABC123")).toBe("instagram:ABC123");
+	});
+
+	it("should format Cache-Status values", () => {
+		expect(cacheStatusHeader({ ttl: 30 })).toBe("snatch; hit; ttl=30");
+		expect(cacheStatusHeader(null, true)).toBe("snatch; fwd=miss; stored");
+		expect(cacheStatusHeader(null)).toBe("snatch; fwd=miss");
+	});
+});
@@ -0,0 +1,247 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getConfig } from "@/config/env";
+import type {
+	DownloadResponse,
+	QualityPreference,
+	SupportedPlatform,
+} from "@/types/download";
+
+/**
+ * Cache of extraction results keyed by platform and content ID
+ * Lookups go through the store tiers in order (fastest first) and hits in a
+ * slower tier are copied back into the faster ones.
+ */
+
+export interface CacheEntry {
+	response: DownloadResponse;
+	storedAt: number;
+	expiresAt: number;
+}
+
+/**
+ * Storage backend for cached results
+ */
+export interface CacheStore {
+	get(key: string): Promise<CacheEntry | null>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory LRU store
+ * Relies on Map preserving insertion order: re-inserting on read marks an entry as recent
+ */
+export class MemoryLRUStore implements CacheStore {
+	private entries = new Map<string, CacheEntry>();
+	private maxEntries: number;
+
+	constructor(maxEntries: number) {
+		this.maxEntries = maxEntries;
+	}
+
+	async get(key: string): Promise<CacheEntry | null> {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return null;
+		}
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry;
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+
+		// Evict least recently used entries
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) break;
+			this.entries.delete(oldest);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+/**
+ * Persistent store keeping one JSON file per entry
+ * Survives restarts and can be shared by processes on the same volume
+ */
+export class FileCacheStore implements CacheStore {
+	private dir: string;
+
+	constructor(dir: string) {
+		this.dir = dir;
+	}
+
+	private pathFor(key: string): string {
+		const name = createHash("sha256").update(key).digest("hex");
+		return join(this.dir, `${name}.json`);
+	}
+
+	async get(key: string): Promise<CacheEntry | null> {
+		try {
+			const data = await readFile(this.pathFor(key), "utf-8");
+			return JSON.parse(data) as CacheEntry;
+		} catch {
+			return null;
+		}
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		await mkdir(this.dir, { recursive: true });
+		await writeFile(this.pathFor(key), JSON.stringify(entry), "utf-8");
+	}
+
+	async delete(key: string): Promise<void> {
+		await rm(this.pathFor(key), { force: true });
+	}
+}
+
+export class ResultCache {
+	private stores: CacheStore[];
+	private ttl: number;
+
+	constructor(stores: CacheStore[], ttl: number) {
+		this.stores = stores;
+		this.ttl = ttl;
+	}
+
+	/**
+	 * Look up a fresh entry; returns its age in seconds alongside the response
+	 */
+	async get(
+		key: string,
+	): Promise<{ response: DownloadResponse; age: number; ttl: number } | null> {
+		const now = Date.now();
+
+		for (const [tier, store] of this.stores.entries()) {
+			let entry: CacheEntry | null = null;
+			try {
+				entry = await store.get(key);
+			} catch (error) {
+				if (import.meta.env.DEV) {
+					console.error("Result cache read failed:", error);
+				}
+			}
+
+			if (!entry) continue;
+
+			if (now >= entry.expiresAt) {
+				await store.delete(key).catch(() => {});
+				continue;
+			}
+
+			// Promote into faster tiers
+			for (const faster of this.stores.slice(0, tier)) {
+				await faster.set(key, entry).catch(() => {});
+			}
+
+			return {
+				response: entry.response,
+				age: Math.floor((now - entry.storedAt) / 1000),
+				ttl: Math.ceil((entry.expiresAt - now) / 1000),
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Store a successful response in every tier
+	 */
+	async set(key: string, response: DownloadResponse): Promise<void> {
+		if (!response.success || this.ttl <= 0) {
+			return;
+		}
+
+		const now = Date.now();
+		const entry: CacheEntry = {
+			response,
+			storedAt: now,
+			expiresAt: now + this.ttl,
+		};
+
+		await Promise.all(
+			this.stores.map((store) =>
+				store.set(key, entry).catch((error) => {
+					if (import.meta.env.DEV) {
+						console.error("Result cache write failed:", error);
+					}
+				}),
+			),
+		);
+	}
+}
+
+/**
+ * Build a cache key from a validated URL
+ * Requests with a quality preference get results ordered for it, so they are cached apart.
+ */
+export function resultCacheKey(
+	platform: SupportedPlatform,
+	contentId: string,
+	quality?: QualityPreference,
+): string {
+	return quality
+		? `${platform}:${contentId}:${quality}`
+		: `${platform}:${contentId}`;
+}
+
+/**
+ * Format a `Cache-Status` header value (RFC 9211)
+ */
+export function cacheStatusHeader(
+	hit: { ttl: number } | null,
+	stored = false,
+): string {
+	if (hit) {
+		return `snatch; hit; ttl=${hit.ttl}`;
+	}
+	return stored ? "snatch; fwd=miss; stored" : "snatch; fwd=miss";
+}
+
+// Singleton instance
+let instance: ResultCache | null = null;
+
+/**
+ * Get the singleton result cache instance
+ */
+export function getResultCache(): ResultCache {
+	if (!instance) {
+		const config = getConfig();
+		const stores: CacheStore[] = [
+			new MemoryLRUStore(config.resultCacheMaxEntries),
+		];
+
+		if (config.resultCacheStore === "file") {
+			stores.push(new FileCacheStore(config.resultCacheDir));
+		}
+
+		instance = new ResultCache(stores, config.resultCacheTtl);
+
+		// Only log initialization in development
+		if (import.meta.env.DEV) {
+			console.log(
+				`[ResultCache] Initialized with ttl=${config.resultCacheTtl}ms, store=${config.resultCacheStore}`,
+			);
+		}
+	}
+	return instance;
+}
+
+/**
+ * Reset the singleton instance (for testing)
+ */
+export function resetResultCache(): void {
+	instance = null;
+}
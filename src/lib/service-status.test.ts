@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { BackendStatus } from "./backend-client";
+import { PlatformStats } from "./platform-stats";
+import { buildStatusReport, summarizeBackends } from "./service-status";
+
+function backendStatus(
+	url: string,
+	state: BackendStatus["state"],
+): BackendStatus {
+	return { url, state, health: 1, consecutiveFailures: 0 };
+}
+
+describe("summarizeBackends", () => {
+	it("should hide backend URLs and report latency", () => {
+		const backend = summarizeBackends(
+			[{ url: "http://a", reachable: true, latency: 12 }],
+			[backendStatus("http://a", "closed")],
+		);
+
+		expect(backend).toEqual({
+			condition: "working",
+			instances: [
+				{ id: "backend-1", reachable: true, latency: 12, circuit: "closed" },
+			],
+		});
+	});
+
+	it("should be degraded while only some backends are usable", () => {
+		const backend = summarizeBackends(
+			[
+				{ url: "http://a", reachable: true, latency: 5 },
+				{ url: "http://b", reachable: true, latency: 5 },
+			],
+			[backendStatus("http://a", "closed"), backendStatus("http://b", "open")],
+		);
+
+		expect(backend.condition).toBe("degraded");
+	});
+
+	it("should be down when no backend answers", () => {
+		const backend = summarizeBackends(
+			[{ url: "http://a", reachable: false }],
+			[backendStatus("http://a", "closed")],
+		);
+
+		expect(backend.condition).toBe("down");
+	});
+});
+
+describe("buildStatusReport", () => {
+	it("should mark every platform down with the backend", () => {
+		const report = buildStatusReport(
+			{ condition: "down", instances: [] },
+			new PlatformStats().snapshot(),
+		);
+
+		expect(report.condition).toBe("down");
+		expect(report.platforms.tiktok.condition).toBe("down");
+	});
+
+	it("should be degraded when a platform is struggling", () => {
+		const stats = new PlatformStats();
+		for (let i = 0; i < 5; i++) {
+			stats.record("twitter", false, "EXTRACTION_FAILED");
+		}
+
+		const report = buildStatusReport(
+			{ condition: "working", instances: [] },
+			stats.snapshot(),
+		);
+
+		expect(report.condition).toBe("degraded");
+		expect(report.platforms.twitter.condition).toBe("down");
+		expect(report.platforms.youtube.condition).toBe("working");
+	});
+});
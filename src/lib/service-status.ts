@@ -0,0 +1,109 @@
+import {
+	type BackendProbe,
+	type BackendStatus,
+	getBackendClient,
+} from "@/lib/backend-client";
+import { getPlatformStats } from "@/lib/platform-stats";
+import type {
+	BackendInstanceStatus,
+	PlatformStatus,
+	ServiceCondition,
+	StatusResponse,
+	SupportedPlatform,
+} from "@/types/download";
+
+/**
+ * Overall service status for /api/status and the platform badges
+ * Combines a live probe of every backend with the circuit breaker's view and
+ * the recent extraction outcomes per platform.
+ */
+
+// How long a status report is reused; keeps a busy page from probing on every load
+const STATUS_TTL = 15000;
+// Backends that don't answer a probe within this are reported unreachable
+const PROBE_TIMEOUT = 3000;
+
+/**
+ * Merge probe results with circuit state, without exposing backend URLs
+ */
+export function summarizeBackends(
+	probes: BackendProbe[],
+	statuses: BackendStatus[],
+): StatusResponse["backend"] {
+	const instances = probes.map((probe, index): BackendInstanceStatus => {
+		const status = statuses.find((candidate) => candidate.url === probe.url);
+		return {
+			id: `backend-${index + 1}`,
+			reachable: probe.reachable,
+			latency: probe.latency,
+			circuit: status?.state ?? "closed",
+		};
+	});
+
+	// An open circuit means requests aren't being sent there, reachable or not
+	const usable = instances.filter(
+		(instance) => instance.reachable && instance.circuit !== "open",
+	).length;
+	const condition: ServiceCondition =
+		usable === 0 ? "down" : usable < instances.length ? "degraded" : "working";
+
+	return { condition, instances };
+}
+
+/**
+ * Build a status report; with the backend down every platform is down too
+ */
+export function buildStatusReport(
+	backend: StatusResponse["backend"],
+	platforms: Record<SupportedPlatform, PlatformStatus>,
+	now = Date.now(),
+): StatusResponse {
+	const reported = Object.fromEntries(
+		Object.entries(platforms).map(([id, status]) => [
+			id,
+			backend.condition === "down"
+				? { ...status, condition: "down" as const }
+				: status,
+		]),
+	) as Record<SupportedPlatform, PlatformStatus>;
+
+	const platformConditions = Object.values(reported).map(
+		(status) => status.condition,
+	);
+	const condition: ServiceCondition =
+		backend.condition === "down"
+			? "down"
+			: backend.condition === "degraded" ||
+					platformConditions.some((value) => value !== "working")
+				? "degraded"
+				: "working";
+
+	return {
+		condition,
+		checkedAt: new Date(now).toISOString(),
+		backend,
+		platforms: reported,
+	};
+}
+
+let cached: { report: StatusResponse; expiresAt: number } | null = null;
+
+/**
+ * Current status report, probing the backends at most once per STATUS_TTL
+ */
+export async function getServiceStatus(): Promise<StatusResponse> {
+	const now = Date.now();
+	if (cached && cached.expiresAt > now) {
+		return cached.report;
+	}
+
+	const client = getBackendClient();
+	const backend = summarizeBackends(
+		await client.probe(PROBE_TIMEOUT),
+		client.getStatus(),
+	);
+	const report = buildStatusReport(backend, getPlatformStats().snapshot(now));
+
+	cached = { report, expiresAt: now + STATUS_TTL };
+	return report;
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { DownloadResponse } from "@/types/download";
+import { registerServiceWorker } from "./service-worker";
+
+// navigator.serviceWorker with a controlling worker that records its messages
+class FakeContainer extends EventTarget {
+	controllerMessages: unknown[] = [];
+	controller: { postMessage: (message: unknown) => void } | null = {
+		postMessage: (message) => this.controllerMessages.push(message),
+	};
+	registration = Object.assign(new EventTarget(), {
+		waiting: null as FakeWorker | null,
+		installing: null as FakeWorker | null,
+	});
+
+	startMessages() {}
+
+	async register() {
+		return this.registration;
+	}
+}
+
+class FakeWorker extends EventTarget {
+	messages: unknown[] = [];
+	state = "installing";
+
+	postMessage(message: unknown) {
+		this.messages.push(message);
+	}
+}
+
+const originalNavigator = globalThis.navigator;
+let container: FakeContainer;
+let reloads: number;
+
+// Let register()'s promise settle
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+	container = new FakeContainer();
+	reloads = 0;
+	Object.defineProperty(globalThis, "navigator", {
+		value: { serviceWorker: container },
+		configurable: true,
+	});
+	Object.defineProperty(globalThis, "window", {
+		value: Object.assign(new EventTarget(), {
+			location: { reload: () => reloads++ },
+		}),
+		configurable: true,
+	});
+});
+
+afterEach(() => {
+	Object.defineProperty(globalThis, "navigator", {
+		value: originalNavigator,
+		configurable: true,
+	});
+	Reflect.deleteProperty(globalThis, "window");
+});
+
+const noop = () => {};
+
+describe("registerServiceWorker", () => {
+	it("should ask for a replay once registered and whenever the page comes online", async () => {
+		const cleanup = registerServiceWorker({
+			onUpdate: noop,
+			onQueuedResult: noop,
+		});
+		await settle();
+		expect(container.controllerMessages).toEqual([{ type: "replay" }]);
+
+		window.dispatchEvent(new Event("online"));
+		expect(container.controllerMessages).toHaveLength(2);
+
+		cleanup();
+		window.dispatchEvent(new Event("online"));
+		expect(container.controllerMessages).toHaveLength(2);
+	});
+
+	it("should hand queued results to the page", async () => {
+		const results: [string, DownloadResponse][] = [];
+		registerServiceWorker({
+			onUpdate: noop,
+			onQueuedResult: (url, response) => results.push([url, response]),
+		});
+
+		container.dispatchEvent(
+			new MessageEvent("message", {
+				data: {
+					type: "queued-extraction",
+					url: "https://www.tiktok.com/@user/video/1",
+					response: { success: true },
+				},
+			}),
+		);
+		container.dispatchEvent(
+			new MessageEvent("message", { data: { type: "other" } }),
+		);
+
+		expect(results).toEqual([
+			["https://www.tiktok.com/@user/video/1", { success: true }],
+		]);
+	});
+
+	it("should offer a waiting update and reload once it takes over", async () => {
+		const waiting = new FakeWorker();
+		container.registration.waiting = waiting;
+		let apply: (() => void) | undefined;
+		registerServiceWorker({
+			onUpdate: (accept) => {
+				apply = accept;
+			},
+			onQueuedResult: noop,
+		});
+		await settle();
+
+		expect(apply).toBeDefined();
+		apply?.();
+		expect(waiting.messages).toEqual([{ type: "skip-waiting" }]);
+
+		container.dispatchEvent(new Event("controllerchange"));
+		container.dispatchEvent(new Event("controllerchange"));
+		expect(reloads).toBe(1);
+	});
+
+	it("should not treat the first install as an update", async () => {
+		container.controller = null;
+		const updates: unknown[] = [];
+		registerServiceWorker({
+			onUpdate: (accept) => updates.push(accept),
+			onQueuedResult: noop,
+		});
+		await settle();
+
+		const installing = new FakeWorker();
+		container.registration.installing = installing;
+		container.registration.dispatchEvent(new Event("updatefound"));
+		installing.state = "installed";
+		installing.dispatchEvent(new Event("statechange"));
+
+		expect(updates).toEqual([]);
+		container.dispatchEvent(new Event("controllerchange"));
+		expect(reloads).toBe(0);
+	});
+});
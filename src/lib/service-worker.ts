@@ -0,0 +1,102 @@
+import type { DownloadResponse } from "@/types/download";
+
+/**
+ * Page side of the service worker (src/service-worker.js)
+ */
+
+export interface ServiceWorkerHandlers {
+	// A new build is installed and waiting; call `apply` to switch to it and reload
+	onUpdate: (apply: () => void) => void;
+	// An extraction queued while offline has finished
+	onQueuedResult: (url: string, response: DownloadResponse) => void;
+}
+
+interface QueuedExtractionMessage {
+	type: "queued-extraction";
+	url: string;
+	response: DownloadResponse;
+}
+
+function isQueuedExtractionMessage(
+	value: unknown,
+): value is QueuedExtractionMessage {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"type" in value &&
+		value.type === "queued-extraction"
+	);
+}
+
+/**
+ * Register the service worker and wire up its messages
+ * Returns a cleanup function. Does nothing in development, where caching the
+ * shell would hide changes, or where service workers are unsupported.
+ */
+export function registerServiceWorker(
+	handlers: ServiceWorkerHandlers,
+): () => void {
+	if (import.meta.env.DEV || !("serviceWorker" in navigator)) {
+		return () => {};
+	}
+
+	const container = navigator.serviceWorker;
+	// Set once the user accepts an update; the first install's takeover must not reload
+	let updating = false;
+
+	// Ask the worker to run queued extractions and deliver finished ones
+	const replay = () => container.controller?.postMessage({ type: "replay" });
+
+	const offerUpdate = (worker: ServiceWorker) => {
+		handlers.onUpdate(() => {
+			updating = true;
+			worker.postMessage({ type: "skip-waiting" });
+		});
+	};
+
+	const handleMessage = (event: MessageEvent) => {
+		if (isQueuedExtractionMessage(event.data)) {
+			handlers.onQueuedResult(event.data.url, event.data.response);
+		}
+	};
+
+	// The accepted update has taken over; reload once so the page matches it
+	const handleControllerChange = () => {
+		if (updating) {
+			updating = false;
+			window.location.reload();
+		}
+	};
+
+	container.addEventListener("message", handleMessage);
+	container.startMessages();
+	window.addEventListener("online", replay);
+
+	container
+		.register("/sw.js")
+		.then((registration) => {
+			// The first install has nothing to replace, so it isn't an update
+			if (registration.waiting && container.controller) {
+				offerUpdate(registration.waiting);
+			}
+			registration.addEventListener("updatefound", () => {
+				const installing = registration.installing;
+				installing?.addEventListener("statechange", () => {
+					if (installing.state === "installed" && container.controller) {
+						offerUpdate(installing);
+					}
+				});
+			});
+			container.addEventListener("controllerchange", handleControllerChange);
+			replay();
+		})
+		.catch(() => {
+			// Offline support is an enhancement; the app works without it
+		});
+
+	return () => {
+		container.removeEventListener("message", handleMessage);
+		container.removeEventListener("controllerchange", handleControllerChange);
+		window.removeEventListener("online", replay);
+	};
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { findSupportedUrl, readShare, readSharedUrl } from "./share-target";
+
+describe("findSupportedUrl", () => {
+	it("should pull the link out of shared text", () => {
+		expect(
+			findSupportedUrl(
+				"Check out this video! https://vm.tiktok.com/ZMabc123/ #fyp",
+			),
+		).toBe("https://vm.tiktok.com/ZMabc123/");
+	});
+
+	it("should skip links to unsupported sites", () => {
+		expect(
+			findSupportedUrl(
+				"via https://example.com/a and https://www.instagram.com/reel/XYZ789/",
+			),
+		).toBe("https://www.instagram.com/reel/XYZ789/");
+	});
+
+	it("should drop punctuation that ends the sentence", () => {
+		expect(findSupportedUrl("(see https://x.com/user/status/123).")).toBe(
+			"https://x.com/user/status/123",
+		);
+	});
+
+	it("should return null when there is no supported link", () => {
+		expect(findSupportedUrl("no links here")).toBeNull();
+		expect(findSupportedUrl("https://nottiktok.com/video/1")).toBeNull();
+	});
+});
+
+describe("readSharedUrl", () => {
+	it("should read the url parameter", () => {
+		expect(
+			readSharedUrl(
+				new URLSearchParams({ url: "https://www.tiktok.com/@u/video/1" }),
+			),
+		).toBe("https://www.tiktok.com/@u/video/1");
+	});
+
+	it("should fall back to text and title", () => {
+		expect(
+			readSharedUrl(
+				new URLSearchParams({
+					url: "",
+					text: "Look https://www.instagram.com/p/ABC123/",
+				}),
+			),
+		).toBe("https://www.instagram.com/p/ABC123/");
+		expect(
+			readSharedUrl(
+				new URLSearchParams({ title: "https://x.com/user/status/9" }),
+			),
+		).toBe("https://x.com/user/status/9");
+	});
+
+	it("should return null for unrelated queries", () => {
+		expect(readSharedUrl(new URLSearchParams({ ref: "home" }))).toBeNull();
+	});
+});
+
+describe("readShare", () => {
+	it("should prefer the supported link", () => {
+		expect(
+			readShare(
+				new URLSearchParams({
+					title: "My clip",
+					text: "https://vm.tiktok.com/ZMabc123/",
+				}),
+			),
+		).toBe("https://vm.tiktok.com/ZMabc123/");
+	});
+
+	it("should keep unsupported shares so extraction can report them", () => {
+		expect(
+			readShare(new URLSearchParams({ text: " https://example.com/a " })),
+		).toBe("https://example.com/a");
+	});
+
+	it("should ignore queries that aren't shares", () => {
+		expect(readShare(new URLSearchParams({ ref: "home" }))).toBeNull();
+		expect(readShare(new URLSearchParams({ url: "  " }))).toBeNull();
+	});
+});
@@ -0,0 +1,53 @@
+import { detectPlatform } from "@/lib/validation";
+
+/**
+ * Links arriving through the Web Share Target or a deep link (/?url=...)
+ *
+ * Share sheets are inconsistent about where the link goes: TikTok puts it in
+ * `text` after a caption, Instagram in `url`, some apps in `title`. All three
+ * are searched, in that order of trust.
+ */
+
+const SHARE_PARAMS = ["url", "text", "title"] as const;
+
+// Characters that end a sentence rather than a URL ("watch this: https://...!")
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"»”’]+$/;
+
+/**
+ * First link in free text that belongs to a supported platform
+ */
+export function findSupportedUrl(text: string): string | null {
+	for (const [candidate] of text.matchAll(/https?:\/\/[^\s<>"]+/gi)) {
+		const link = candidate.replace(TRAILING_PUNCTUATION, "");
+		if (detectPlatform(link)) {
+			return link;
+		}
+	}
+	return null;
+}
+
+/**
+ * Supported link shared into the app, or null when the query carries none
+ */
+export function readSharedUrl(params: URLSearchParams): string | null {
+	for (const name of SHARE_PARAMS) {
+		const value = params.get(name);
+		const link = value ? findSupportedUrl(value) : null;
+		if (link) {
+			return link;
+		}
+	}
+	return null;
+}
+
+/**
+ * What to put in the input for a share or deep link: the supported link when
+ * there is one, otherwise the raw shared value so extraction can explain why
+ * it's unsupported. Null when the query isn't a share at all.
+ */
+export function readShare(params: URLSearchParams): string | null {
+	const shared = SHARE_PARAMS.map((name) => params.get(name)?.trim()).find(
+		Boolean,
+	);
+	return shared ? (readSharedUrl(params) ?? shared) : null;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+	isPrivateAddress,
+	isShortLink,
+	resolveShortLink,
+	type ShortLinkOptions,
+	shortLinkPlatform,
+} from "./short-links";
+
+// Fake fetch that answers each URL with a redirect from `redirects`
+function redirectFetch(redirects: Record<string, string>): typeof fetch {
+	return (async (input: string | URL | Request) => {
+		const location = redirects[String(input)];
+		return location
+			? new Response(null, { status: 301, headers: { Location: location } })
+			: new Response("ok", { status: 200 });
+	}) as typeof fetch;
+}
+
+const publicLookup = async () => ["93.184.216.34"];
+
+function options(
+	redirects: Record<string, string>,
+	overrides: ShortLinkOptions = {},
+): ShortLinkOptions {
+	return {
+		fetch: redirectFetch(redirects),
+		lookup: publicLookup,
+		...overrides,
+	};
+}
+
+describe("isPrivateAddress", () => {
+	it("should flag private, loopback and link-local addresses", () => {
+		for (const address of [
+			"127.0.0.1",
+			"10.1.2.3",
+			"172.16.0.1",
+			"192.168.1.1",
+			"169.254.169.254",
+			"::1",
+			"fd00::1",
+			"fe80::1",
+			"::ffff:10.0.0.1",
+		]) {
+			expect(isPrivateAddress(address)).toBe(true);
+		}
+	});
+
+	it("should allow public addresses", () => {
+		expect(isPrivateAddress("93.184.216.34")).toBe(false);
+		expect(isPrivateAddress("172.32.0.1")).toBe(false);
+		expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+	});
+});
+
+describe("isShortLink", () => {
+	it("should recognise registered short-link hosts only", () => {
+		expect(isShortLink("https://vm.tiktok.com/ZMabc123/")).toBe(true);
+		expect(isShortLink("https://t.co/abc123")).toBe(true);
+		expect(isShortLink("https://www.tiktok.com/@user/video/123")).toBe(false);
+		expect(isShortLink("https://t.co.example.com/abc")).toBe(false);
+		expect(isShortLink("not a url")).toBe(false);
+	});
+});
+
+describe("shortLinkPlatform", () => {
+	it("should name the platform a short link belongs to", () => {
+		expect(shortLinkPlatform("https://vm.tiktok.com/ZMabc123/")).toBe("tiktok");
+		expect(shortLinkPlatform(" https://t.co/abc123")).toBe("twitter");
+		expect(shortLinkPlatform("https://www.tiktok.com/@user/video/123")).toBe(
+			null,
+		);
+		expect(shortLinkPlatform("not a url")).toBe(null);
+	});
+});
+
+describe("resolveShortLink", () => {
+	it("should leave regular URLs untouched", async () => {
+		const url = "https://www.tiktok.com/@user/video/123";
+		expect(await resolveShortLink(url, options({}))).toEqual({
+			resolved: false,
+			url,
+		});
+	});
+
+	it("should follow redirects to the post URL", async () => {
+		const result = await resolveShortLink(
+			"https://vm.tiktok.com/ZMabc123/",
+			options({
+				"https://vm.tiktok.com/ZMabc123/":
+					"https://www.tiktok.com/@user/video/123?is_from_webapp=1",
+			}),
+		);
+
+		expect(result).toEqual({
+			resolved: true,
+			url: "https://www.tiktok.com/@user/video/123?is_from_webapp=1",
+		});
+	});
+
+	it("should refuse redirects to other sites", async () => {
+		const result = await resolveShortLink(
+			"https://t.co/abc123",
+			options({ "https://t.co/abc123": "https://evil.example.com/" }),
+		);
+
+		expect(result.resolved).toBe(false);
+		expect(result.error).toBe("Short link redirected to an unsupported site");
+	});
+
+	it("should refuse hosts that resolve to private addresses", async () => {
+		const result = await resolveShortLink(
+			"https://t.co/abc123",
+			options({}, { lookup: async () => ["127.0.0.1"] }),
+		);
+
+		expect(result.error).toBe("Short link resolved to a private address");
+	});
+
+	it("should stop after the hop limit", async () => {
+		const result = await resolveShortLink(
+			"https://t.co/a",
+			options(
+				{
+					"https://t.co/a": "https://t.co/b",
+					"https://t.co/b": "https://t.co/a",
+				},
+				{ maxHops: 3 },
+			),
+		);
+
+		expect(result.error).toBe("Short link redirected too many times");
+	});
+
+	it("should report short links that don't redirect", async () => {
+		const result = await resolveShortLink("https://t.co/abc123", options({}));
+
+		expect(result.error).toBe("Short link did not redirect to a post");
+	});
+});
@@ -0,0 +1,266 @@
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import {
+	getShortLinkPlatform,
+	hostMatches,
+	PLATFORMS,
+	SUPPORTED_PLATFORM_IDS,
+} from "@/constants/platforms";
+import type { ErrorCode, SupportedPlatform } from "@/types/download";
+
+/**
+ * Server-side expansion of share-sheet short links (vm.tiktok.com, t.co, ...)
+ *
+ * Redirects are followed one hop at a time so every hop can be checked: only
+ * HTTP(S), only hosts from the platform registry, and never a private address.
+ * Each hop connects to the address that was checked rather than looking the
+ * host up again, so a DNS answer that changes in between can't redirect the
+ * request to a private address.
+ */
+
+// Maximum redirects followed before giving up
+const MAX_HOPS = 5;
+
+// Per-hop timeout
+const HOP_TIMEOUT = 5000;
+
+// Every hostname a short link may pass through or land on
+const ALLOWED_DOMAINS = SUPPORTED_PLATFORM_IDS.flatMap((id) => [
+	...PLATFORMS[id].domains,
+	...PLATFORMS[id].shortLinkDomains,
+]);
+
+export interface ShortLinkResolution {
+	resolved: boolean; // False when the URL was not a short link
+	url?: string;
+	error?: string;
+	code?: ErrorCode; // Set with `error`
+}
+
+export interface ShortLinkOptions {
+	maxHops?: number;
+	fetch?: typeof fetch; // Replaces the pinned request; connects by hostname
+	lookup?: (hostname: string) => Promise<string[]>;
+}
+
+/**
+ * Platform whose short-link host a URL uses, or null for any other URL
+ */
+export function shortLinkPlatform(url: string): SupportedPlatform | null {
+	try {
+		return getShortLinkPlatform(new URL(url.trim()).hostname);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Check whether a URL uses a registered short-link host
+ */
+export function isShortLink(url: string): boolean {
+	return shortLinkPlatform(url) !== null;
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise non-public
+ */
+export function isPrivateAddress(address: string): boolean {
+	const version = isIP(address);
+
+	if (version === 4) {
+		const [a, b] = address.split(".").map(Number);
+		return (
+			a === 0 ||
+			a === 10 ||
+			a === 127 ||
+			(a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+			(a === 169 && b === 254) ||
+			(a === 172 && b >= 16 && b <= 31) ||
+			(a === 192 && b === 168) ||
+			(a === 198 && (b === 18 || b === 19)) ||
+			a >= 224 // Multicast and reserved
+		);
+	}
+
+	if (version === 6) {
+		const normalized = address.toLowerCase();
+		// IPv4-mapped addresses (::ffff:10.0.0.1)
+		const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+		if (mapped) {
+			return isPrivateAddress(mapped[1]);
+		}
+		return (
+			normalized === "::" ||
+			normalized === "::1" ||
+			/^f[cd]/.test(normalized) || // Unique local
+			/^fe[89ab]/.test(normalized) || // Link-local
+			normalized.startsWith("ff") // Multicast
+		);
+	}
+
+	return true;
+}
+
+async function defaultLookup(hostname: string): Promise<string[]> {
+	const addresses = await lookup(hostname, { all: true });
+	return addresses.map((entry) => entry.address);
+}
+
+/**
+ * Request one hop from `address` without following redirects
+ */
+function pinnedRequest(url: URL, address: string): Promise<Response> {
+	const family = isIP(address);
+	const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+		if (options.all) {
+			callback(null, [{ address, family }]);
+		} else {
+			callback(null, address, family);
+		}
+	};
+	const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+	return new Promise((resolve, reject) => {
+		const outgoing = send(
+			url,
+			{
+				method: "GET",
+				lookup: pinnedLookup,
+				signal: AbortSignal.timeout(HOP_TIMEOUT),
+			},
+			(incoming) => {
+				// Only the status and Location header are used
+				incoming.destroy();
+				const location = incoming.headers.location;
+				resolve(
+					new Response(null, {
+						status: incoming.statusCode ?? 502,
+						headers: location ? { Location: location } : {},
+					}),
+				);
+			},
+		);
+		// Aborts carry the timeout as their cause
+		outgoing.on("error", (error) =>
+			reject(
+				error.name === "AbortError" && error.cause instanceof Error
+					? error.cause
+					: error,
+			),
+		);
+		outgoing.end();
+	});
+}
+
+/**
+ * Check one hop; returns the failure when it must not be requested, or the
+ * address to connect to
+ */
+async function checkHop(
+	url: URL,
+	resolveHost: (hostname: string) => Promise<string[]>,
+): Promise<{ rejected: ShortLinkResolution } | { address: string }> {
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		return {
+			rejected: {
+				resolved: false,
+				error: "Short link redirected to a non-HTTP URL",
+				code: "INVALID_URL",
+			},
+		};
+	}
+
+	if (!hostMatches(url.hostname, ALLOWED_DOMAINS)) {
+		return {
+			rejected: {
+				resolved: false,
+				error: "Short link redirected to an unsupported site",
+				code: "UNSUPPORTED_PLATFORM",
+			},
+		};
+	}
+
+	const addresses = await resolveHost(url.hostname);
+	if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+		return {
+			rejected: {
+				resolved: false,
+				error: "Short link resolved to a private address",
+				code: "INVALID_URL",
+			},
+		};
+	}
+
+	return { address: addresses[0] };
+}
+
+/**
+ * Follow a short link's redirects to the canonical post URL
+ * URLs that aren't short links are returned untouched with `resolved: false`.
+ */
+export async function resolveShortLink(
+	url: string,
+	options: ShortLinkOptions = {},
+): Promise<ShortLinkResolution> {
+	if (!isShortLink(url)) {
+		return { resolved: false, url };
+	}
+
+	const maxHops = options.maxHops ?? MAX_HOPS;
+	const resolveHost = options.lookup ?? defaultLookup;
+	let current = new URL(url.trim());
+
+	try {
+		for (let hop = 0; hop <= maxHops; hop++) {
+			const checked = await checkHop(current, resolveHost);
+			if ("rejected" in checked) {
+				return checked.rejected;
+			}
+
+			// Landed on a regular platform URL
+			if (hop > 0 && !isShortLink(current.href)) {
+				return { resolved: true, url: current.href };
+			}
+
+			const response = options.fetch
+				? await options.fetch(current.href, {
+						method: "GET",
+						redirect: "manual",
+						signal: AbortSignal.timeout(HOP_TIMEOUT),
+					})
+				: await pinnedRequest(current, checked.address);
+			await response.body?.cancel();
+
+			const location = response.headers.get("location");
+			if (response.status < 300 || response.status >= 400 || !location) {
+				return {
+					resolved: false,
+					error: "Short link did not redirect to a post",
+					code: "CONTENT_NOT_FOUND",
+				};
+			}
+
+			current = new URL(location, current);
+		}
+	} catch (error) {
+		if (import.meta.env.DEV) {
+			console.error("Short link resolution failed:", error);
+		}
+		return {
+			resolved: false,
+			error: "Could not resolve short link",
+			code:
+				error instanceof Error && error.name === "TimeoutError"
+					? "BACKEND_TIMEOUT"
+					: "BACKEND_UNAVAILABLE",
+		};
+	}
+
+	return {
+		resolved: false,
+		error: "Short link redirected too many times",
+		code: "INVALID_URL",
+	};
+}
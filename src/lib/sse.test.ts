@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+	createEventStreamResponse,
+	encodeEvent,
+	parseEventStream,
+	type ServerSentEvent,
+} from "./sse";
+
+async function collect(body: ReadableStream<Uint8Array>) {
+	const events: ServerSentEvent[] = [];
+	for await (const event of parseEventStream(body)) {
+		events.push(event);
+	}
+	return events;
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+			controller.close();
+		},
+	});
+}
+
+describe("encodeEvent", () => {
+	it("should serialize event name and JSON data", () => {
+		expect(encodeEvent("validated", { platform: "tiktok" })).toBe(
+			'event: validated\ndata: {"platform":"tiktok"}\n\n',
+		);
+	});
+});
+
+describe("parseEventStream", () => {
+	it("should parse events split across chunks", async () => {
+		const events = await collect(
+			streamOf(
+				"event: back",
+				'end\ndata: {"a"',
+				":1}\n\nevent: done\n",
+				"data: {}\n\n",
+			),
+		);
+		expect(events).toEqual([
+			{ event: "backend", data: '{"a":1}' },
+			{ event: "done", data: "{}" },
+		]);
+	});
+
+	it("should ignore comments and default to message events", async () => {
+		const events = await collect(streamOf(": keep-alive\n\ndata: hi\n\n"));
+		expect(events).toEqual([{ event: "message", data: "hi" }]);
+	});
+});
+
+describe("createEventStreamResponse", () => {
+	it("should stream events sent by the handler", async () => {
+		const response = createEventStreamResponse(async (send) => {
+			send("validated", { stage: "validated" });
+			send("done", { stage: "done" });
+		});
+
+		expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+		const events = await collect(response.body as ReadableStream<Uint8Array>);
+		expect(events.map((e) => e.event)).toEqual(["validated", "done"]);
+		expect(JSON.parse(events[1].data)).toEqual({ stage: "done" });
+	});
+
+	it("should abort the handler's signal when the client goes away", async () => {
+		let finished: () => void = () => {};
+		const handlerDone = new Promise<void>((resolve) => {
+			finished = resolve;
+		});
+		let aborted = false;
+		const response = createEventStreamResponse(async (send, signal) => {
+			send("validated", { stage: "validated" });
+			await new Promise((resolve) =>
+				signal.addEventListener("abort", resolve, { once: true }),
+			);
+			aborted = signal.aborted;
+			// Dropped rather than thrown, the stream being gone
+			send("error", { stage: "error" });
+			finished();
+		});
+
+		const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+		await reader.read();
+		await reader.cancel();
+		await handlerDone;
+
+		expect(aborted).toBe(true);
+	});
+});
@@ -0,0 +1,132 @@
+/**
+ * Server-sent events helpers
+ * Encoding is used by API routes, parsing by the client (fetch-based, so POST works)
+ */
+
+export interface ServerSentEvent {
+	event: string;
+	data: string;
+}
+
+/**
+ * Check whether a request asked for an event stream
+ */
+export function acceptsEventStream(request: Request): boolean {
+	return (request.headers.get("accept") || "").includes("text/event-stream");
+}
+
+/**
+ * Serialize one event in the text/event-stream wire format
+ */
+export function encodeEvent(event: string, data: unknown): string {
+	const payload = JSON.stringify(data)
+		.split("\n")
+		.map((line) => `data: ${line}`)
+		.join("\n");
+	return `event: ${event}\n${payload}\n\n`;
+}
+
+/**
+ * Create an SSE response; `run` sends events until it resolves, then the stream closes
+ * `signal` aborts when the client goes away, so `run` can stop its work; events
+ * sent after that are dropped.
+ */
+export function createEventStreamResponse(
+	run: (
+		send: (event: string, data: unknown) => void,
+		signal: AbortSignal,
+	) => Promise<void>,
+	init: { headers?: Record<string, string> } = {},
+): Response {
+	const encoder = new TextEncoder();
+	const abort = new AbortController();
+
+	const stream = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const send = (event: string, data: unknown) => {
+				if (!abort.signal.aborted) {
+					controller.enqueue(encoder.encode(encodeEvent(event, data)));
+				}
+			};
+
+			try {
+				await run(send, abort.signal);
+			} finally {
+				if (!abort.signal.aborted) {
+					controller.close();
+				}
+			}
+		},
+		cancel(reason) {
+			abort.abort(reason);
+		},
+	});
+
+	return new Response(stream, {
+		status: 200,
+		headers: {
+			...init.headers,
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+			// Disable proxy buffering (nginx) so events arrive as they are sent
+			"X-Accel-Buffering": "no",
+		},
+	});
+}
+
+/**
+ * Parse a single raw event block ("event: x\ndata: y")
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+	let event = "message";
+	const data: string[] = [];
+
+	for (const line of block.split("\n")) {
+		if (line.startsWith(":")) continue; // Comment / keep-alive
+		const separator = line.indexOf(":");
+		const field = separator === -1 ? line : line.slice(0, separator);
+		const value =
+			separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+		if (field === "event") {
+			event = value;
+		} else if (field === "data") {
+			data.push(value);
+		}
+	}
+
+	return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+/**
+ * Read events from a text/event-stream body as they arrive
+ */
+export async function* parseEventStream(
+	body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+			let boundary = buffer.indexOf("\n\n");
+			while (boundary !== -1) {
+				const parsed = parseEventBlock(buffer.slice(0, boundary));
+				buffer = buffer.slice(boundary + 2);
+				if (parsed) yield parsed;
+				boundary = buffer.indexOf("\n\n");
+			}
+		}
+
+		const parsed = parseEventBlock(buffer.trim());
+		if (parsed) yield parsed;
+	} finally {
+		reader.releaseLock();
+	}
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import {
+	canonicalize,
 	detectPlatform,
 	extractContentId,
 	sanitize,
@@ -41,9 +42,62 @@ describe("detectPlatform", () => {
 		);
 	});
 
+	it("should detect YouTube, Reddit, Threads and Facebook URLs", () => {
+		expect(detectPlatform("https://www.youtube.com/shorts/dQw4w9WgXcQ")).toBe(
+			"youtube",
+		);
+		expect(
+			detectPlatform("https://www.reddit.com/r/videos/comments/abc123/title/"),
+		).toBe("reddit");
+		expect(detectPlatform("https://www.threads.net/@user/post/C1a2b3")).toBe(
+			"threads",
+		);
+		expect(detectPlatform("https://www.facebook.com/reel/1234567890")).toBe(
+			"facebook",
+		);
+	});
+
+	it("should detect share-sheet short links by exact host", () => {
+		expect(detectPlatform("https://vm.tiktok.com/ZMabc123/")).toBe("tiktok");
+		expect(detectPlatform("https://t.co/abc123")).toBe("twitter");
+		expect(detectPlatform("https://fb.watch/abc123/")).toBe("facebook");
+		expect(
+			detectPlatform("https://www.reddit.com/r/videos/comments/abc123/x"),
+		).toBe("reddit");
+	});
+
+	it("should match hostnames exactly, not by substring", () => {
+		expect(detectPlatform("https://box.com/status/123")).toBeNull();
+		expect(detectPlatform("https://nottiktok.com/video/123")).toBeNull();
+		expect(
+			detectPlatform("https://tiktok.com.evil.io/@user/video/123"),
+		).toBeNull();
+		expect(
+			detectPlatform("https://evil.io/?u=https://www.tiktok.com/@u/video/1"),
+		).toBeNull();
+	});
+
+	it("should detect mirror and mobile hosts", () => {
+		expect(detectPlatform("https://m.tiktok.com/@user/video/123")).toBe(
+			"tiktok",
+		);
+		expect(detectPlatform("https://mobile.twitter.com/user/status/1")).toBe(
+			"twitter",
+		);
+		expect(detectPlatform("https://fxtwitter.com/user/status/1")).toBe(
+			"twitter",
+		);
+		expect(detectPlatform("https://vxtwitter.com/user/status/1")).toBe(
+			"twitter",
+		);
+		expect(detectPlatform("https://www.ddinstagram.com/p/ABC123")).toBe(
+			"instagram",
+		);
+	});
+
 	it("should return null for unsupported platforms", () => {
-		expect(detectPlatform("https://www.youtube.com/watch?v=123")).toBeNull();
-		expect(detectPlatform("https://www.facebook.com/video/123")).toBeNull();
+		expect(detectPlatform("https://vimeo.com/123456")).toBeNull();
+		expect(detectPlatform("https://www.dailymotion.com/video/x123")).toBeNull();
 		expect(detectPlatform("https://example.com")).toBeNull();
 		expect(detectPlatform("not-a-url")).toBeNull();
 	});
@@ -83,6 +137,24 @@ describe("extractContentId", () => {
 		).toBe("9876543210");
 	});
 
+	it("should extract IDs for registry platforms", () => {
+		expect(
+			extractContentId("https://youtube.com/shorts/dQw4w9WgXcQ", "youtube"),
+		).toBe("dQw4w9WgXcQ");
+		expect(
+			extractContentId(
+				"https://www.reddit.com/r/videos/comments/abc123/title/",
+				"reddit",
+			),
+		).toBe("abc123");
+		expect(
+			extractContentId("https://www.threads.net/@user/post/C1a2b3", "threads"),
+		).toBe("C1a2b3");
+		expect(
+			extractContentId("https://www.facebook.com/reel/1234567890", "facebook"),
+		).toBe("1234567890");
+	});
+
 	it("should return null for invalid URLs", () => {
 		expect(extractContentId("https://instagram.com/", "instagram")).toBeNull();
 		expect(extractContentId("https://tiktok.com/@user", "tiktok")).toBeNull();
@@ -90,7 +162,52 @@ describe("extractContentId", () => {
 	});
 });
 
+describe("canonicalize", () => {
+	it("should map mirror and mobile hosts to the main host", () => {
+		expect(canonicalize("https://fxtwitter.com/user/status/123")).toBe(
+			"https://x.com/user/status/123",
+		);
+		expect(canonicalize("http://mobile.twitter.com/user/status/123")).toBe(
+			"https://x.com/user/status/123",
+		);
+		expect(canonicalize("https://m.tiktok.com/@user/video/123")).toBe(
+			"https://www.tiktok.com/@user/video/123",
+		);
+		expect(canonicalize("https://ddinstagram.com/reel/ABC123/")).toBe(
+			"https://www.instagram.com/reel/ABC123/",
+		);
+	});
+
+	it("should strip tracking parameters and fragments", () => {
+		expect(
+			canonicalize(
+				"https://www.instagram.com/reel/ABC123/?igsh=xyz&utm_source=ig",
+			),
+		).toBe("https://www.instagram.com/reel/ABC123/");
+		expect(canonicalize("https://x.com/user/status/123?s=20&t=abc#m")).toBe(
+			"https://x.com/user/status/123",
+		);
+		expect(
+			canonicalize(
+				"https://www.tiktok.com/@user/video/123?is_from_webapp=1&lang=en",
+			),
+		).toBe("https://www.tiktok.com/@user/video/123?lang=en");
+	});
+
+	it("should return null for short links and other sites", () => {
+		expect(canonicalize("https://vm.tiktok.com/ZMabc123/")).toBeNull();
+		expect(canonicalize("https://example.com/p/ABC123")).toBeNull();
+		expect(canonicalize("not a url")).toBeNull();
+	});
+});
+
 describe("validate", () => {
+	it("should return the canonical URL", () => {
+		const result = validate("https://vxtwitter.com/user/status/123?s=46");
+		expect(result.isValid).toBe(true);
+		expect(result.canonicalUrl).toBe("https://x.com/user/status/123");
+	});
+
 	it("should validate correct URLs", () => {
 		const result = validate("https://www.instagram.com/p/ABC123/");
 		expect(result.isValid).toBe(true);
@@ -112,11 +229,17 @@ describe("validate", () => {
 	});
 
 	it("should reject unsupported platforms", () => {
-		const result = validate("https://www.youtube.com/watch?v=123");
+		const result = validate("https://vimeo.com/123456");
 		expect(result.isValid).toBe(false);
 		expect(result.errors[0]).toContain("Unsupported platform");
 	});
 
+	it("should only accept YouTube Shorts", () => {
+		const result = validate("https://www.youtube.com/watch?v=dQw4w9WgXcQ");
+		expect(result.isValid).toBe(false);
+		expect(result.errors[0]).toContain("Could not extract content ID");
+	});
+
 	it("should reject URLs without content ID", () => {
 		const result = validate("https://www.instagram.com/");
 		expect(result.isValid).toBe(false);
@@ -1,10 +1,50 @@
-import { SUPPORTED_PLATFORMS, URL_PATTERNS } from "@/constants/platforms";
+import {
+	formatPlatformList,
+	getHostPlatform,
+	getShortLinkPlatform,
+	PLATFORMS,
+} from "@/constants/platforms";
 import type { SupportedPlatform, ValidationSchema } from "@/types/download";
 
 /**
  * Secure URL validation and platform detection functions
  */
 
+// Share and analytics parameters that don't identify the content
+const TRACKING_PARAMS = [
+	"igsh",
+	"igshid",
+	"s",
+	"t",
+	"si",
+	"is_from_webapp",
+	"is_copy_url",
+	"sender_device",
+	"ref_src",
+	"mibextid",
+];
+
+/**
+ * Parse a URL, assuming HTTPS when the scheme was left out ("instagram.com/p/...")
+ */
+function parseUrl(url: string): URL | null {
+	const trimmedUrl = url.trim();
+	try {
+		return new URL(
+			/^[a-z][a-z\d+.-]*:\/\//i.test(trimmedUrl)
+				? trimmedUrl
+				: `https://${trimmedUrl}`,
+		);
+	} catch {
+		return null;
+	}
+}
+
+function isTrackingParam(key: string): boolean {
+	const lowerKey = key.toLowerCase();
+	return TRACKING_PARAMS.includes(lowerKey) || lowerKey.startsWith("utm_");
+}
+
 /**
  * Validates and sanitizes a URL
  */
@@ -14,7 +54,7 @@ export function validate(url: string): ValidationSchema {
 	// Basic URL validation
 	if (!url || typeof url !== "string") {
 		errors.push("URL is required");
-		return { isValid: false, errors };
+		return { isValid: false, errors, code: "INVALID_URL" };
 	}
 
 	const trimmedUrl = url.trim();
@@ -24,7 +64,7 @@ export function validate(url: string): ValidationSchema {
 		new URL(trimmedUrl);
 	} catch {
 		errors.push("Invalid URL format");
-		return { isValid: false, errors };
+		return { isValid: false, errors, code: "INVALID_URL" };
 	}
 
 	// Check protocol
@@ -36,45 +76,76 @@ export function validate(url: string): ValidationSchema {
 	// Detect platform
 	const platform = detectPlatform(trimmedUrl);
 	if (!platform) {
-		errors.push(
-			"Unsupported platform. Please use Instagram, X (Twitter), or TikTok URL",
-		);
-		return { isValid: false, errors };
+		errors.push(`Unsupported platform. Please use ${formatPlatformList()} URL`);
+		return { isValid: false, errors, code: "UNSUPPORTED_PLATFORM" };
 	}
 
 	// Extract content ID
 	const contentId = extractContentId(trimmedUrl, platform);
 	if (!contentId) {
-		errors.push(`Could not extract content ID from ${platform} URL`);
-		return { isValid: false, errors, platform };
+		errors.push(
+			`Could not extract content ID from ${PLATFORMS[platform].name} URL`,
+		);
+		return { isValid: false, errors, platform, code: "INVALID_URL" };
 	}
 
 	return {
 		isValid: errors.length === 0,
 		errors,
+		code: errors.length > 0 ? "INVALID_URL" : undefined,
 		platform,
 		contentId,
+		canonicalUrl: canonicalize(trimmedUrl) ?? trimmedUrl,
 	};
 }
 
 /**
  * Detects the platform from URL
+ * Matches the parsed hostname exactly or as a subdomain, so look-alikes such
+ * as "nottiktok.com" or "tiktok.com.evil.io" are rejected.
  */
 export function detectPlatform(url: string): SupportedPlatform | null {
-	const normalizedUrl = url.toLowerCase().trim();
+	const urlObj = parseUrl(url);
+	if (!urlObj) {
+		return null;
+	}
 
-	for (const [platform, config] of Object.entries(URL_PATTERNS)) {
-		if (config.domain.test(normalizedUrl)) {
-			return platform as SupportedPlatform;
-		}
+	return (
+		getShortLinkPlatform(urlObj.hostname) ?? getHostPlatform(urlObj.hostname)
+	);
+}
+
+/**
+ * Canonical form of a platform URL
+ * - Maps mirror and mobile hosts (fxtwitter.com, m.tiktok.com) to the platform's main host
+ * - Strips tracking parameters and the fragment
+ * Returns null for short links and URLs outside the registry.
+ */
+export function canonicalize(url: string): string | null {
+	const urlObj = parseUrl(url);
+	if (!urlObj || getShortLinkPlatform(urlObj.hostname)) {
+		return null;
 	}
 
-	// Also check X.com for Twitter
-	if (normalizedUrl.includes("x.com")) {
-		return SUPPORTED_PLATFORMS.TWITTER;
+	const platform = getHostPlatform(urlObj.hostname);
+	if (!platform) {
+		return null;
+	}
+
+	urlObj.protocol = "https:";
+	urlObj.host = PLATFORMS[platform].canonicalHost;
+	urlObj.port = "";
+	urlObj.username = "";
+	urlObj.password = "";
+	urlObj.hash = "";
+
+	for (const key of [...urlObj.searchParams.keys()]) {
+		if (isTrackingParam(key)) {
+			urlObj.searchParams.delete(key);
+		}
 	}
 
-	return null;
+	return urlObj.href;
 }
 
 /**
@@ -86,7 +157,7 @@ export function extractContentId(
 ): string | null {
 	try {
 		const urlObj = new URL(url);
-		const patterns = URL_PATTERNS[platform]?.patterns || [];
+		const patterns = PLATFORMS[platform]?.patterns || [];
 
 		for (const pattern of patterns) {
 			const match = urlObj.pathname.match(pattern);
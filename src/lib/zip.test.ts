@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZipStream, type ZipEntry } from "./zip";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function collect(
+	stream: ReadableStream<Uint8Array>,
+): Promise<Uint8Array> {
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// A one-byte chunk that reports `length`, to reach large offsets cheaply
+function hugeChunk(length: number): Uint8Array {
+	return Object.defineProperty(new Uint8Array(1), "length", { value: length });
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encode(chunk));
+			}
+			controller.close();
+		},
+	});
+}
+
+describe("crc32", () => {
+	it("should match the standard checksum", () => {
+		expect(crc32(encode("hello"))).toBe(0x3610a686);
+	});
+
+	it("should continue across chunks", () => {
+		expect(crc32(encode("llo"), crc32(encode("he")))).toBe(0x3610a686);
+	});
+});
+
+describe("createZipStream", () => {
+	it("should write entries followed by a central directory", async () => {
+		const entries: ZipEntry[] = [
+			{ name: "a.txt", data: encode("hello") },
+			{ name: "b.txt", data: streamOf("hel", "lo") },
+		];
+		const zip = await collect(createZipStream(entries));
+		const view = new DataView(zip.buffer);
+
+		// Local file header of the first entry
+		expect(view.getUint32(0, true)).toBe(0x04034b50);
+		expect(new TextDecoder().decode(zip.slice(30, 35))).toBe("a.txt");
+
+		// End of central directory: entry count and directory offset
+		const end = zip.length - 22;
+		expect(view.getUint32(end, true)).toBe(0x06054b50);
+		expect(view.getUint16(end + 10, true)).toBe(2);
+		const directoryOffset = view.getUint32(end + 16, true);
+		expect(view.getUint32(directoryOffset, true)).toBe(0x02014b50);
+
+		// Both central records carry the streamed CRC and size
+		for (let record = directoryOffset, i = 0; i < 2; i++) {
+			expect(view.getUint32(record + 16, true)).toBe(0x3610a686);
+			expect(view.getUint32(record + 24, true)).toBe(5);
+			record += 46 + view.getUint16(record + 28, true);
+		}
+	});
+
+	it("should produce a valid empty archive", async () => {
+		const zip = await collect(createZipStream([]));
+
+		expect(zip.length).toBe(22);
+		expect(new DataView(zip.buffer).getUint32(0, true)).toBe(0x06054b50);
+	});
+
+	it("should cancel the current source when the archive is cancelled", async () => {
+		let cancelled = false;
+		const source = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				controller.enqueue(encode("data"));
+			},
+			cancel() {
+				cancelled = true;
+			},
+		});
+		const reader = createZipStream([
+			{ name: "big.bin", data: source },
+		]).getReader();
+
+		await reader.read(); // Local header
+		await reader.read(); // First chunk
+		await reader.cancel();
+
+		expect(cancelled).toBe(true);
+	});
+
+	it("should fail rather than write an entry past 4 GiB", async () => {
+		let cancelled = false;
+		const source = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				controller.enqueue(hugeChunk(2 ** 32));
+			},
+			cancel() {
+				cancelled = true;
+			},
+		});
+
+		await expect(
+			collect(createZipStream([{ name: "long.mp4", data: source }])),
+		).rejects.toThrow("long.mp4 exceeds 4 GiB");
+		expect(cancelled).toBe(true);
+	});
+
+	it("should fail once an offset no longer fits", async () => {
+		const entries: ZipEntry[] = [
+			{ name: "a.mp4", data: streamOf("x") },
+			{ name: "b.mp4", data: hugeChunk(0xffffffff - 60) },
+			{ name: "c.txt", data: encode("hello") },
+		];
+
+		await expect(collect(createZipStream(entries))).rejects.toThrow(
+			"Archive exceeds 4 GiB",
+		);
+	});
+});
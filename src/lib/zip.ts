@@ -0,0 +1,223 @@
+/**
+ * Streaming ZIP writer
+ *
+ * Entries are stored uncompressed (media is already compressed) and written as
+ * they arrive: each local header is followed by the data and a data descriptor
+ * carrying the CRC and sizes, so no entry has to be buffered. Without ZIP64,
+ * entries and the archive as a whole must stay under 4 GiB; the stream fails
+ * as soon as a size or offset would no longer fit, rather than writing a
+ * corrupt archive.
+ */
+
+export interface ZipEntry {
+	name: string;
+	data: ReadableStream<Uint8Array> | Uint8Array;
+	modifiedAt?: Date;
+}
+
+interface CentralRecord {
+	name: Uint8Array;
+	crc: number;
+	size: number;
+	offset: number;
+	dosTime: number;
+	dosDate: number;
+}
+
+// General purpose flags: sizes in data descriptor (bit 3), UTF-8 names (bit 11)
+const FLAGS = 0x0808;
+const VERSION = 20;
+
+// Largest size or offset the 32-bit header fields can hold
+const MAX_FIELD_VALUE = 0xffffffff;
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * Update a running CRC-32; start with 0 and pass the previous result for each chunk
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+	let c = crc ^ 0xffffffff;
+	for (const byte of data) {
+		c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+	}
+	return (c ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+	return {
+		dosTime:
+			(date.getHours() << 11) |
+			(date.getMinutes() << 5) |
+			Math.floor(date.getSeconds() / 2),
+		dosDate:
+			(Math.max(0, date.getFullYear() - 1980) << 9) |
+			((date.getMonth() + 1) << 5) |
+			date.getDate(),
+	};
+}
+
+function checkFits(value: number, what: string): void {
+	if (value > MAX_FIELD_VALUE) {
+		throw new RangeError(`${what} exceeds 4 GiB, which needs ZIP64`);
+	}
+}
+
+function localHeader(record: CentralRecord): Uint8Array {
+	const header = new Uint8Array(30 + record.name.length);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, 0x04034b50, true);
+	view.setUint16(4, VERSION, true);
+	view.setUint16(6, FLAGS, true);
+	view.setUint16(8, 0, true); // Stored
+	view.setUint16(10, record.dosTime, true);
+	view.setUint16(12, record.dosDate, true);
+	// CRC and sizes (14-25) are zero; they follow the data in the descriptor
+	view.setUint16(26, record.name.length, true);
+	header.set(record.name, 30);
+	return header;
+}
+
+function dataDescriptor(record: CentralRecord): Uint8Array {
+	const descriptor = new Uint8Array(16);
+	const view = new DataView(descriptor.buffer);
+	view.setUint32(0, 0x08074b50, true);
+	view.setUint32(4, record.crc, true);
+	view.setUint32(8, record.size, true);
+	view.setUint32(12, record.size, true);
+	return descriptor;
+}
+
+function centralDirectory(
+	records: CentralRecord[],
+	offset: number,
+): Uint8Array {
+	const size = records.reduce(
+		(sum, record) => sum + 46 + record.name.length,
+		0,
+	);
+	const directory = new Uint8Array(size + 22);
+	const view = new DataView(directory.buffer);
+	let position = 0;
+
+	for (const record of records) {
+		view.setUint32(position, 0x02014b50, true);
+		view.setUint16(position + 4, VERSION, true); // Made by
+		view.setUint16(position + 6, VERSION, true); // Needed to extract
+		view.setUint16(position + 8, FLAGS, true);
+		view.setUint16(position + 10, 0, true); // Stored
+		view.setUint16(position + 12, record.dosTime, true);
+		view.setUint16(position + 14, record.dosDate, true);
+		view.setUint32(position + 16, record.crc, true);
+		view.setUint32(position + 20, record.size, true);
+		view.setUint32(position + 24, record.size, true);
+		view.setUint16(position + 28, record.name.length, true);
+		// Extra field, comment, disk number and attributes (30-41) stay zero
+		view.setUint32(position + 42, record.offset, true);
+		directory.set(record.name, position + 46);
+		position += 46 + record.name.length;
+	}
+
+	// End of central directory record
+	view.setUint32(position, 0x06054b50, true);
+	view.setUint16(position + 8, records.length, true);
+	view.setUint16(position + 10, records.length, true);
+	view.setUint32(position + 12, size, true);
+	view.setUint32(position + 16, offset, true);
+	return directory;
+}
+
+async function* zipChunks(
+	entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+): AsyncGenerator<Uint8Array> {
+	const encoder = new TextEncoder();
+	const records: CentralRecord[] = [];
+	let offset = 0;
+
+	for await (const entry of entries) {
+		checkFits(offset, "Archive");
+		const record: CentralRecord = {
+			name: encoder.encode(entry.name),
+			crc: 0,
+			size: 0,
+			offset,
+			...toDosDateTime(entry.modifiedAt ?? new Date()),
+		};
+
+		const header = localHeader(record);
+		offset += header.length;
+		yield header;
+
+		if (entry.data instanceof Uint8Array) {
+			record.crc = crc32(entry.data);
+			record.size = entry.data.length;
+			checkFits(record.size, entry.name);
+			yield entry.data;
+		} else {
+			const reader = entry.data.getReader();
+			let finished = false;
+			try {
+				while (true) {
+					const { done, value } = await reader.read();
+					if (done) break;
+					record.crc = crc32(value, record.crc);
+					record.size += value.length;
+					checkFits(record.size, entry.name);
+					yield value;
+				}
+				finished = true;
+			} finally {
+				// Stop the source transfer when the archive is abandoned midway
+				if (!finished) {
+					await reader.cancel();
+				}
+				reader.releaseLock();
+			}
+		}
+
+		const descriptor = dataDescriptor(record);
+		offset += record.size + descriptor.length;
+		yield descriptor;
+		records.push(record);
+	}
+
+	checkFits(offset, "Archive");
+	yield centralDirectory(records, offset);
+}
+
+/**
+ * Stream a ZIP archive of `entries`, reading each entry only as the consumer pulls
+ */
+export function createZipStream(
+	entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+): ReadableStream<Uint8Array> {
+	const chunks = zipChunks(entries);
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { done, value } = await chunks.next();
+				if (done) {
+					controller.close();
+				} else {
+					controller.enqueue(value);
+				}
+			} catch (error) {
+				controller.error(error);
+			}
+		},
+		async cancel() {
+			await chunks.return(undefined);
+		},
+	});
+}
@@ -0,0 +1,269 @@
+import type { APIContext } from "astro";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	BackendClient,
+	resetBackendClient,
+	setBackendClient,
+} from "@/lib/backend-client";
+import { MemoryRateLimitStorage } from "@/lib/rate-limit-storage";
+import {
+	RateLimiter,
+	resetRateLimiter,
+	setRateLimiter,
+} from "@/lib/rate-limiter";
+import { checkRateLimit, getClientId } from "@/middleware/security";
+import { GET as file } from "@/pages/api/file";
+
+/**
+ * /api/file against a fake backend; the backend and CDN hosts must never
+ * reach the browser, and only the headers a player needs are relayed.
+ */
+
+const BACKEND = "http://backend.internal:38701";
+const POST_URL = "https://www.tiktok.com/@user/video/1234567890";
+const CLIENT_IP = "203.0.113.7";
+
+interface BackendCall {
+	url: string;
+	headers: Headers;
+}
+
+let calls: BackendCall[];
+let respond: () => Response | Promise<Response>;
+
+function useBackend(breakerThreshold = 100) {
+	setBackendClient(
+		new BackendClient({
+			urls: [BACKEND],
+			timeout: 1000,
+			deadline: 1000,
+			retries: 0,
+			breakerThreshold,
+			breakerCooldown: 30000,
+			fetch: async (input, init) => {
+				calls.push({ url: String(input), headers: new Headers(init?.headers) });
+				return respond();
+			},
+		}),
+	);
+}
+
+beforeEach(() => {
+	calls = [];
+	respond = () => new Response("media");
+	useBackend();
+	setRateLimiter(
+		new RateLimiter(new MemoryRateLimitStorage(), {
+			algorithm: "fixed-window",
+			limit: 10,
+			window: 60000,
+		}),
+	);
+});
+
+afterEach(() => {
+	resetBackendClient();
+	resetRateLimiter();
+});
+
+function get(
+	params: Record<string, string>,
+	headers: Record<string, string> = {},
+): Promise<Response> {
+	const request = new Request(
+		`http://localhost/api/file?${new URLSearchParams(params)}`,
+		{ headers: { "X-Forwarded-For": CLIENT_IP, ...headers } },
+	);
+	return Promise.resolve(
+		file({ request, url: new URL(request.url) } as unknown as APIContext),
+	);
+}
+
+// Everything the browser can see of a response
+async function visible(response: Response): Promise<string> {
+	return `${[...response.headers].join("\n")}\n${await response.text()}`;
+}
+
+describe("/api/file", () => {
+	it("should forward Range and pass 206 and Content-Range through", async () => {
+		respond = () =>
+			new Response("dia", {
+				status: 206,
+				headers: {
+					"Content-Type": "video/mp4",
+					"Content-Range": "bytes 2-4/5",
+					"Content-Length": "3",
+				},
+			});
+		const response = await get(
+			{ url: POST_URL, format: "hd", item: "2" },
+			{ Range: "bytes=2-" },
+		);
+
+		expect(calls[0].headers.get("range")).toBe("bytes=2-");
+		expect(new URL(calls[0].url).searchParams.get("format")).toBe("hd");
+		expect(new URL(calls[0].url).searchParams.get("item")).toBe("2");
+		expect(response.status).toBe(206);
+		expect(response.headers.get("content-range")).toBe("bytes 2-4/5");
+		expect(response.headers.get("accept-ranges")).toBe("bytes");
+		expect(await response.text()).toBe("dia");
+	});
+
+	it("should report an unsatisfiable range as 416", async () => {
+		respond = () => new Response(null, { status: 416 });
+		const response = await get({ url: POST_URL }, { Range: "bytes=99-" });
+
+		expect(response.status).toBe(416);
+		expect((await response.json()).code).toBe("INVALID_REQUEST");
+	});
+
+	it("should map backend errors to 502", async () => {
+		for (const status of [500, 502, 404]) {
+			respond = () => new Response("upstream says no", { status });
+			const response = await get({ url: POST_URL });
+
+			expect(response.status).toBe(502);
+			expect((await response.json()).code).toBe("BACKEND_UNAVAILABLE");
+		}
+	});
+
+	it("should answer 503 when no backend can be reached", async () => {
+		useBackend(1);
+		respond = () => {
+			throw new TypeError(`connect ECONNREFUSED ${BACKEND}`);
+		};
+
+		const failed = await get({ url: POST_URL });
+		expect(failed.status).toBe(503);
+		expect(failed.headers.has("retry-after")).toBe(false);
+
+		// The circuit is open now; the client is told when to come back
+		const unavailable = await get({ url: POST_URL });
+		expect(unavailable.status).toBe(503);
+		expect(Number(unavailable.headers.get("retry-after"))).toBeGreaterThan(0);
+		expect((await unavailable.json()).code).toBe("BACKEND_UNAVAILABLE");
+	});
+
+	it("should pass the backend's Content-Disposition through", async () => {
+		respond = () =>
+			new Response("media", {
+				headers: { "Content-Disposition": 'attachment; filename="clip.mp4"' },
+			});
+		const response = await get({ url: POST_URL, ext: "mp4" });
+
+		expect(response.headers.get("content-disposition")).toBe(
+			'attachment; filename="clip.mp4"',
+		);
+	});
+
+	it("should name the file when the backend doesn't", async () => {
+		const response = await get({
+			url: POST_URL,
+			format: "hd",
+			item: "2",
+			ext: "MP4",
+		});
+
+		expect(response.headers.get("content-disposition")).toBe(
+			'attachment; filename="tiktok-2-hd.mp4"',
+		);
+	});
+
+	it("should relay only the allowlisted headers", async () => {
+		respond = () =>
+			new Response("media", {
+				headers: {
+					"Content-Type": "video/mp4",
+					"Content-Length": "5",
+					ETag: '"abc"',
+					"Last-Modified": "Mon, 19 Oct 2026 00:00:00 GMT",
+					"Set-Cookie": "session=backend",
+					Server: "snatch-backend",
+					Location: "https://cdn.example.net/v/1.mp4",
+					"Access-Control-Allow-Origin": "*",
+					"X-Upstream-Url": "https://cdn.example.net/v/1.mp4",
+				},
+			});
+		const response = await get({ url: POST_URL });
+
+		expect([...response.headers.keys()].sort()).toEqual([
+			"accept-ranges",
+			"cache-control",
+			"content-length",
+			"content-type",
+			"etag",
+			"last-modified",
+		]);
+		expect(response.headers.get("cache-control")).toBe("private, no-store");
+	});
+
+	it("should never reveal the backend or CDN address", async () => {
+		const responses = [
+			() =>
+				new Response("media", {
+					headers: {
+						"Content-Location": `${BACKEND}/api/download`,
+						Link: "<https://cdn.example.net/v/1.mp4>; rel=canonical",
+					},
+				}),
+			() => new Response(`${BACKEND} failed`, { status: 500 }),
+			() => {
+				throw new Error(`fetch failed: ${BACKEND}`);
+			},
+		];
+		for (const next of responses) {
+			respond = next;
+			const seen = await visible(await get({ url: POST_URL }));
+
+			expect(seen).not.toContain("backend.internal");
+			expect(seen).not.toContain("cdn.example.net");
+		}
+	});
+
+	it("should reject invalid selectors and URLs with 400", async () => {
+		const invalid: Record<string, string>[] = [
+			{},
+			{ url: "https://example.com/video.mp4" },
+			{ url: "http://127.0.0.1:38701/api/download" },
+			{ url: POST_URL, format: "hd;rm -rf" },
+			{ url: POST_URL, format: "x".repeat(101) },
+			{ url: POST_URL, ext: "mp4/../x" },
+			{ url: POST_URL, item: "0" },
+			{ url: POST_URL, item: "1e3" },
+		];
+		for (const params of invalid) {
+			const response = await get(params);
+
+			expect(response.status, JSON.stringify(params)).toBe(400);
+		}
+		expect(calls).toEqual([]);
+	});
+
+	it("should use its own quota, apart from extractions", async () => {
+		// Extractions used up; media still plays
+		const clientId = getClientId(
+			new Request("http://localhost/", {
+				headers: { "X-Forwarded-For": CLIENT_IP },
+			}),
+		);
+		for (let request = 0; request < 10; request++) {
+			await checkRateLimit(clientId, { route: "download" });
+		}
+		expect(
+			(await checkRateLimit(clientId, { route: "download" })).allowed,
+		).toBe(false);
+
+		const first = await get({ url: POST_URL });
+		expect(first.status).toBe(200);
+
+		for (let request = 2; request <= 120; request++) {
+			await get({ url: POST_URL });
+		}
+		const limited = await get({ url: POST_URL });
+
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get("ratelimit-limit")).toBe("120");
+		expect((await limited.json()).code).toBe("RATE_LIMITED");
+		expect(calls).toHaveLength(120);
+	});
+});
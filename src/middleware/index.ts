@@ -0,0 +1,21 @@
+import { defineMiddleware } from "astro:middleware";
+import { getConfig } from "@/config/env";
+import { requestLocale } from "@/lib/i18n";
+import { rememberLocaleChoice } from "./locale-choice";
+import { localizeErrorResponse } from "./localize";
+
+// Read the configuration as the server loads, so bad settings stop it
+// instead of failing whichever request first needs them
+getConfig();
+
+/**
+ * Astro middleware: stores language choices, and puts API error messages in
+ * the caller's language
+ */
+export const onRequest = defineMiddleware(async (context, next) => {
+	if (!context.url.pathname.startsWith("/api/")) {
+		return rememberLocaleChoice(context.url) ?? next();
+	}
+	const response = await next();
+	return localizeErrorResponse(response, requestLocale(context.request));
+});
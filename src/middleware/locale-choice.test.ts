@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { requestLocale } from "@/lib/i18n";
+import { rememberLocaleChoice } from "./locale-choice";
+
+describe("rememberLocaleChoice", () => {
+	it("should store the choice and redirect to the page without it", () => {
+		const response = rememberLocaleChoice(
+			new URL("http://localhost/ja/?lang=ja&url=https%3A%2F%2Fx.com%2Fa"),
+		);
+
+		expect(response?.status).toBe(302);
+		expect(response?.headers.get("Location")).toBe(
+			"/ja/?url=https%3A%2F%2Fx.com%2Fa",
+		);
+		expect(response?.headers.get("Set-Cookie")).toBe(
+			"snatch-locale=ja; Path=/; Max-Age=31536000; SameSite=Lax",
+		);
+	});
+
+	it("should make the stored choice win over Accept-Language", () => {
+		const cookie = rememberLocaleChoice(new URL("http://localhost/?lang=en"))
+			?.headers.get("Set-Cookie")
+			?.split(";")[0];
+		const request = new Request("http://localhost/", {
+			headers: { Cookie: String(cookie), "Accept-Language": "zh-CN" },
+		});
+
+		expect(requestLocale(request)).toBe("en");
+	});
+
+	it("should ignore pages without a known locale", () => {
+		expect(rememberLocaleChoice(new URL("http://localhost/"))).toBeNull();
+		expect(
+			rememberLocaleChoice(new URL("http://localhost/?lang=fr")),
+		).toBeNull();
+	});
+});
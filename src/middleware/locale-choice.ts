@@ -0,0 +1,33 @@
+import { isLocale, LOCALE_COOKIE, LOCALE_PARAM } from "@/lib/i18n";
+
+/**
+ * Remembering the language picked in the language switcher
+ *
+ * The switcher links to the chosen locale's page with `?lang=<locale>`; the
+ * server answers with the cookie and a redirect to the same page without the
+ * parameter, so the choice is stored without scripts touching cookies.
+ */
+
+// Remember the choice for a year, so "/" stops redirecting by Accept-Language
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+/**
+ * Redirect storing the locale chosen in `url`, or null when it names none
+ */
+export function rememberLocaleChoice(url: URL): Response | null {
+	const locale = url.searchParams.get(LOCALE_PARAM);
+	if (!isLocale(locale)) {
+		return null;
+	}
+
+	const target = new URL(url);
+	target.searchParams.delete(LOCALE_PARAM);
+	return new Response(null, {
+		status: 302,
+		headers: {
+			Location: `${target.pathname}${target.search}`,
+			"Set-Cookie": `${LOCALE_COOKIE}=${locale}; Path=/; Max-Age=${COOKIE_MAX_AGE}; SameSite=Lax`,
+			"Cache-Control": "no-store",
+		},
+	});
+}
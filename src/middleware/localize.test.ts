@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { localizeErrorResponse } from "./localize";
+
+function json(body: unknown, status = 400): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json", "X-Error-ID": "abc" },
+	});
+}
+
+describe("localizeErrorResponse", () => {
+	it("should replace error text with the message for its code", async () => {
+		const response = await localizeErrorResponse(
+			json({ success: false, code: "INVALID_URL", error: "URL is required" }),
+			"zh",
+		);
+
+		expect(response.status).toBe(400);
+		expect(response.headers.get("X-Error-ID")).toBe("abc");
+		expect(response.headers.get("Content-Language")).toBe("zh");
+		expect(await response.json()).toEqual({
+			success: false,
+			code: "INVALID_URL",
+			error: "这看起来不是帖子的链接，请检查链接。",
+		});
+	});
+
+	it("should localize batch items", async () => {
+		const response = await localizeErrorResponse(
+			json(
+				{
+					success: true,
+					items: [
+						{ url: "a", success: true },
+						{
+							url: "b",
+							success: false,
+							code: "UNSUPPORTED_PLATFORM",
+							error: "Unsupported platform",
+						},
+					],
+				},
+				200,
+			),
+			"ja",
+		);
+
+		const body = await response.json();
+		expect(body.items[0]).toEqual({ url: "a", success: true });
+		expect(body.items[1].error).toBe("このサイトにはまだ対応していません。");
+	});
+
+	it("should mark English errors as varying by language too", async () => {
+		const response = await localizeErrorResponse(
+			json({ success: false, code: "INVALID_URL", error: "x" }),
+			"en",
+		);
+
+		expect(response.headers.get("Vary")).toBe("Accept-Language, Cookie");
+		expect(response.headers.has("Content-Language")).toBe(false);
+		expect((await response.json()).error).toBe("x");
+	});
+
+	it("should pass success payloads through as sent", async () => {
+		const payload = '{"success":true,  "title":"Clip"}';
+		const response = await localizeErrorResponse(
+			new Response(payload, {
+				headers: {
+					"Content-Type": "application/json",
+					"Content-Length": String(payload.length),
+				},
+			}),
+			"zh",
+		);
+
+		expect(await response.text()).toBe(payload);
+		expect(response.headers.get("Content-Length")).toBe(String(payload.length));
+		expect(response.headers.has("Content-Language")).toBe(false);
+		expect(response.headers.get("Vary")).toBe("Accept-Language, Cookie");
+	});
+
+	it("should leave publicly cached, non-JSON and uncoded responses untouched", async () => {
+		const status = new Response('{"condition":"ok"}', {
+			headers: {
+				"Content-Type": "application/json",
+				"Cache-Control": "public, max-age=15",
+			},
+		});
+		expect(await localizeErrorResponse(status, "ja")).toBe(status);
+
+		const stream = new Response("data: {}\n\n", {
+			headers: { "Content-Type": "text/event-stream" },
+		});
+		expect(await localizeErrorResponse(stream, "zh")).toBe(stream);
+
+		const uncoded = await localizeErrorResponse(
+			json({ success: false, error: "Something odd" }),
+			"zh",
+		);
+		expect((await uncoded.json()).error).toBe("Something odd");
+	});
+});
@@ -0,0 +1,81 @@
+import { isErrorCode } from "@/lib/errors";
+import { DEFAULT_LOCALE, errorMessage, type Locale } from "@/lib/i18n";
+import type { ErrorCode } from "@/types/download";
+
+/**
+ * Localization of API error messages
+ *
+ * Routes write their errors in English; for other locales the `error` text of
+ * a failed JSON response is replaced with the catalog message for its `code`.
+ * Batch items are localized the same way. Success payloads pass through
+ * unchanged. So do streamed (SSE) responses, since the UI localizes from the
+ * code anyway, and publicly cached ones such as /api/status, which must not
+ * vary by visitor.
+ */
+
+interface ErrorBody {
+	code: ErrorCode;
+	error: string;
+}
+
+function isErrorBody(body: unknown): body is ErrorBody {
+	const { code, error } = (body ?? {}) as Partial<Record<string, unknown>>;
+	return isErrorCode(code) && typeof error === "string";
+}
+
+function localizeError<T>(body: T, locale: Locale): T {
+	return isErrorBody(body)
+		? { ...body, error: errorMessage(locale, body.code) }
+		: body;
+}
+
+/**
+ * `response` with its error messages in `locale`
+ * Every response that could be localized says so in `Vary`, English ones
+ * included, so shared caches keep the languages apart.
+ */
+export async function localizeErrorResponse(
+	response: Response,
+	locale: Locale,
+): Promise<Response> {
+	const isJson = response.headers
+		.get("content-type")
+		?.includes("application/json");
+	const isPublic = response.headers.get("cache-control")?.includes("public");
+	if (!isJson || isPublic) {
+		return response;
+	}
+
+	const headers = new Headers(response.headers);
+	headers.append("Vary", "Accept-Language, Cookie");
+	const withHeaders = (body: BodyInit | null) =>
+		new Response(body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers,
+		});
+
+	if (locale === DEFAULT_LOCALE) {
+		return withHeaders(response.body);
+	}
+
+	let body: { items?: unknown };
+	try {
+		body = (await response.clone().json()) ?? {};
+	} catch {
+		return withHeaders(response.body);
+	}
+	const items = Array.isArray(body.items) ? body.items : [];
+	if (!isErrorBody(body) && !items.some(isErrorBody)) {
+		return withHeaders(response.body);
+	}
+
+	const localized = localizeError(body, locale);
+	if (items.length > 0) {
+		localized.items = items.map((item) => localizeError(item, locale));
+	}
+
+	headers.delete("content-length");
+	headers.set("Content-Language", locale);
+	return withHeaders(JSON.stringify(localized));
+}
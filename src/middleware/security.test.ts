@@ -1,5 +1,15 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { checkRateLimit, validateDownloadRequest } from "./security";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryRateLimitStorage } from "@/lib/rate-limit-storage";
+import {
+	RateLimiter,
+	resetRateLimiter,
+	setRateLimiter,
+} from "@/lib/rate-limiter";
+import {
+	checkRateLimit,
+	rateLimitHeaders,
+	validateDownloadRequest,
+} from "./security";
 
 // Mock the config module
 vi.mock("@/config/env", () => ({
@@ -9,38 +19,89 @@ vi.mock("@/config/env", () => ({
 	}),
 }));
 
-describe("checkRateLimit", () => {
-	beforeEach(() => {
-		// Reset rate limit state between tests by using unique client IDs
-	});
+// Fresh in-memory quotas for every test, so nothing is written to ./data
+beforeEach(() => {
+	setRateLimiter(
+		new RateLimiter(new MemoryRateLimitStorage(), {
+			algorithm: "fixed-window",
+			limit: 10,
+			window: 60000,
+		}),
+	);
+});
+
+afterEach(() => {
+	resetRateLimiter();
+});
 
-	it("should allow first request", () => {
+describe("checkRateLimit", () => {
+	it("should allow first request", async () => {
 		const clientId = `test-client-${Date.now()}-1`;
-		const result = checkRateLimit(clientId);
+		const result = await checkRateLimit(clientId);
 		expect(result.allowed).toBe(true);
 	});
 
-	it("should allow requests within limit", () => {
+	it("should allow requests within limit", async () => {
 		const clientId = `test-client-${Date.now()}-2`;
 		for (let i = 0; i < 5; i++) {
-			const result = checkRateLimit(clientId);
+			const result = await checkRateLimit(clientId);
 			expect(result.allowed).toBe(true);
 		}
 	});
 
-	it("should block requests exceeding limit", () => {
+	it("should block requests exceeding limit", async () => {
 		const clientId = `test-client-${Date.now()}-3`;
 		// Make 10 requests (the limit)
 		for (let i = 0; i < 10; i++) {
-			checkRateLimit(clientId);
+			await checkRateLimit(clientId);
 		}
 		// 11th request should be blocked
-		const result = checkRateLimit(clientId);
+		const result = await checkRateLimit(clientId);
 		expect(result.allowed).toBe(false);
 		expect(result.resetTime).toBeDefined();
 	});
 });
 
+describe("checkRateLimit scopes", () => {
+	it("should give media downloads a quota of their own", async () => {
+		const clientId = `test-client-${Date.now()}-5`;
+		const file = await checkRateLimit(clientId, { route: "file" });
+		expect(file.limit).toBe(120);
+		expect(file.remaining).toBe(119);
+
+		const download = await checkRateLimit(clientId, { route: "download" });
+		expect(download.limit).toBe(10);
+		expect(download.remaining).toBe(9);
+	});
+});
+
+describe("rateLimitHeaders", () => {
+	it("should report the real quota state", async () => {
+		const clientId = `test-client-${Date.now()}-4`;
+		await checkRateLimit(clientId);
+		const headers = rateLimitHeaders(await checkRateLimit(clientId));
+
+		expect(headers["RateLimit-Limit"]).toBe("10");
+		expect(headers["RateLimit-Remaining"]).toBe("8");
+		expect(headers["RateLimit-Policy"]).toBe("10;w=60");
+		expect(Number(headers["RateLimit-Reset"])).toBeLessThanOrEqual(60);
+		expect(headers["Retry-After"]).toBeUndefined();
+	});
+
+	it("should include Retry-After when blocked", () => {
+		const headers = rateLimitHeaders({
+			allowed: false,
+			limit: 10,
+			remaining: 0,
+			resetTime: Date.now() + 30000,
+			window: 60000,
+		});
+
+		expect(headers["RateLimit-Remaining"]).toBe("0");
+		expect(headers["Retry-After"]).toBe("30");
+	});
+});
+
 describe("validateDownloadRequest", () => {
 	it("should validate correct TikTok URL", () => {
 		const result = validateDownloadRequest(
@@ -73,9 +134,7 @@ describe("validateDownloadRequest", () => {
 	});
 
 	it("should reject unsupported platforms", () => {
-		const result = validateDownloadRequest(
-			"https://www.youtube.com/watch?v=123",
-		);
+		const result = validateDownloadRequest("https://vimeo.com/123456");
 		expect(result.valid).toBe(false);
 		expect(result.error).toContain("Unsupported platform");
 	});
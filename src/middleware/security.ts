@@ -1,7 +1,13 @@
-import { getConfig } from "@/config/env";
+import { getConfig, type RateLimitRoute } from "@/config/env";
+import {
+	applyRateLimit,
+	type RateLimitDecision,
+	type RateLimitPolicy,
+} from "@/lib/rate-limit-algorithms";
+import type { RateLimitData } from "@/lib/rate-limit-storage";
 import { getRateLimiter } from "@/lib/rate-limiter";
 import { validate } from "@/lib/validation";
-import type { SupportedPlatform } from "@/types/download";
+import type { ErrorCode, SupportedPlatform } from "@/types/download";
 
 /**
  * Security middleware functions for API requests
@@ -20,55 +26,153 @@ function hashString(str: string): string {
 	return Math.abs(hash).toString(16);
 }
 
+/**
+ * Which quota a request draws from
+ */
+export interface RateLimitScope {
+	route?: RateLimitRoute;
+	platform?: SupportedPlatform;
+}
+
+// Routes with a quota of their own even when not configured, and its defaults
+const ROUTE_DEFAULTS: Partial<
+	Record<RateLimitRoute, Partial<RateLimitPolicy>>
+> = {
+	// Media proxy; players and resumed downloads make many Range requests
+	file: { limit: 120 },
+};
+
+/**
+ * Resolve the policy for a scope and the storage key its quota lives under
+ * Routes and platforms with their own overrides get a separate quota;
+ * everything else shares the default one.
+ */
+function resolveRateLimit(
+	clientId: string,
+	scope: RateLimitScope,
+): { key: string; policy: RateLimitPolicy } {
+	const config = getConfig();
+	const overrides = config.rateLimitOverrides ?? {};
+	const routeOverride =
+		scope.route &&
+		(ROUTE_DEFAULTS[scope.route] || overrides.routes?.[scope.route])
+			? {
+					...ROUTE_DEFAULTS[scope.route],
+					...overrides.routes?.[scope.route],
+				}
+			: undefined;
+	const platformOverride = scope.platform
+		? overrides.platforms?.[scope.platform]
+		: undefined;
+
+	const policy: RateLimitPolicy = {
+		algorithm: config.rateLimitAlgorithm ?? "fixed-window",
+		limit: config.rateLimitMax,
+		window: config.rateLimitWindow,
+		...routeOverride,
+		...platformOverride,
+	};
+
+	const prefix = [
+		routeOverride && scope.route,
+		platformOverride && scope.platform,
+	].filter(Boolean);
+
+	return {
+		key: prefix.length > 0 ? `${prefix.join(":")}:${clientId}` : clientId,
+		policy,
+	};
+}
+
 /**
  * Rate limiting check - uses persistent rate limiter with in-memory fallback
  */
-export function checkRateLimit(clientId: string): {
-	allowed: boolean;
-	resetTime?: number;
-} {
+export async function checkRateLimit(
+	clientId: string,
+	scope: RateLimitScope = {},
+): Promise<RateLimitDecision> {
+	const { key, policy } = resolveRateLimit(clientId, scope);
+
 	try {
 		const rateLimiter = getRateLimiter();
-		return rateLimiter.check(clientId);
+		return await rateLimiter.check(key, policy);
 	} catch (error) {
 		// Fallback to in-memory rate limiting if persistent limiter fails
 		if (import.meta.env.DEV) {
 			console.error("Rate limiter error, using fallback:", error);
 		}
-		return checkRateLimitFallback(clientId);
+		return checkRateLimitFallback(key, policy);
 	}
 }
 
 /**
- * In-memory fallback rate limiter (used only when persistent limiter fails)
+ * Current quota for a client without spending any (for responses that aren't charged)
  */
-const requestCounts = new Map<string, { count: number; resetTime: number }>();
+export async function peekRateLimit(
+	clientId: string,
+	scope: RateLimitScope = {},
+): Promise<RateLimitDecision> {
+	const { key, policy } = resolveRateLimit(clientId, scope);
 
-function checkRateLimitFallback(clientId: string): {
-	allowed: boolean;
-	resetTime?: number;
-} {
-	const config = getConfig();
-	const now = Date.now();
-	const clientData = requestCounts.get(clientId);
-
-	if (!clientData || now > clientData.resetTime) {
-		requestCounts.set(clientId, {
-			count: 1,
-			resetTime: now + config.rateLimitWindow,
-		});
-		return { allowed: true };
+	try {
+		return await getRateLimiter().peek(key, policy);
+	} catch {
+		return applyRateLimit(
+			policy,
+			requestCounts.get(key) ?? null,
+			Date.now(),
+			false,
+		).decision;
 	}
+}
 
-	if (clientData.count >= config.rateLimitMax) {
-		return {
-			allowed: false,
-			resetTime: clientData.resetTime,
-		};
+/**
+ * Build `RateLimit-*` response headers (IETF httpapi-ratelimit-headers draft)
+ */
+export function rateLimitHeaders(
+	decision: RateLimitDecision,
+): Record<string, string> {
+	const resetSeconds = Math.max(
+		0,
+		Math.ceil((decision.resetTime - Date.now()) / 1000),
+	);
+
+	const headers: Record<string, string> = {
+		"RateLimit-Limit": decision.limit.toString(),
+		"RateLimit-Remaining": decision.remaining.toString(),
+		"RateLimit-Reset": resetSeconds.toString(),
+		"RateLimit-Policy": `${decision.limit};w=${Math.ceil(decision.window / 1000)}`,
+	};
+
+	if (!decision.allowed) {
+		headers["Retry-After"] = Math.max(1, resetSeconds).toString();
+	}
+
+	return headers;
+}
+
+/**
+ * In-memory fallback rate limiter (used only when persistent limiter fails)
+ */
+const requestCounts = new Map<string, RateLimitData>();
+
+function checkRateLimitFallback(
+	key: string,
+	policy: RateLimitPolicy,
+): RateLimitDecision {
+	const { entry, decision } = applyRateLimit(
+		policy,
+		requestCounts.get(key) ?? null,
+		Date.now(),
+	);
+
+	if (entry) {
+		requestCounts.set(key, entry);
+	} else {
+		requestCounts.delete(key);
 	}
 
-	clientData.count++;
-	return { allowed: true };
+	return decision;
 }
 
 /**
@@ -99,7 +203,10 @@ export function validateDownloadRequest(
 ): {
 	valid: boolean;
 	error?: string;
+	code?: ErrorCode;
 	platform?: SupportedPlatform;
+	contentId?: string;
+	canonicalUrl?: string;
 } {
 	// Basic URL validation
 	const validation = validate(url);
@@ -107,6 +214,7 @@ export function validateDownloadRequest(
 		return {
 			valid: false,
 			error: validation.errors.join(", "),
+			code: validation.code,
 		};
 	}
 
@@ -126,6 +234,8 @@ export function validateDownloadRequest(
 	return {
 		valid: true,
 		platform: validation.platform,
+		contentId: validation.contentId,
+		canonicalUrl: validation.canonicalUrl,
 	};
 }
 
@@ -136,7 +246,7 @@ export function cleanupRateLimit(): void {
 	const now = Date.now();
 
 	for (const [clientId, data] of requestCounts.entries()) {
-		if (now > data.resetTime) {
+		if (now >= data.resetTime) {
 			requestCounts.delete(clientId);
 		}
 	}
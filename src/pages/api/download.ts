@@ -1,126 +1,88 @@
 import type { APIRoute } from "astro";
+import {
+	isSupportedPlatform,
+	PLATFORMS,
+	SUPPORTED_PLATFORM_IDS,
+} from "@/constants/platforms";
+import { isQualityPreference, QUALITY_PREFERENCES } from "@/constants/quality";
+import { ERROR_STATUS } from "@/lib/errors";
+import { extractionErrorOutcome, extractMedia } from "@/lib/extractor";
+import type { RateLimitDecision } from "@/lib/rate-limit-algorithms";
+import {
+	cacheStatusHeader,
+	getResultCache,
+	resultCacheKey,
+} from "@/lib/result-cache";
+import { resolveShortLink, shortLinkPlatform } from "@/lib/short-links";
+import { acceptsEventStream, createEventStreamResponse } from "@/lib/sse";
 import {
 	checkRateLimit,
 	getClientId,
+	peekRateLimit,
+	type RateLimitScope,
+	rateLimitHeaders,
 	validateDownloadRequest,
 } from "@/middleware/security";
-import type { DownloadResult, SupportedPlatform } from "@/types/download";
-
-// Rust API service URL (configurable via environment)
-const RUST_API_URL = import.meta.env.RUST_API_URL || "http://localhost:3001";
+import type {
+	DownloadResponse,
+	ExtractionProgressEvent,
+} from "@/types/download";
 
 // Request size limit: 10KB (should be more than enough for URL)
 const MAX_BODY_SIZE = 10 * 1024;
 
-interface RustFormat {
-	quality: string;
-	url: string;
-	ext: string;
-	filesize?: number;
-}
+function rateLimitedResponse(decision: RateLimitDecision): Response {
+	const retryInMinutes = Math.max(
+		1,
+		Math.ceil((decision.resetTime - Date.now()) / 60000),
+	);
 
-interface RustExtractResponse {
-	success: boolean;
-	platform: string;
-	title: string;
-	thumbnail?: string;
-	formats: RustFormat[];
-	error?: string;
-}
-
-/**
- * Transform Rust API response to frontend DownloadResult format
- */
-function transformRustResponse(
-	rustResponse: RustExtractResponse,
-	originalUrl: string,
-): DownloadResult[] {
-	const platform = rustResponse.platform as SupportedPlatform;
-
-	return rustResponse.formats.map((format, index) => {
-		// Use yt-dlp download endpoint with original social media URL
-		// This is more reliable than using the extracted video URL directly
-		const downloadUrl = `${RUST_API_URL}/api/download?url=${encodeURIComponent(originalUrl)}`;
-
-		return {
-			id: `${platform}-${Date.now()}-${index}`,
-			type: "video" as const,
-			url: originalUrl,
-			thumbnail: rustResponse.thumbnail,
-			downloadUrl,
-			title: rustResponse.title,
-			size: format.filesize ? formatFileSize(format.filesize) : "Unknown",
-			platform,
-			quality: parseQuality(format.quality),
-			isMock: false,
-		};
-	});
+	return new Response(
+		JSON.stringify({
+			success: false,
+			code: "RATE_LIMITED",
+			error: `Rate limit exceeded. Please try again in ${retryInMinutes} minute${retryInMinutes > 1 ? "s" : ""}.`,
+		}),
+		{
+			status: 429,
+			headers: {
+				"Content-Type": "application/json",
+				...rateLimitHeaders(decision),
+			},
+		},
+	);
 }
 
-function formatFileSize(bytes: number): string {
-	if (bytes < 1024) return `${bytes} B`;
-	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-}
+export const POST: APIRoute = async ({ request }) => {
+	const clientId = getClientId(request);
+	const scope: RateLimitScope = { route: "download" };
 
-function parseQuality(quality: string): "hd" | "sd" | "audio" {
-	const q = quality.toLowerCase();
-	if (q.includes("1080") || q.includes("720") || q === "best" || q === "hd") {
-		return "hd";
-	}
-	if (q.includes("audio")) {
-		return "audio";
-	}
-	return "sd";
-}
+	// Quota headers for responses that don't spend any quota
+	const currentQuotaHeaders = async () =>
+		rateLimitHeaders(await peekRateLimit(clientId, scope));
 
-export const POST: APIRoute = async ({ request }) => {
 	try {
-		const clientId = getClientId(request);
-
 		// Check request size before parsing
 		const contentLength = request.headers.get("content-length");
 		if (contentLength && parseInt(contentLength, 10) > MAX_BODY_SIZE) {
 			return new Response(
 				JSON.stringify({
 					success: false,
+					code: "INVALID_REQUEST",
 					error: `Request body too large. Maximum size is ${MAX_BODY_SIZE / 1024}KB.`,
 				}),
 				{
 					status: 413,
-					headers: { "Content-Type": "application/json" },
-				},
-			);
-		}
-
-		// Rate limiting check
-		const rateLimitCheck = checkRateLimit(clientId);
-		if (!rateLimitCheck.allowed) {
-			const resetTime = rateLimitCheck.resetTime;
-			const resetInMinutes = Math.ceil(
-				((resetTime || Date.now() + 60000) - Date.now()) / 60000,
-			);
-
-			return new Response(
-				JSON.stringify({
-					success: false,
-					error: `Rate limit exceeded. Please try again in ${resetInMinutes} minute${resetInMinutes > 1 ? "s" : ""}.`,
-				}),
-				{
-					status: 429,
 					headers: {
 						"Content-Type": "application/json",
-						"X-RateLimit-Limit": "10",
-						"X-RateLimit-Remaining": "0",
-						"X-RateLimit-Reset": resetTime?.toString() || "",
-						"Retry-After": resetInMinutes.toString(),
+						...(await currentQuotaHeaders()),
 					},
 				},
 			);
 		}
 
 		// Get request data
-		let requestBody: { url?: string };
+		let requestBody: { url?: string; platform?: unknown; quality?: unknown };
 		try {
 			requestBody = await request.json();
 		} catch (parseError) {
@@ -130,28 +92,104 @@ export const POST: APIRoute = async ({ request }) => {
 			return new Response(
 				JSON.stringify({
 					success: false,
+					code: "INVALID_REQUEST",
 					error: "Invalid JSON in request body",
 				}),
-				{ status: 400, headers: { "Content-Type": "application/json" } },
+				{
+					status: 400,
+					headers: {
+						"Content-Type": "application/json",
+						...(await currentQuotaHeaders()),
+					},
+				},
 			);
 		}
 
-		const { url } = requestBody;
+		const { url, platform, quality } = requestBody;
 
 		if (!url || typeof url !== "string") {
 			return new Response(
 				JSON.stringify({
 					success: false,
+					code: "INVALID_URL",
 					error: url ? "URL must be a string" : "URL is required",
 					received: typeof url,
 				}),
-				{ status: 400, headers: { "Content-Type": "application/json" } },
+				{
+					status: 400,
+					headers: {
+						"Content-Type": "application/json",
+						...(await currentQuotaHeaders()),
+					},
+				},
+			);
+		}
+
+		// Optional preferences; see DownloadRequest
+		const preferredPlatform = isSupportedPlatform(platform)
+			? platform
+			: undefined;
+		const preferredQuality = isQualityPreference(quality) ? quality : undefined;
+		const preferenceError =
+			platform !== undefined && !isSupportedPlatform(platform)
+				? `Unsupported platform. Please use one of: ${SUPPORTED_PLATFORM_IDS.join(", ")}`
+				: quality !== undefined && !isQualityPreference(quality)
+					? `Invalid quality. Please use one of: ${Object.keys(QUALITY_PREFERENCES).join(", ")}`
+					: null;
+
+		if (preferenceError) {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					code: "INVALID_REQUEST",
+					error: preferenceError,
+				}),
+				{
+					status: 400,
+					headers: {
+						"Content-Type": "application/json",
+						...(await currentQuotaHeaders()),
+					},
+				},
+			);
+		}
+
+		// Short links are charged before they're expanded, since expanding one means
+		// outbound lookups and requests; this includes ones whose post is cached
+		let shortLinkCheck: RateLimitDecision | null = null;
+		const shortLinkHost = shortLinkPlatform(url);
+		if (shortLinkHost) {
+			scope.platform = shortLinkHost;
+			shortLinkCheck = await checkRateLimit(clientId, scope);
+			if (!shortLinkCheck.allowed) {
+				return rateLimitedResponse(shortLinkCheck);
+			}
+		}
+
+		// Expand share-sheet short links so validation sees the canonical post URL
+		const shortLink = await resolveShortLink(url);
+		if (shortLink.error) {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					code: shortLink.code,
+					error: shortLink.error,
+				}),
+				{
+					status: ERROR_STATUS[shortLink.code ?? "INVALID_URL"],
+					headers: {
+						"Content-Type": "application/json",
+						...(await currentQuotaHeaders()),
+					},
+				},
 			);
 		}
 
+		const requestUrl = (shortLink.url ?? url).trim();
+
 		// Security validation
 		const validation = validateDownloadRequest(
-			url,
+			requestUrl,
 			request.headers.get("user-agent") || undefined,
 		);
 
@@ -159,57 +197,156 @@ export const POST: APIRoute = async ({ request }) => {
 			return new Response(
 				JSON.stringify({
 					success: false,
+					code: validation.code ?? "INVALID_URL",
 					error: validation.error || "Invalid request",
 				}),
-				{ status: 400, headers: { "Content-Type": "application/json" } },
+				{
+					status: 400,
+					headers: {
+						"Content-Type": "application/json",
+						...(await currentQuotaHeaders()),
+					},
+				},
 			);
 		}
 
-		// Forward request to Rust API service with timeout
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), 35000); // 35s timeout
-
-		const rustResponse = await fetch(`${RUST_API_URL}/api/extract`, {
-			method: "POST",
-			headers: { "Content-Type": "application/json" },
-			body: JSON.stringify({ url: url.trim() }),
-			signal: controller.signal,
-		}).finally(() => clearTimeout(timeoutId));
-
-		const rustData: RustExtractResponse = await rustResponse.json();
-
-		if (!rustData.success || !rustData.formats?.length) {
+		// A platform hint must agree with the URL
+		if (preferredPlatform && validation.platform !== preferredPlatform) {
 			return new Response(
 				JSON.stringify({
 					success: false,
-					error: rustData.error || "Failed to extract download links",
-					platform: rustData.platform,
+					code: "INVALID_REQUEST",
+					error: `URL does not match the requested platform (${PLATFORMS[preferredPlatform].name})`,
 				}),
 				{
-					status: rustResponse.ok ? 500 : rustResponse.status,
-					headers: { "Content-Type": "application/json" },
+					status: 400,
+					headers: {
+						"Content-Type": "application/json",
+						...(await currentQuotaHeaders()),
+					},
 				},
 			);
 		}
 
-		// Transform to frontend format
-		const results = transformRustResponse(rustData, url.trim());
+		// From here on the platform is known, so platform-specific limits apply
+		scope.platform = validation.platform;
 
-		return new Response(
-			JSON.stringify({
-				success: true,
-				results,
-				platform: rustData.platform,
-			}),
-			{
+		// Extract from the canonical URL so mirrors and share params don't reach the backend
+		const targetUrl = validation.canonicalUrl ?? requestUrl;
+		const withRequestUrls = (response: DownloadResponse): DownloadResponse => ({
+			...response,
+			canonicalUrl: targetUrl,
+			...(shortLink.resolved ? { resolvedUrl: requestUrl } : {}),
+		});
+
+		// Serve repeat requests from the cache; hits are free unless charged as a short link
+		const cache = getResultCache();
+		const cacheKey =
+			validation.platform && validation.contentId
+				? resultCacheKey(
+						validation.platform,
+						validation.contentId,
+						preferredQuality,
+					)
+				: null;
+		const cached = cacheKey ? await cache.get(cacheKey) : null;
+
+		if (cached) {
+			return new Response(JSON.stringify(withRequestUrls(cached.response)), {
 				status: 200,
 				headers: {
 					"Content-Type": "application/json",
-					"X-RateLimit-Limit": "10",
-					"X-RateLimit-Reset": rateLimitCheck.resetTime?.toString() || "",
+					"Cache-Status": cacheStatusHeader(cached),
+					Age: cached.age.toString(),
+					...(await currentQuotaHeaders()),
 				},
-			},
+			});
+		}
+
+		// Rate limiting check (short links were charged above)
+		const rateLimitCheck =
+			shortLinkCheck ?? (await checkRateLimit(clientId, scope));
+		if (!rateLimitCheck.allowed) {
+			return rateLimitedResponse(rateLimitCheck);
+		}
+
+		// Streaming clients get progress events; everyone else gets plain JSON
+		if (acceptsEventStream(request)) {
+			return createEventStreamResponse(
+				async (send, streamSignal) => {
+					// Stop extracting (and retrying) once the client is gone
+					const signal = AbortSignal.any([request.signal, streamSignal]);
+					const emit = (event: ExtractionProgressEvent) =>
+						send(event.stage, event);
+
+					emit({ stage: "validated", platform: validation.platform });
+
+					try {
+						const { response } = await extractMedia(
+							targetUrl,
+							emit,
+							{ quality: preferredQuality },
+							signal,
+						);
+						if (cacheKey) {
+							await cache.set(cacheKey, response);
+						}
+						emit({
+							stage: response.success ? "done" : "error",
+							platform: response.platform,
+							response: withRequestUrls(response),
+						});
+					} catch (error) {
+						if (signal.aborted) {
+							return;
+						}
+						if (import.meta.env.DEV) {
+							console.error("Download stream error:", error);
+						}
+						emit({
+							stage: "error",
+							response: extractionErrorOutcome(error).response,
+						});
+					}
+				},
+				{
+					headers: {
+						"Cache-Status": cacheStatusHeader(null),
+						...rateLimitHeaders(rateLimitCheck),
+					},
+				},
+			);
+		}
+
+		const { status, response } = await extractMedia(
+			targetUrl,
+			undefined,
+			{ quality: preferredQuality },
+			request.signal,
 		);
+
+		if (!response.success) {
+			return new Response(JSON.stringify(withRequestUrls(response)), {
+				status,
+				headers: {
+					"Content-Type": "application/json",
+					...rateLimitHeaders(rateLimitCheck),
+				},
+			});
+		}
+
+		if (cacheKey) {
+			await cache.set(cacheKey, response);
+		}
+
+		return new Response(JSON.stringify(withRequestUrls(response)), {
+			status,
+			headers: {
+				"Content-Type": "application/json",
+				"Cache-Status": cacheStatusHeader(null, cacheKey !== null),
+				...rateLimitHeaders(rateLimitCheck),
+			},
+		});
 	} catch (error) {
 		// Only log detailed errors in development
 		if (import.meta.env.DEV) {
@@ -217,30 +354,20 @@ export const POST: APIRoute = async ({ request }) => {
 				error: error instanceof Error ? error.message : "Unknown error",
 				stack: error instanceof Error ? error.stack : "No stack trace",
 				timestamp: new Date().toISOString(),
-				clientId: getClientId(request),
+				clientId,
 			});
 		}
 
-		// Check if Rust service is unavailable
-		const isConnectionError =
-			error instanceof Error &&
-			(error.message.includes("ECONNREFUSED") ||
-				error.message.includes("fetch failed"));
-
-		return new Response(
-			JSON.stringify({
-				success: false,
-				error: isConnectionError
-					? "Download service unavailable. Please ensure the backend is running."
-					: "An unexpected error occurred. Please try again later.",
-			}),
-			{
-				status: isConnectionError ? 503 : 500,
-				headers: {
-					"Content-Type": "application/json",
-					"X-Error-ID": Math.random().toString(36).substring(2, 11),
-				},
+		const { status, response, retryAfter } = extractionErrorOutcome(error);
+
+		return new Response(JSON.stringify(response), {
+			status,
+			headers: {
+				"Content-Type": "application/json",
+				"X-Error-ID": Math.random().toString(36).substring(2, 11),
+				...(retryAfter !== undefined && { "Retry-After": String(retryAfter) }),
+				...(await currentQuotaHeaders()),
 			},
-		);
+		});
 	}
 };
@@ -0,0 +1,299 @@
+import type { APIRoute } from "astro";
+import { isQualityPreference, QUALITY_PREFERENCES } from "@/constants/quality";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { extractionErrorOutcome, extractMedia } from "@/lib/extractor";
+import { getResultCache, resultCacheKey } from "@/lib/result-cache";
+import { resolveShortLink, shortLinkPlatform } from "@/lib/short-links";
+import {
+	checkRateLimit,
+	getClientId,
+	peekRateLimit,
+	rateLimitHeaders,
+	validateDownloadRequest,
+} from "@/middleware/security";
+import type { BatchDownloadItem } from "@/types/download";
+
+// Request size limit: 64KB (room for a full batch of long URLs)
+const MAX_BODY_SIZE = 64 * 1024;
+
+// Maximum URLs accepted in one batch
+const MAX_BATCH_SIZE = 50;
+
+// Concurrent extractions per batch, so one batch can't monopolize the backend
+const BATCH_CONCURRENCY = 4;
+
+export const POST: APIRoute = async ({ request }) => {
+	const clientId = getClientId(request);
+
+	// Quota headers reflecting the state after this request
+	const currentQuotaHeaders = async () =>
+		rateLimitHeaders(await peekRateLimit(clientId, { route: "batch" }));
+
+	// Check request size before parsing
+	const contentLength = request.headers.get("content-length");
+	if (contentLength && parseInt(contentLength, 10) > MAX_BODY_SIZE) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "INVALID_REQUEST",
+				error: `Request body too large. Maximum size is ${MAX_BODY_SIZE / 1024}KB.`,
+			}),
+			{
+				status: 413,
+				headers: {
+					"Content-Type": "application/json",
+					...(await currentQuotaHeaders()),
+				},
+			},
+		);
+	}
+
+	// Get request data
+	let requestBody: { urls?: unknown; quality?: unknown };
+	try {
+		requestBody = await request.json();
+	} catch (parseError) {
+		if (import.meta.env.DEV) {
+			console.error("Failed to parse request body:", parseError);
+		}
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "INVALID_REQUEST",
+				error: "Invalid JSON in request body",
+			}),
+			{
+				status: 400,
+				headers: {
+					"Content-Type": "application/json",
+					...(await currentQuotaHeaders()),
+				},
+			},
+		);
+	}
+
+	const { urls, quality } = requestBody;
+
+	if (!Array.isArray(urls) || urls.length === 0) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "INVALID_REQUEST",
+				error: "URLs must be a non-empty array",
+			}),
+			{
+				status: 400,
+				headers: {
+					"Content-Type": "application/json",
+					...(await currentQuotaHeaders()),
+				},
+			},
+		);
+	}
+
+	if (urls.length > MAX_BATCH_SIZE) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "INVALID_REQUEST",
+				error: `Too many URLs. Maximum batch size is ${MAX_BATCH_SIZE}.`,
+			}),
+			{
+				status: 400,
+				headers: {
+					"Content-Type": "application/json",
+					...(await currentQuotaHeaders()),
+				},
+			},
+		);
+	}
+
+	// Optional quality preference applied to every URL
+	if (quality !== undefined && !isQualityPreference(quality)) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "INVALID_REQUEST",
+				error: `Invalid quality. Please use one of: ${Object.keys(QUALITY_PREFERENCES).join(", ")}`,
+			}),
+			{
+				status: 400,
+				headers: {
+					"Content-Type": "application/json",
+					...(await currentQuotaHeaders()),
+				},
+			},
+		);
+	}
+	const preferredQuality = isQualityPreference(quality) ? quality : undefined;
+
+	const userAgent = request.headers.get("user-agent") || undefined;
+
+	const cache = getResultCache();
+
+	// Charge short links before expanding them, as /api/download does: each
+	// expansion makes outbound requests, so they aren't free even when cached
+	const shortLinkChecks = await Promise.all(
+		urls.map(async (url: unknown) => {
+			const platform = typeof url === "string" ? shortLinkPlatform(url) : null;
+			return platform
+				? {
+						platform,
+						decision: await checkRateLimit(clientId, {
+							route: "batch",
+							platform,
+						}),
+					}
+				: null;
+		}),
+	);
+
+	// Expand share-sheet short links first (network-bound, so run them concurrently)
+	const shortLinks = await mapWithConcurrency(
+		urls,
+		BATCH_CONCURRENCY,
+		async (url: unknown, index) =>
+			typeof url === "string" &&
+			shortLinkChecks[index]?.decision.allowed !== false
+				? resolveShortLink(url)
+				: null,
+	);
+
+	// Validate and rate-limit every URL up front; each one costs a request
+	// unless it can be answered from the cache (short links were charged above)
+	const items: (
+		| BatchDownloadItem
+		| {
+				url: string;
+				canonicalUrl: string;
+				resolvedUrl?: string;
+				cacheKey?: string;
+		  }
+	)[] = [];
+	for (const [index, url] of urls.entries()) {
+		if (typeof url !== "string") {
+			items.push({
+				url: String(url),
+				success: false,
+				code: "INVALID_URL",
+				error: "URL must be a string",
+			});
+			continue;
+		}
+
+		const shortLinkCheck = shortLinkChecks[index];
+		if (shortLinkCheck && !shortLinkCheck.decision.allowed) {
+			items.push({
+				url,
+				success: false,
+				code: "RATE_LIMITED",
+				error: "Rate limit exceeded. Please try again later.",
+				platform: shortLinkCheck.platform,
+			});
+			continue;
+		}
+
+		const shortLink = shortLinks[index];
+		if (shortLink?.error) {
+			items.push({
+				url,
+				success: false,
+				code: shortLink.code,
+				error: shortLink.error,
+			});
+			continue;
+		}
+		const resolvedUrl = shortLink?.resolved ? shortLink.url : undefined;
+		const requestUrl = (resolvedUrl ?? url).trim();
+
+		const validation = validateDownloadRequest(requestUrl, userAgent);
+		if (!validation.valid) {
+			items.push({
+				url,
+				success: false,
+				code: validation.code ?? "INVALID_URL",
+				error: validation.error || "Invalid request",
+			});
+			continue;
+		}
+
+		const canonicalUrl = validation.canonicalUrl ?? requestUrl;
+		const cacheKey =
+			validation.platform && validation.contentId
+				? resultCacheKey(
+						validation.platform,
+						validation.contentId,
+						preferredQuality,
+					)
+				: undefined;
+		const cached = cacheKey ? await cache.get(cacheKey) : null;
+		if (cached) {
+			items.push({ url, ...cached.response, canonicalUrl, resolvedUrl });
+			continue;
+		}
+
+		const rateLimitCheck =
+			shortLinkCheck?.decision ??
+			(await checkRateLimit(clientId, {
+				route: "batch",
+				platform: validation.platform,
+			}));
+		if (!rateLimitCheck.allowed) {
+			items.push({
+				url,
+				success: false,
+				code: "RATE_LIMITED",
+				error: "Rate limit exceeded. Please try again later.",
+				platform: validation.platform,
+			});
+			continue;
+		}
+
+		items.push({ url, canonicalUrl, resolvedUrl, cacheKey });
+	}
+
+	const results = await mapWithConcurrency(
+		items,
+		BATCH_CONCURRENCY,
+		async (item): Promise<BatchDownloadItem> => {
+			// Already settled during validation (error or cache hit)
+			if ("success" in item) {
+				return item;
+			}
+
+			try {
+				const { response } = await extractMedia(item.canonicalUrl, undefined, {
+					quality: preferredQuality,
+				});
+				if (item.cacheKey) {
+					await cache.set(item.cacheKey, response);
+				}
+				return {
+					url: item.url,
+					...response,
+					canonicalUrl: item.canonicalUrl,
+					resolvedUrl: item.resolvedUrl,
+				};
+			} catch (error) {
+				if (import.meta.env.DEV) {
+					console.error("Batch extraction error:", { url: item.url, error });
+				}
+				return { url: item.url, ...extractionErrorOutcome(error).response };
+			}
+		},
+	);
+
+	return new Response(
+		JSON.stringify({
+			success: true,
+			items: results,
+		}),
+		{
+			status: 200,
+			headers: {
+				"Content-Type": "application/json",
+				...(await currentQuotaHeaders()),
+			},
+		},
+	);
+};
@@ -0,0 +1,291 @@
+import type { APIRoute } from "astro";
+import {
+	fetchBackendMedia,
+	isValidMediaSelector,
+	mediaFilename,
+} from "@/lib/media-source";
+import { createZipStream, type ZipEntry } from "@/lib/zip";
+import {
+	checkRateLimit,
+	getClientId,
+	peekRateLimit,
+	rateLimitHeaders,
+	validateDownloadRequest,
+} from "@/middleware/security";
+import type {
+	BundleFile,
+	BundleManifestEntry,
+	ErrorCode,
+	SupportedPlatform,
+} from "@/types/download";
+
+// Request size limit: 64KB (room for a full batch of long URLs)
+const MAX_BODY_SIZE = 64 * 1024;
+
+// Maximum files in one archive
+const MAX_BUNDLE_FILES = 100;
+
+// Fields of a BundleFile; all optional strings except `url`
+const BUNDLE_FILE_FIELDS = ["url", "format", "ext", "item", "title"] as const;
+
+interface PreparedFile {
+	file: BundleFile;
+	url: string; // Canonical post URL
+	platform?: SupportedPlatform;
+	contentId?: string;
+}
+
+/**
+ * Archive entries: each media file as the backend streams it, then manifest.json
+ * Files the backend can't deliver are skipped and reported in the manifest, as
+ * are files past the client's media quota: like /api/file fetches, each file
+ * is charged to the `file` route just before it's fetched.
+ */
+async function* bundleEntries(
+	files: PreparedFile[],
+	signal: AbortSignal,
+	clientId: string,
+): AsyncGenerator<ZipEntry> {
+	const manifest: BundleManifestEntry[] = [];
+	const digits = String(files.length).length;
+
+	for (const [index, prepared] of files.entries()) {
+		const { file } = prepared;
+		const entry: BundleManifestEntry = {
+			sourceUrl: prepared.url,
+			platform: prepared.platform,
+			contentId: prepared.contentId,
+			item: file.item ? Number(file.item) : undefined,
+			format: file.format,
+			title: file.title,
+		};
+		manifest.push(entry);
+
+		const rateLimitCheck = await checkRateLimit(clientId, { route: "file" });
+		if (!rateLimitCheck.allowed) {
+			entry.error = "Rate limit exceeded";
+			continue;
+		}
+
+		try {
+			const upstream = await fetchBackendMedia(
+				{ ...file, url: prepared.url },
+				{ signal },
+			);
+			if (!upstream.ok || !upstream.body) {
+				await upstream.body?.cancel();
+				entry.error = `Download service responded with ${upstream.status}`;
+				continue;
+			}
+
+			entry.file = mediaFilename(
+				[
+					String(index + 1).padStart(digits, "0"),
+					prepared.platform,
+					prepared.contentId,
+					file.item,
+				],
+				file.ext ?? "bin",
+			);
+			entry.contentType = upstream.headers.get("content-type") ?? undefined;
+			yield { name: entry.file, data: upstream.body };
+		} catch (error) {
+			if (signal.aborted) {
+				throw error;
+			}
+			if (import.meta.env.DEV) {
+				console.error("Bundle file error:", { url: prepared.url, error });
+			}
+			entry.error = "Download service unavailable";
+		}
+	}
+
+	yield {
+		name: "manifest.json",
+		data: new TextEncoder().encode(
+			JSON.stringify(
+				{ createdAt: new Date().toISOString(), files: manifest },
+				null,
+				2,
+			),
+		),
+	};
+}
+
+/**
+ * Stream a ZIP of several media files ("Download all")
+ *
+ * The archive is assembled while it downloads: each file is piped from the
+ * backend into the ZIP stream as the client reads, so the server never holds
+ * a whole file in memory.
+ */
+export const POST: APIRoute = async ({ request }) => {
+	const clientId = getClientId(request);
+
+	// Quota headers for responses that don't spend any quota
+	const currentQuotaHeaders = async () =>
+		rateLimitHeaders(await peekRateLimit(clientId, { route: "zip" }));
+
+	const errorResponse = async (
+		status: number,
+		code: ErrorCode,
+		error: string,
+	) =>
+		new Response(JSON.stringify({ success: false, code, error }), {
+			status,
+			headers: {
+				"Content-Type": "application/json",
+				...(await currentQuotaHeaders()),
+			},
+		});
+
+	// Check request size before parsing
+	const contentLength = request.headers.get("content-length");
+	if (contentLength && parseInt(contentLength, 10) > MAX_BODY_SIZE) {
+		return errorResponse(
+			413,
+			"INVALID_REQUEST",
+			`Request body too large. Maximum size is ${MAX_BODY_SIZE / 1024}KB.`,
+		);
+	}
+
+	// Browsers post a form (`files` as JSON) so the archive streams to disk;
+	// unlike JSON posts, those aren't preflighted, so they must come from here
+	const isForm = request.headers
+		.get("content-type")
+		?.includes("application/x-www-form-urlencoded");
+	const origin = request.headers.get("origin");
+	if (isForm && origin && origin !== new URL(request.url).origin) {
+		return errorResponse(
+			403,
+			"INVALID_REQUEST",
+			"Form posts must come from this site",
+		);
+	}
+
+	// Get request data
+	let requestBody: { files?: unknown };
+	try {
+		requestBody = isForm
+			? { files: JSON.parse(String((await request.formData()).get("files"))) }
+			: await request.json();
+	} catch (parseError) {
+		if (import.meta.env.DEV) {
+			console.error("Failed to parse request body:", parseError);
+		}
+		return errorResponse(
+			400,
+			"INVALID_REQUEST",
+			"Invalid JSON in request body",
+		);
+	}
+
+	const { files } = requestBody;
+
+	if (!Array.isArray(files) || files.length === 0) {
+		return errorResponse(
+			400,
+			"INVALID_REQUEST",
+			"files must be a non-empty array",
+		);
+	}
+
+	if (files.length > MAX_BUNDLE_FILES) {
+		return errorResponse(
+			400,
+			"INVALID_REQUEST",
+			`Too many files. Maximum is ${MAX_BUNDLE_FILES} per archive.`,
+		);
+	}
+
+	// Validate every file up front; a broken archive is worse than a clear error
+	const userAgent = request.headers.get("user-agent") || undefined;
+	const prepared: PreparedFile[] = [];
+
+	for (const [index, entry] of (files as unknown[]).entries()) {
+		const file = (entry ?? {}) as Record<string, unknown>;
+		if (typeof file.url !== "string") {
+			return errorResponse(
+				400,
+				"INVALID_URL",
+				`File ${index + 1}: URL is required`,
+			);
+		}
+
+		const invalidField = BUNDLE_FILE_FIELDS.find(
+			(field) => file[field] !== undefined && typeof file[field] !== "string",
+		);
+		if (invalidField) {
+			return errorResponse(
+				400,
+				"INVALID_REQUEST",
+				`File ${index + 1}: ${invalidField} must be a string`,
+			);
+		}
+
+		const validation = validateDownloadRequest(file.url, userAgent);
+		if (!validation.valid) {
+			return errorResponse(
+				400,
+				validation.code ?? "INVALID_URL",
+				`File ${index + 1}: ${validation.error || "Invalid request"}`,
+			);
+		}
+
+		const selector: BundleFile = {
+			url: file.url,
+			format: file.format as string | undefined,
+			ext: (file.ext as string | undefined)?.toLowerCase(),
+			item: file.item as string | undefined,
+			title: file.title as string | undefined,
+		};
+		if (!isValidMediaSelector(selector)) {
+			return errorResponse(
+				400,
+				"INVALID_REQUEST",
+				`File ${index + 1}: Invalid format`,
+			);
+		}
+
+		prepared.push({
+			file: selector,
+			url: validation.canonicalUrl ?? file.url.trim(),
+			platform: validation.platform,
+			contentId: validation.contentId,
+		});
+	}
+
+	// The archive spends one request of quota; its files draw on the media quota
+	const rateLimitCheck = await checkRateLimit(clientId, { route: "zip" });
+	if (!rateLimitCheck.allowed) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "RATE_LIMITED",
+				error: "Rate limit exceeded. Please try again later.",
+			}),
+			{
+				status: 429,
+				headers: {
+					"Content-Type": "application/json",
+					...rateLimitHeaders(rateLimitCheck),
+				},
+			},
+		);
+	}
+
+	const filename = `snatch-${new Date().toISOString().slice(0, 10)}.zip`;
+
+	return new Response(
+		createZipStream(bundleEntries(prepared, request.signal, clientId)),
+		{
+			status: 200,
+			headers: {
+				"Content-Type": "application/zip",
+				"Content-Disposition": `attachment; filename="${filename}"`,
+				"Cache-Control": "private, no-store",
+				...rateLimitHeaders(rateLimitCheck),
+			},
+		},
+	);
+};
@@ -0,0 +1,175 @@
+import type { APIRoute } from "astro";
+import { BackendUnavailableError } from "@/lib/backend-client";
+import {
+	fetchBackendMedia,
+	isValidMediaSelector,
+	mediaFilename,
+} from "@/lib/media-source";
+import {
+	checkRateLimit,
+	getClientId,
+	rateLimitHeaders,
+	validateDownloadRequest,
+} from "@/middleware/security";
+
+// Upstream headers that are safe (and useful) to relay to the browser
+const PASSTHROUGH_HEADERS = [
+	"content-type",
+	"content-length",
+	"content-range",
+	"content-disposition",
+	"accept-ranges",
+	"last-modified",
+	"etag",
+];
+
+/**
+ * Stream media from the Rust backend to the client
+ *
+ * The browser only ever sees `/api/file?url=...`; the backend hostname stays
+ * on the server. `format` selects the exact backend format a result card
+ * points at, `item` the photo or video within a carousel post, and `Range`
+ * requests are forwarded so players can seek and interrupted downloads can
+ * resume.
+ */
+export const GET: APIRoute = async ({ request, url: requestUrl }) => {
+	const url = requestUrl.searchParams.get("url");
+	const format = requestUrl.searchParams.get("format") ?? undefined;
+	const ext = requestUrl.searchParams.get("ext")?.toLowerCase();
+	const item = requestUrl.searchParams.get("item") ?? undefined;
+
+	if (!url) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "INVALID_URL",
+				error: "URL is required",
+			}),
+			{ status: 400, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	// Only proxy URLs we would extract, so this route can't be used as an open proxy
+	const validation = validateDownloadRequest(
+		url,
+		request.headers.get("user-agent") || undefined,
+	);
+
+	if (!validation.valid) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: validation.code ?? "INVALID_URL",
+				error: validation.error || "Invalid request",
+			}),
+			{ status: 400, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	if (!isValidMediaSelector({ url, format, ext, item })) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "INVALID_REQUEST",
+				error: "Invalid format",
+			}),
+			{ status: 400, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	// Its own quota (see ROUTE_DEFAULTS), so watching a video doesn't use up
+	// extractions; platform limits are meant for extractions and don't apply
+	const rateLimitCheck = await checkRateLimit(getClientId(request), {
+		route: "file",
+	});
+	if (!rateLimitCheck.allowed) {
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "RATE_LIMITED",
+				error: "Rate limit exceeded. Please try again later.",
+			}),
+			{
+				status: 429,
+				headers: {
+					"Content-Type": "application/json",
+					...rateLimitHeaders(rateLimitCheck),
+				},
+			},
+		);
+	}
+
+	try {
+		const upstream = await fetchBackendMedia(
+			{ url, format, item },
+			{
+				range: request.headers.get("range"),
+				// Abort the backend transfer when the client goes away
+				signal: request.signal,
+			},
+		);
+
+		if (!upstream.ok || !upstream.body) {
+			// Drain the body so the connection can be reused
+			await upstream.body?.cancel();
+			return new Response(
+				JSON.stringify({
+					success: false,
+					code:
+						upstream.status === 416 ? "INVALID_REQUEST" : "BACKEND_UNAVAILABLE",
+					error:
+						upstream.status === 416
+							? "Requested range not satisfiable"
+							: "Failed to fetch media from download service",
+				}),
+				{
+					status: upstream.status === 416 ? 416 : 502,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const headers = new Headers();
+		for (const name of PASSTHROUGH_HEADERS) {
+			const value = upstream.headers.get(name);
+			if (value) {
+				headers.set(name, value);
+			}
+		}
+		// Give the file a meaningful name if the backend didn't suggest one
+		if (!headers.has("content-disposition") && ext) {
+			const filename = mediaFilename([validation.platform, item, format], ext);
+			headers.set("Content-Disposition", `attachment; filename="${filename}"`);
+		}
+		if (!headers.has("accept-ranges")) {
+			headers.set("Accept-Ranges", "bytes");
+		}
+		headers.set("Cache-Control", "private, no-store");
+
+		return new Response(upstream.body, {
+			status: upstream.status,
+			headers,
+		});
+	} catch (error) {
+		if (import.meta.env.DEV) {
+			console.error("File proxy error:", error);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "BACKEND_UNAVAILABLE",
+				error: "Download service unavailable. Please try again later.",
+			}),
+			{
+				status: 503,
+				headers: {
+					"Content-Type": "application/json",
+					...(error instanceof BackendUnavailableError && {
+						"Retry-After": String(error.retryAfter),
+					}),
+				},
+			},
+		);
+	}
+};
@@ -0,0 +1,24 @@
+import type { APIRoute } from "astro";
+import type { HealthResponse } from "@/types/download";
+
+const startedAt = Date.now();
+
+/**
+ * Liveness probe: answers as long as the server is up
+ * Deliberately doesn't touch the backend; use /api/status for that.
+ */
+export const GET: APIRoute = () => {
+	const body: HealthResponse = {
+		status: "ok",
+		uptime: Math.floor((Date.now() - startedAt) / 1000),
+		timestamp: new Date().toISOString(),
+	};
+
+	return new Response(JSON.stringify(body), {
+		status: 200,
+		headers: {
+			"Content-Type": "application/json",
+			"Cache-Control": "no-store",
+		},
+	});
+};
@@ -0,0 +1,15 @@
+import type { APIRoute } from "astro";
+import { OPENAPI_DOCUMENT } from "@/lib/openapi";
+
+/**
+ * The OpenAPI 3.1 description of this API
+ */
+export const GET: APIRoute = () =>
+	new Response(JSON.stringify(OPENAPI_DOCUMENT, null, 2), {
+		status: 200,
+		headers: {
+			"Content-Type": "application/json",
+			"Cache-Control": "public, max-age=3600",
+			"Access-Control-Allow-Origin": "*",
+		},
+	});
@@ -0,0 +1,32 @@
+import type { APIRoute } from "astro";
+import { getServiceStatus } from "@/lib/service-status";
+
+/**
+ * Backend reachability and latency plus per-platform success rates
+ * Always 200 when the report could be built; read `condition` for the verdict.
+ */
+export const GET: APIRoute = async () => {
+	try {
+		const report = await getServiceStatus();
+		return new Response(JSON.stringify(report), {
+			status: 200,
+			headers: {
+				"Content-Type": "application/json",
+				"Cache-Control": "public, max-age=15",
+			},
+		});
+	} catch (error) {
+		if (import.meta.env.DEV) {
+			console.error("Status API error:", error);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "INTERNAL_ERROR",
+				error: "Status is unavailable right now.",
+			}),
+			{ status: 500, headers: { "Content-Type": "application/json" } },
+		);
+	}
+};
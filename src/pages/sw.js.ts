@@ -0,0 +1,29 @@
+import type { APIRoute } from "astro";
+import { errorMessage, LOCALES } from "@/lib/i18n";
+import source from "@/service-worker.js?raw";
+
+// Set in astro.config; unset under `astro dev` and in tests
+const BUILD_ID = import.meta.env.BUILD_ID ?? "dev";
+
+// What the worker answers extractions it queued with, in every locale
+const OFFLINE_MESSAGES = Object.fromEntries(
+	LOCALES.map((locale) => [locale, errorMessage(locale, "OFFLINE")]),
+);
+
+/**
+ * GET /sw.js - the service worker, stamped with the build ID and its messages
+ * Served from a route rather than public/ so every deploy changes the script
+ * (which is what triggers the browser's update) and it is never cached as immutable.
+ */
+export const GET: APIRoute = () =>
+	new Response(
+		source
+			.replace("__BUILD_ID__", BUILD_ID)
+			.replace('"__OFFLINE_MESSAGES__"', JSON.stringify(OFFLINE_MESSAGES)),
+		{
+			headers: {
+				"Content-Type": "text/javascript; charset=utf-8",
+				"Cache-Control": "no-cache",
+			},
+		},
+	);
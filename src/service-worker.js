@@ -0,0 +1,268 @@
+/**
+ * Snatch service worker, served at /sw.js by src/pages/sw.js.ts
+ *
+ * - Precaches the app shell and the assets it references, so the installed app
+ *   opens offline
+ * - Queues extractions made while offline and runs them when the connection
+ *   returns (Background Sync, or a "replay" message from the page)
+ * - Waits for the page's "skip-waiting" message before taking over, so a new
+ *   build is only applied when the user accepts the update prompt
+ */
+
+// Replaced per build; a new value is what makes the browser install an update
+const VERSION = "__BUILD_ID__";
+const CACHE_NAME = `snatch-${VERSION}`;
+
+const SHELL_URLS = [
+	"/",
+	"/offline.html",
+	"/manifest.json",
+	"/logo.svg",
+	"/logo192.png",
+	"/favicon.ico",
+];
+
+// Home pages: "/" and the locale-prefixed "/zh/", "/ja/"
+const SHELL_PATH = /^\/(?:[a-z]{2}\/)?$/;
+
+// Hashed build output referenced by the shell's HTML
+const ASSET_PATTERN = /\/_astro\/[^"'\s)]+/g;
+
+// Locale → message for queued extractions, from the catalogs; replaced when served
+const OFFLINE_MESSAGES = "__OFFLINE_MESSAGES__";
+
+const QUEUE_DB = "snatch-offline";
+const QUEUE_STORE = "extractions";
+const SYNC_TAG = "snatch-extractions";
+
+self.addEventListener("install", (event) => {
+	event.waitUntil(precache());
+});
+
+self.addEventListener("activate", (event) => {
+	event.waitUntil(
+		(async () => {
+			const names = await caches.keys();
+			await Promise.all(
+				names
+					.filter((name) => name.startsWith("snatch-") && name !== CACHE_NAME)
+					.map((name) => caches.delete(name)),
+			);
+			await self.clients.claim();
+		})(),
+	);
+});
+
+self.addEventListener("message", (event) => {
+	if (event.data?.type === "skip-waiting") {
+		self.skipWaiting();
+	} else if (event.data?.type === "replay") {
+		event.waitUntil(replayQueue());
+	}
+});
+
+self.addEventListener("sync", (event) => {
+	if (event.tag === SYNC_TAG) {
+		event.waitUntil(replayQueue());
+	}
+});
+
+self.addEventListener("fetch", (event) => {
+	const { request } = event;
+	const url = new URL(request.url);
+	if (url.origin !== self.location.origin) {
+		return;
+	}
+
+	if (request.method === "POST" && url.pathname === "/api/download") {
+		event.respondWith(extractOrQueue(request));
+	} else if (request.method !== "GET" || url.pathname.startsWith("/api/")) {
+		// Left to the network
+	} else if (request.mode === "navigate") {
+		event.respondWith(navigate(request, url));
+	} else if (
+		url.pathname.startsWith("/_astro/") ||
+		SHELL_URLS.includes(url.pathname)
+	) {
+		event.respondWith(cacheFirst(request));
+	}
+});
+
+async function precache() {
+	const cache = await caches.open(CACHE_NAME);
+	await cache.addAll(SHELL_URLS.filter((path) => path !== "/"));
+
+	// "/" may redirect to the visitor's locale; keep the page under its own path
+	const shell = await fetch("/", { cache: "no-store" });
+	if (!shell.ok) {
+		throw new Error(`Could not fetch the app shell (${shell.status})`);
+	}
+	const html = await shell.text();
+	await cache.put(
+		new URL(shell.url).pathname,
+		new Response(html, { headers: shell.headers }),
+	);
+
+	const assets = new Set(html.match(ASSET_PATTERN));
+	await cache.addAll([...assets]);
+}
+
+/**
+ * Pages come from the network when it's there; offline, home pages fall back
+ * to a cached shell (another locale's if need be) and everything else to the
+ * offline page
+ */
+async function navigate(request, url) {
+	const cache = await caches.open(CACHE_NAME);
+	const isShell = SHELL_PATH.test(url.pathname);
+
+	try {
+		const response = await fetch(request);
+		// Redirects come back opaque and can't be replayed from the cache
+		if (isShell && response.ok && response.type === "basic") {
+			await cache.put(url.pathname, response.clone());
+		}
+		return response;
+	} catch {
+		const shell = isShell ? await matchShell(cache, url.pathname) : undefined;
+		return shell ?? (await cache.match("/offline.html")) ?? Response.error();
+	}
+}
+
+async function matchShell(cache, pathname) {
+	const exact = await cache.match(pathname);
+	if (exact) {
+		return exact;
+	}
+	const keys = await cache.keys();
+	const other = keys.find((key) => SHELL_PATH.test(new URL(key.url).pathname));
+	return other ? cache.match(other) : undefined;
+}
+
+async function cacheFirst(request) {
+	const cache = await caches.open(CACHE_NAME);
+	const cached = await cache.match(request, { ignoreSearch: true });
+	if (cached) {
+		return cached;
+	}
+
+	const response = await fetch(request);
+	if (response.ok) {
+		await cache.put(request, response.clone());
+	}
+	return response;
+}
+
+/**
+ * Language of the page a request came from: the prefix of its path ("/ja/"),
+ * English at the root
+ */
+function pageLocale(request) {
+	const path = request.referrer ? new URL(request.referrer).pathname : "/";
+	const prefix = path.match(/^\/([a-z]{2})\//)?.[1];
+	return prefix && Object.hasOwn(OFFLINE_MESSAGES, prefix) ? prefix : "en";
+}
+
+/**
+ * Send the extraction, or queue it when the request can't leave the device
+ */
+async function extractOrQueue(request) {
+	const body = await request.clone().text();
+	try {
+		return await fetch(request);
+	} catch {
+		await withQueue("readwrite", (store) =>
+			store.add({ body, queuedAt: Date.now() }),
+		);
+		await self.registration.sync?.register(SYNC_TAG).catch(() => {
+			// No Background Sync; the page asks for a replay when it's back online
+		});
+		const locale = pageLocale(request);
+		return new Response(
+			JSON.stringify({
+				success: false,
+				code: "OFFLINE",
+				error: OFFLINE_MESSAGES[locale],
+			}),
+			{
+				status: 503,
+				headers: {
+					"Content-Type": "application/json",
+					"Content-Language": locale,
+				},
+			},
+		);
+	}
+}
+
+/**
+ * Run queued extractions, then hand finished ones to any open page
+ * Results wait in the queue until a page is open to receive them.
+ */
+async function replayQueue() {
+	const entries = await withQueue("readonly", (store) => store.getAll());
+
+	for (const entry of entries) {
+		if (entry.response) {
+			continue;
+		}
+		let response;
+		try {
+			response = await fetch("/api/download", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Accept: "application/json",
+				},
+				body: entry.body,
+			});
+		} catch {
+			// Still offline; try again on the next sync
+			return;
+		}
+		entry.response = await response.json().catch(() => ({ success: false }));
+		await withQueue("readwrite", (store) => store.put(entry));
+	}
+
+	const pages = await self.clients.matchAll({ type: "window" });
+	if (pages.length === 0) {
+		return;
+	}
+
+	for (const entry of entries.filter((queued) => queued.response)) {
+		const { url } = JSON.parse(entry.body);
+		for (const page of pages) {
+			page.postMessage({
+				type: "queued-extraction",
+				url,
+				response: entry.response,
+			});
+		}
+		await withQueue("readwrite", (store) => store.delete(entry.id));
+	}
+}
+
+function settle(request) {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+async function withQueue(mode, operation) {
+	const open = indexedDB.open(QUEUE_DB, 1);
+	open.onupgradeneeded = () => {
+		open.result.createObjectStore(QUEUE_STORE, {
+			keyPath: "id",
+			autoIncrement: true,
+		});
+	};
+	const db = await settle(open);
+	try {
+		return await settle(
+			operation(db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE)),
+		);
+	} finally {
+		db.close();
+	}
+}
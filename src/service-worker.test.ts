@@ -0,0 +1,373 @@
+import type { APIContext } from "astro";
+import { beforeEach, describe, expect, it } from "vitest";
+import { errorMessage } from "@/lib/i18n";
+import { GET as serviceWorkerRoute } from "@/pages/sw.js";
+
+/**
+ * The worker runs against small in-memory stand-ins for the Cache Storage,
+ * IndexedDB and client APIs; it's loaded through the /sw.js route, so the
+ * script under test is the one browsers receive.
+ */
+
+const ORIGIN = "http://localhost";
+
+type Listener = (event: Record<string, unknown>) => void;
+type QueueRow = { id: number; body: string; response?: unknown };
+
+async function workerSource(): Promise<string> {
+	const response = await serviceWorkerRoute({} as APIContext);
+	return response.text();
+}
+
+function pathOf(key: string | Request): string {
+	return new URL(typeof key === "string" ? key : key.url, ORIGIN).pathname;
+}
+
+function fakeCaches() {
+	const stores = new Map<string, Map<string, Response>>();
+	const open = async (name: string) => {
+		const entries = stores.get(name) ?? new Map<string, Response>();
+		stores.set(name, entries);
+		return {
+			addAll: async (urls: string[]) => {
+				for (const url of urls) {
+					entries.set(pathOf(url), new Response(url));
+				}
+			},
+			put: async (key: string | Request, response: Response) => {
+				entries.set(pathOf(key), response);
+			},
+			match: async (key: string | Request) => entries.get(pathOf(key)),
+			keys: async () =>
+				[...entries.keys()].map((path) => new Request(`${ORIGIN}${path}`)),
+		};
+	};
+	return {
+		stores,
+		caches: {
+			open,
+			keys: async () => [...stores.keys()],
+			delete: async (name: string) => stores.delete(name),
+		},
+	};
+}
+
+// Just enough IndexedDB for the worker's queue: one auto-incremented store
+function fakeIndexedDB() {
+	const rows = new Map<number, QueueRow>();
+	let nextId = 1;
+
+	const request = <T>(run: () => T) => {
+		const pending: {
+			result?: T;
+			error?: unknown;
+			onsuccess?: () => void;
+			onerror?: () => void;
+			onupgradeneeded?: () => void;
+		} = {};
+		queueMicrotask(() => {
+			try {
+				pending.result = run();
+				pending.onupgradeneeded?.();
+				pending.onsuccess?.();
+			} catch (error) {
+				pending.error = error;
+				pending.onerror?.();
+			}
+		});
+		return pending;
+	};
+
+	const store = {
+		add: (value: Omit<QueueRow, "id">) =>
+			request(() => {
+				const id = nextId++;
+				rows.set(id, structuredClone({ ...value, id }));
+				return id;
+			}),
+		put: (value: QueueRow) =>
+			request(() => {
+				rows.set(value.id, structuredClone(value));
+				return value.id;
+			}),
+		getAll: () =>
+			request(() => [...rows.values()].map((row) => structuredClone(row))),
+		delete: (id: number) => request(() => rows.delete(id)),
+	};
+	const db = {
+		createObjectStore: () => store,
+		transaction: () => ({ objectStore: () => store }),
+		close: () => {},
+	};
+
+	return { rows, indexedDB: { open: () => request(() => db) } };
+}
+
+interface Harness {
+	dispatch: (type: string, event?: Record<string, unknown>) => Promise<unknown>;
+	fetchCalls: string[];
+	messages: unknown[];
+	syncTags: string[];
+	rows: Map<number, QueueRow>;
+	stores: Map<string, Map<string, Response>>;
+	setFetch: (handler: (url: string) => Promise<Response>) => void;
+	setPagesOpen: (open: boolean) => void;
+}
+
+async function loadWorker(): Promise<Harness> {
+	const listeners = new Map<string, Listener>();
+	const fetchCalls: string[] = [];
+	const messages: unknown[] = [];
+	const syncTags: string[] = [];
+	let fetchHandler = async (_url: string) => new Response("ok");
+	let pagesOpen = true;
+
+	const self = {
+		location: { origin: ORIGIN },
+		addEventListener: (type: string, listener: Listener) =>
+			listeners.set(type, listener),
+		skipWaiting: () => {},
+		registration: {
+			sync: {
+				register: async (tag: string) => {
+					syncTags.push(tag);
+				},
+			},
+		},
+		clients: {
+			claim: async () => {},
+			matchAll: async () =>
+				pagesOpen
+					? [{ postMessage: (message: unknown) => messages.push(message) }]
+					: [],
+		},
+	};
+	const fetch = (input: string | Request) => {
+		const url = new URL(typeof input === "string" ? input : input.url, ORIGIN)
+			.href;
+		fetchCalls.push(url);
+		return fetchHandler(url);
+	};
+
+	const { caches, stores } = fakeCaches();
+	const { indexedDB, rows } = fakeIndexedDB();
+	new Function("self", "caches", "indexedDB", "fetch", await workerSource())(
+		self,
+		caches,
+		indexedDB,
+		fetch,
+	);
+
+	// Resolves with what the worker responded with or waited on
+	const dispatch = async (
+		type: string,
+		event: Record<string, unknown> = {},
+	) => {
+		let settled: unknown;
+		listeners.get(type)?.({
+			...event,
+			respondWith: (promise: unknown) => {
+				settled = promise;
+			},
+			waitUntil: (promise: unknown) => {
+				settled = promise;
+			},
+		});
+		return settled;
+	};
+
+	return {
+		dispatch,
+		fetchCalls,
+		messages,
+		syncTags,
+		rows,
+		stores,
+		setFetch: (handler) => {
+			fetchHandler = handler;
+		},
+		setPagesOpen: (open) => {
+			pagesOpen = open;
+		},
+	};
+}
+
+const offline = async (): Promise<Response> => {
+	throw new TypeError("Failed to fetch");
+};
+
+// An extraction sent from the page at `page`
+function extraction(url: string, page = "/"): Request {
+	const request = new Request(`${ORIGIN}/api/download`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ url }),
+	});
+	// Set by browsers from the page; runtimes outside them leave it empty
+	return Object.defineProperty(request, "referrer", {
+		value: `${ORIGIN}${page}`,
+	});
+}
+
+describe("/sw.js", () => {
+	it("should serve the worker stamped with the build ID", async () => {
+		const response = await serviceWorkerRoute({} as APIContext);
+		const source = await response.text();
+
+		expect(response.headers.get("content-type")).toContain("text/javascript");
+		expect(response.headers.get("cache-control")).toBe("no-cache");
+		expect(source).not.toContain("__BUILD_ID__");
+		expect(source).not.toContain("__OFFLINE_MESSAGES__");
+		expect(source).toContain('const VERSION = "dev"');
+	});
+
+	it("should precache the shell, static files and the assets the shell uses", async () => {
+		const worker = await loadWorker();
+		worker.setFetch(async () => {
+			const shell = new Response(
+				'<script src="/_astro/app.abc123.js"></script><link href="/_astro/app.def456.css">',
+				{ headers: { "Content-Type": "text/html" } },
+			);
+			Object.defineProperty(shell, "url", { value: `${ORIGIN}/` });
+			return shell;
+		});
+
+		await worker.dispatch("install");
+
+		expect([...(worker.stores.get("snatch-dev")?.keys() ?? [])].sort()).toEqual(
+			[
+				"/",
+				"/_astro/app.abc123.js",
+				"/_astro/app.def456.css",
+				"/favicon.ico",
+				"/logo.svg",
+				"/logo192.png",
+				"/manifest.json",
+				"/offline.html",
+			],
+		);
+	});
+
+	it("should cache a redirected shell under its locale path", async () => {
+		const worker = await loadWorker();
+		worker.setFetch(async () => {
+			const shell = new Response("<html></html>");
+			Object.defineProperty(shell, "url", { value: `${ORIGIN}/ja/` });
+			return shell;
+		});
+
+		await worker.dispatch("install");
+
+		const cached = worker.stores.get("snatch-dev");
+		expect(cached?.has("/ja/")).toBe(true);
+		expect(cached?.has("/")).toBe(false);
+	});
+});
+
+describe("offline extraction queue", () => {
+	let worker: Harness;
+
+	beforeEach(async () => {
+		worker = await loadWorker();
+	});
+
+	it("should queue extractions made offline and ask for a background sync", async () => {
+		worker.setFetch(offline);
+		const response = (await worker.dispatch("fetch", {
+			request: extraction("https://www.tiktok.com/@user/video/1"),
+		})) as Response;
+
+		expect(response.status).toBe(503);
+		expect(await response.json()).toMatchObject({
+			code: "OFFLINE",
+			error: errorMessage("en", "OFFLINE"),
+		});
+		expect([...worker.rows.values()].map((row) => row.body)).toEqual([
+			JSON.stringify({ url: "https://www.tiktok.com/@user/video/1" }),
+		]);
+		expect(worker.syncTags).toEqual(["snatch-extractions"]);
+	});
+
+	it("should answer in the language of the page that sent the extraction", async () => {
+		worker.setFetch(offline);
+		for (const locale of ["zh", "ja"] as const) {
+			const response = (await worker.dispatch("fetch", {
+				request: extraction(
+					"https://www.tiktok.com/@user/video/1",
+					`/${locale}/`,
+				),
+			})) as Response;
+
+			expect(response.headers.get("content-language")).toBe(locale);
+			expect((await response.json()).error).toBe(
+				errorMessage(locale, "OFFLINE"),
+			);
+		}
+	});
+
+	it("should pass extractions through while online", async () => {
+		worker.setFetch(async () => Response.json({ success: true }));
+		const response = (await worker.dispatch("fetch", {
+			request: extraction("https://www.tiktok.com/@user/video/2"),
+		})) as Response;
+
+		expect(await response.json()).toEqual({ success: true });
+		expect(worker.rows.size).toBe(0);
+	});
+
+	it("should replay the queue and hand results to open pages", async () => {
+		worker.setFetch(offline);
+		await worker.dispatch("fetch", {
+			request: extraction("https://www.tiktok.com/@user/video/3"),
+		});
+
+		worker.setFetch(async () =>
+			Response.json({ success: true, title: "Clip" }),
+		);
+		await worker.dispatch("sync", { tag: "snatch-extractions" });
+
+		expect(worker.messages).toEqual([
+			{
+				type: "queued-extraction",
+				url: "https://www.tiktok.com/@user/video/3",
+				response: { success: true, title: "Clip" },
+			},
+		]);
+		expect(worker.rows.size).toBe(0);
+	});
+
+	it("should keep queued extractions while still offline", async () => {
+		worker.setFetch(offline);
+		await worker.dispatch("fetch", {
+			request: extraction("https://www.tiktok.com/@user/video/4"),
+		});
+
+		await worker.dispatch("message", { data: { type: "replay" } });
+
+		expect(worker.messages).toEqual([]);
+		expect([...worker.rows.values()][0].response).toBeUndefined();
+	});
+
+	it("should hold finished results until a page is open", async () => {
+		worker.setFetch(offline);
+		await worker.dispatch("fetch", {
+			request: extraction("https://www.tiktok.com/@user/video/5"),
+		});
+
+		worker.setPagesOpen(false);
+		worker.setFetch(async () => Response.json({ success: true }));
+		await worker.dispatch("sync", { tag: "snatch-extractions" });
+
+		expect(worker.messages).toEqual([]);
+		expect([...worker.rows.values()][0].response).toEqual({ success: true });
+
+		// The result is delivered as is, without extracting again
+		worker.setPagesOpen(true);
+		const extractions = worker.fetchCalls.length;
+		await worker.dispatch("message", { data: { type: "replay" } });
+
+		expect(worker.fetchCalls).toHaveLength(extractions);
+		expect(worker.messages).toHaveLength(1);
+		expect(worker.rows.size).toBe(0);
+	});
+});
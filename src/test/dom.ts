@@ -0,0 +1,21 @@
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+import { afterAll } from "vitest";
+
+/**
+ * Browser globals (window, document, ...) for component tests, from happy-dom,
+ * and Testing Library's React helpers to render into them
+ *
+ * react-dom detects what the DOM supports when it loads, so it has to load after
+ * the globals exist; import the helpers from here rather than from
+ * "@testing-library/react". The globals are removed after the importing file's
+ * tests, since the server-side tests need the runtime's own fetch, Request and
+ * Response, which happy-dom replaces.
+ */
+
+GlobalRegistrator.register({ url: "http://localhost/" });
+
+afterAll(() => GlobalRegistrator.unregister());
+
+export const { cleanup, fireEvent, render, waitFor } = await import(
+	"@testing-library/react"
+);
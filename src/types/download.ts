@@ -1,24 +1,43 @@
+import type { PLATFORMS } from "@/constants/platforms";
+
 /**
  * Core type definitions for the social media downloader system
  */
 
-export type SupportedPlatform = "instagram" | "twitter" | "tiktok";
+/**
+ * Platform IDs are the keys of the registry in constants/platforms.ts
+ */
+export type SupportedPlatform = keyof typeof PLATFORMS;
 
 export interface DownloadResult {
 	id: string;
-	type: "video" | "image";
+	type: MediaKind;
 	url: string;
 	thumbnail?: string;
 	downloadUrl: string;
+	formatId?: string; // Backend format identifier this result downloads
+	ext?: string; // File extension of the format, e.g. "mp4", "m4a"
+	itemIndex?: number; // Position of the media item this format belongs to (1-based)
 	title: string;
 	size?: string;
 	platform: SupportedPlatform;
-	quality?: "hd" | "sd" | "audio";
+	quality?: QualityPreference;
 	isMock?: boolean;
 	isFallback?: boolean; // Indicates if result came from fallback (Crawlee) downloader
 	metadata?: DownloadMetadata;
 }
 
+/**
+ * One photo or video of a post
+ * Carousel posts have several, in post order; each has its own formats.
+ */
+export interface MediaItem {
+	index: number; // 1-based position within the post
+	type: MediaKind;
+	thumbnail?: string;
+	formats: DownloadResult[];
+}
+
 export interface DownloadMetadata {
 	author?: string;
 	description?: string;
@@ -31,27 +50,203 @@ export interface DownloadMetadata {
 	tags?: string[];
 }
 
+/**
+ * Stable, machine-readable error codes; `error` carries the human-readable text
+ */
+export type ErrorCode =
+	| "INVALID_REQUEST" // Malformed body or parameters
+	| "INVALID_URL"
+	| "UNSUPPORTED_PLATFORM"
+	| "RATE_LIMITED"
+	| "CONTENT_PRIVATE"
+	| "CONTENT_NOT_FOUND"
+	| "EXTRACTION_FAILED" // The backend answered but found nothing to download
+	| "BACKEND_TIMEOUT"
+	| "BACKEND_UNAVAILABLE"
+	| "BACKEND_PROTOCOL_ERROR" // The backend's response broke its schema
+	| "INTERNAL_ERROR"
+	| "OFFLINE"; // Set by the service worker when it queued the request; never by the server
+
 export interface DownloadResponse {
 	success: boolean;
-	results?: DownloadResult[];
+	code?: ErrorCode; // Set on failures
+	resolvedUrl?: string; // Set when a short link was expanded before extraction
+	canonicalUrl?: string; // Normalized post URL; stable across mirrors and share params
+	media?: MediaItem[]; // The post's media items in order
+	results?: DownloadResult[]; // Every item's formats, flattened
 	error?: string;
 	platform?: SupportedPlatform;
 	processingTime?: number;
 }
 
+/**
+ * Stages reported by the streaming (SSE) variant of /api/download
+ */
+export type ExtractionStage =
+	| "validated"
+	| "backend"
+	| "formats"
+	| "done"
+	| "error";
+
+export interface ExtractionProgressEvent {
+	stage: ExtractionStage;
+	platform?: SupportedPlatform;
+	formatCount?: number;
+	response?: DownloadResponse; // Final payload, sent with "done" and "error"
+}
+
+/**
+ * Body of every failed API response
+ */
+export interface ErrorResponse {
+	success: false;
+	code: ErrorCode;
+	error: string;
+	platform?: SupportedPlatform;
+	resolvedUrl?: string;
+	canonicalUrl?: string;
+	received?: string; // Type of a `url` that wasn't a string
+}
+
+/**
+ * Per-URL outcome of a batch extraction
+ */
+export interface BatchDownloadItem extends DownloadResponse {
+	url: string;
+}
+
+export interface BatchDownloadResponse {
+	success: boolean;
+	code?: ErrorCode;
+	items?: BatchDownloadItem[];
+	error?: string;
+}
+
 export interface DownloadRequest {
 	url: string;
 	platform?: SupportedPlatform;
-	quality?: "hd" | "sd" | "audio";
+	quality?: QualityPreference;
+}
+
+export interface BatchDownloadRequest {
+	urls: string[];
+	quality?: QualityPreference;
 }
 
-export interface PlatformConfig {
+/**
+ * One file of a "Download all" ZIP; mirrors the /api/file query parameters
+ */
+export interface BundleFile {
+	url: string;
+	format?: string;
+	ext?: string;
+	item?: string;
+	title?: string;
+}
+
+export interface BundleRequest {
+	files: BundleFile[];
+}
+
+/**
+ * Entry of the manifest.json written at the end of every ZIP
+ */
+export interface BundleManifestEntry {
+	file?: string; // Name inside the archive; absent when the file couldn't be fetched
+	sourceUrl: string;
+	platform?: SupportedPlatform;
+	contentId?: string;
+	item?: number;
+	format?: string;
+	title?: string;
+	contentType?: string;
+	error?: string;
+}
+
+/**
+ * Service condition shown on the platform badges
+ */
+export type ServiceCondition = "working" | "degraded" | "down";
+
+/**
+ * Recent extraction outcomes for one platform
+ */
+export interface PlatformStatus {
+	condition: ServiceCondition;
+	samples: number; // Extractions in the window that say something about the platform
+	successRate?: number; // 0-1; absent without samples
+	lastSuccessAt?: string;
+	lastFailureAt?: string;
+}
+
+export interface BackendInstanceStatus {
+	id: string; // "backend-1", ...; backend URLs stay server-side
+	reachable: boolean;
+	latency?: number; // Probe round trip in ms
+	circuit: "closed" | "open" | "half-open";
+}
+
+/**
+ * Response of GET /api/status
+ */
+export interface StatusResponse {
+	condition: ServiceCondition;
+	checkedAt: string;
+	backend: {
+		condition: ServiceCondition;
+		instances: BackendInstanceStatus[];
+	};
+	platforms: Record<SupportedPlatform, PlatformStatus>;
+}
+
+/**
+ * Response of GET /api/health (liveness only; see /api/status for dependencies)
+ */
+export interface HealthResponse {
+	status: "ok";
+	uptime: number; // Seconds since the server started
+	timestamp: string;
+}
+
+export type MediaKind = "video" | "image";
+
+/**
+ * Format quality classes; also the preference a client may request
+ */
+export type QualityPreference = "hd" | "sd" | "audio";
+
+/**
+ * Icon keys the UI maps to icon components
+ */
+export type PlatformIcon =
+	| "instagram"
+	| "tiktok"
+	| "twitter"
+	| "youtube"
+	| "reddit"
+	| "threads"
+	| "facebook";
+
+/**
+ * Registry entry describing a supported platform
+ */
+export interface PlatformDefinition {
 	name: string;
-	domain: string;
+	domains: readonly string[]; // Hostnames, subdomains included
+	mirrorDomains: readonly string[]; // Embed-fixer mirrors serving the same paths
+	canonicalHost: string; // Host used in canonical URLs
+	postPath: string; // Path of a post on canonicalHost, with "{id}" for the content ID
+	shortLinkDomains: readonly string[]; // Redirecting share links, resolved server-side
+	patterns: readonly RegExp[]; // Path patterns capturing the content ID
+	supportedMedia: readonly MediaKind[];
 	color: string;
 	bgColor: string;
-	description: string;
-	supportedMedia: ("video" | "image")[];
+	description: string; // Short media summary, e.g. "Reels, Videos, Photos"
+	summary: string; // Sentence shown on the platform card
+	icon: PlatformIcon;
+	featureColor: string;
+	features: readonly string[];
 }
 
 /**
@@ -63,4 +258,6 @@ export interface ValidationSchema {
 	errors: string[];
 	platform?: SupportedPlatform;
 	contentId?: string;
+	canonicalUrl?: string;
+	code?: ErrorCode; // Set when invalid
 }